@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { CrossmintFrameServices } from './services';
+import {
+  GetAttestationReportEventHandler,
+  SignEventHandler,
+} from './services/communications/handlers';
+import CrossmintFrame from './index';
+
+const { messenger, services } = vi.hoisted(() => {
+  const messenger = { on: vi.fn(), send: vi.fn() };
+  const service = (name: string) => ({ name, init: vi.fn() });
+  return {
+    messenger,
+    services: {
+      storage: service('Storage service'),
+      events: { ...service('Events service'), getMessenger: () => messenger },
+      attestation: service('Attestation service'),
+      sharding: service('Sharding service'),
+    },
+  };
+});
+
+vi.mock('./services', () => ({
+  createCrossmintFrameServices: () => services,
+  initializeHandlers: (frameServices: CrossmintFrameServices) => [
+    new SignEventHandler(frameServices),
+    new GetAttestationReportEventHandler(frameServices),
+  ],
+}));
+
+describe('CrossmintFrame', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should register every handler once all services are initialized', async () => {
+    const frame = await CrossmintFrame.getInstance();
+    await frame.init();
+
+    expect(services.sharding.init).toHaveBeenCalledTimes(1);
+    expect(messenger.on.mock.calls.map(([event]) => event)).toEqual([
+      'request:sign',
+      'request:get-attestation-report',
+    ]);
+  });
+
+  it('should only serve attestation reports when the attestation cannot be verified', async () => {
+    services.attestation.init.mockRejectedValueOnce(new Error('TEE attestation is invalid'));
+    const frame = await CrossmintFrame.getInstance();
+
+    await expect(frame.init()).rejects.toThrow('TEE attestation is invalid');
+
+    expect(services.sharding.init).not.toHaveBeenCalled();
+    expect(messenger.on.mock.calls.map(([event]) => event)).toEqual([
+      'request:get-attestation-report',
+    ]);
+  });
+
+  it('should not register any handler when another service fails to initialize', async () => {
+    services.storage.init.mockRejectedValueOnce(new Error('IndexedDB error'));
+    const frame = await CrossmintFrame.getInstance();
+
+    await expect(frame.init()).rejects.toThrow('IndexedDB error');
+
+    expect(services.attestation.init).not.toHaveBeenCalled();
+    expect(messenger.on).not.toHaveBeenCalled();
+  });
+});
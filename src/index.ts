@@ -3,7 +3,10 @@
  */
 
 import { initializeHandlers, createCrossmintFrameServices } from './services';
-import type { EventHandler } from './services/communications/handlers';
+import {
+  GetAttestationReportEventHandler,
+  type EventHandler,
+} from './services/communications/handlers';
 import { measureFunctionTime } from './services/common/utils';
 
 // Define window augmentation
@@ -55,18 +58,30 @@ class CrossmintFrame {
     for (const service of Object.values(this.services)) {
       const serviceName = service.name;
       console.log(`-- Initializing ${serviceName}`);
-      await measureFunctionTime(`[${serviceName} init]`, () => service.init());
+      try {
+        await measureFunctionTime(`[${serviceName} init]`, () => service.init());
+      } catch (error) {
+        if (service !== this.services.attestation) {
+          throw error;
+        }
+        // The frame cannot encrypt to the TEE, but can still tell the parent why
+        console.error(`-- ${serviceName} failed to initialize, only serving attestation reports`);
+        this.registerHandlers(
+          this.handlers.filter(handler => handler instanceof GetAttestationReportEventHandler)
+        );
+        throw error;
+      }
       console.log(`-- ${serviceName} initialized!`);
     }
 
     console.log('-- Registering event handlers');
-    this.registerHandlers();
+    this.registerHandlers(this.handlers);
     console.log('-- Event handlers properly registered');
   }
 
-  private registerHandlers() {
+  private registerHandlers(handlers: EventHandler[]) {
     const messenger = this.services.events.getMessenger();
-    for (const handler of this.handlers) {
+    for (const handler of handlers) {
       console.log(`   -- Registering handler for event ${handler.event}`);
       messenger.on(handler.event, async payload => {
         const response = await handler.callback(payload);
@@ -9,6 +9,9 @@ import { z } from 'zod';
 import type { EncryptionService } from '../encryption';
 import { type AuthData, CrossmintRequest } from './request';
 import { type Environment, getEnvironment } from './environment';
+import { signingPolicySchema } from '../policy/rules';
+import { quoteCollateralSchema } from '../tee/collateral';
+import { signedTrustPolicySchema } from '../tee/trust-policy';
 
 function getHeaders(authData?: AuthData) {
   return {
@@ -92,6 +95,10 @@ export class CrossmintApiService extends CrossmintFrameService {
     signerId: z.string(),
     authKeyShare: z.string(),
     deviceKeyShareHash: z.string(),
+    // Absent for signers split 2-of-2 into a device and an auth share
+    threshold: z.number().int().optional(),
+    totalShares: z.number().int().optional(),
+    recoveryKeyShareHash: z.string().optional(),
   });
 
   static getAttestationInputSchema = z.undefined();
@@ -100,9 +107,30 @@ export class CrossmintApiService extends CrossmintFrameService {
     quote: z.string(),
     event_log: z.string(),
     hash_algorithm: z.literal('sha512'),
-    prefix: z.literal('app-data'),
+    // `app-data-v2` report data commits to the nonce of the request as well as the public key
+    prefix: z.enum(['app-data', 'app-data-v2']),
+    collateral: quoteCollateralSchema.optional(),
+    trustPolicy: signedTrustPolicySchema.optional(),
   });
 
+  static getSigningPolicyInputSchema = z.object({
+    deviceId: z.string(),
+  });
+  static getSigningPolicyOutputSchema = signingPolicySchema;
+
+  static rotateKeySharesInputSchema = z.object({
+    deviceId: z.string(),
+    signerId: z.string(),
+    authKeyShare: z.string(),
+    deviceKeyShareHash: z.string(),
+  });
+  static rotateKeySharesOutputSchema = z.object({});
+
+  static revokeDeviceInputSchema = z.object({
+    deviceId: z.string(),
+  });
+  static revokeDeviceOutputSchema = z.object({});
+
   static getPublicKeyInputSchema = z.undefined();
   static getPublicKeyOutputSchema = z.object({
     publicKey: z.string(),
@@ -150,13 +178,19 @@ export class CrossmintApiService extends CrossmintFrameService {
     return request.execute(input);
   }
 
-  async getAttestation(): Promise<z.infer<typeof CrossmintApiService.getAttestationOutputSchema>> {
+  /**
+   * @param nonce - Hex encoded nonce the TEE quote's report data should commit to
+   */
+  async getAttestation(
+    nonce?: string
+  ): Promise<z.infer<typeof CrossmintApiService.getAttestationOutputSchema>> {
     const request = new CrossmintRequest({
       name: 'getAttestation',
       inputSchema: CrossmintApiService.getAttestationInputSchema,
       outputSchema: CrossmintApiService.getAttestationOutputSchema,
       environment: getEnvironment(),
-      endpoint: () => '/attestation',
+      endpoint: () =>
+        nonce != null ? `/attestation?nonce=${encodeURIComponent(nonce)}` : '/attestation',
       method: 'GET',
       encrypted: false,
       encryptionService: this.encryptionService,
@@ -180,10 +214,15 @@ export class CrossmintApiService extends CrossmintFrameService {
     return request.execute(undefined);
   }
 
+  /**
+   * @param signerId - Signer to fetch the share of, when the authenticated user has several.
+   * Defaults to the signer the server associates with the credentials
+   */
   async getAuthShard(
     deviceId: string,
     input: z.infer<typeof CrossmintApiService.getAuthShardInputSchema>,
-    authData: AuthData
+    authData: AuthData,
+    signerId?: string
   ): Promise<z.infer<typeof CrossmintApiService.getAuthShardOutputSchema>> {
     CrossmintApiService.getAuthShardInputSchema.parse(input);
     const request = new CrossmintRequest({
@@ -192,7 +231,10 @@ export class CrossmintApiService extends CrossmintFrameService {
       outputSchema: CrossmintApiService.getAuthShardOutputSchema,
       environment: parseApiKey(authData.apiKey).environment,
       authData,
-      endpoint: _input => `/${deviceId}/key-shares`,
+      endpoint: _input =>
+        signerId != null
+          ? `/${deviceId}/key-shares?signerId=${encodeURIComponent(signerId)}`
+          : `/${deviceId}/key-shares`,
       method: 'GET',
       encrypted: false,
       encryptionService: this.encryptionService,
@@ -201,6 +243,80 @@ export class CrossmintApiService extends CrossmintFrameService {
     return request.execute(undefined);
   }
 
+  /**
+   * Fetches the signing policy that applies to the authenticated signer.
+   *
+   * The request is encrypted so that the response is too: decrypting it with HPKE auth mode
+   * proves the policy was issued by the attested TEE, and not injected along the way.
+   */
+  async getSigningPolicy(
+    input: z.infer<typeof CrossmintApiService.getSigningPolicyInputSchema>,
+    authData: AuthData
+  ): Promise<z.infer<typeof CrossmintApiService.getSigningPolicyOutputSchema>> {
+    CrossmintApiService.getSigningPolicyInputSchema.parse(input);
+    const request = new CrossmintRequest({
+      name: 'getSigningPolicy',
+      inputSchema: CrossmintApiService.getSigningPolicyInputSchema,
+      outputSchema: CrossmintApiService.getSigningPolicyOutputSchema,
+      environment: parseApiKey(authData.apiKey).environment,
+      authData,
+      endpoint: () => '/signing-policy',
+      method: 'POST',
+      encrypted: true,
+      encryptionService: this.encryptionService,
+      getHeaders,
+    });
+    return request.execute(input);
+  }
+
+  /**
+   * Replaces the auth share held by the TEE for a signer on this device. Encrypted because the
+   * request carries the new auth share.
+   */
+  async rotateKeyShares(
+    input: z.infer<typeof CrossmintApiService.rotateKeySharesInputSchema>,
+    authData: AuthData
+  ): Promise<z.infer<typeof CrossmintApiService.rotateKeySharesOutputSchema>> {
+    CrossmintApiService.rotateKeySharesInputSchema.parse(input);
+    const request = new CrossmintRequest({
+      name: 'rotateKeyShares',
+      inputSchema: CrossmintApiService.rotateKeySharesInputSchema,
+      outputSchema: CrossmintApiService.rotateKeySharesOutputSchema,
+      environment: parseApiKey(authData.apiKey).environment,
+      authData,
+      endpoint: () => '/rotate-key-shares',
+      method: 'POST',
+      encrypted: true,
+      encryptionService: this.encryptionService,
+      getHeaders,
+    });
+    return request.execute(input);
+  }
+
+  /**
+   * Revokes the auth shares issued to a device, so that they can no longer be fetched even if the
+   * device's storage was copied before it was wiped.
+   */
+  async revokeDevice(
+    input: z.infer<typeof CrossmintApiService.revokeDeviceInputSchema>,
+    authData: AuthData
+  ): Promise<z.infer<typeof CrossmintApiService.revokeDeviceOutputSchema>> {
+    CrossmintApiService.revokeDeviceInputSchema.parse(input);
+    const request = new CrossmintRequest({
+      name: 'revokeDevice',
+      inputSchema: CrossmintApiService.revokeDeviceInputSchema,
+      outputSchema: CrossmintApiService.revokeDeviceOutputSchema,
+      environment: parseApiKey(authData.apiKey).environment,
+      authData,
+      endpoint: () => '/revoke-device',
+      method: 'POST',
+      encrypted: false,
+      encryptionService: this.encryptionService,
+      getHeaders,
+    });
+    return request.execute(input);
+  }
+
   protected async fetchWithRetry(
     url: string,
     options: RequestInit,
@@ -1,4 +1,13 @@
-export type CrossmintFrameErrorCode = 'invalid-device-share';
+export type CrossmintFrameErrorCode =
+  | 'invalid-device-share'
+  | 'policy-violation'
+  | 'invalid-backup'
+  | 'invalid-recovery-share'
+  | 'insufficient-shares'
+  | 'invalid-session'
+  | 'user-declined'
+  | 'passkey-required'
+  | 'unsupported-storage';
 
 export class CrossmintFrameCodedError extends Error {
   public readonly code: CrossmintFrameErrorCode;
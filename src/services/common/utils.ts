@@ -8,6 +8,45 @@ export async function measureFunctionTime<T>(fnName: string, fn: () => Promise<T
   return result;
 }
 
+/**
+ * Overwrites buffers holding secret material with zeros. Null entries are skipped.
+ */
+export function zeroize(...buffers: (Uint8Array | null | undefined)[]): void {
+  for (const buffer of buffers) {
+    buffer?.fill(0);
+  }
+}
+
+/**
+ * Runs `fn` with a secret and zeroes the secret once it settles, whether it resolved or threw.
+ * The secret must not be used, nor kept, after `fn` returns.
+ */
+export async function useSecret<T>(
+  secret: Uint8Array,
+  fn: (secret: Uint8Array) => Promise<T>
+): Promise<T> {
+  try {
+    return await fn(secret);
+  } finally {
+    zeroize(secret);
+  }
+}
+
+/**
+ * Compares two byte arrays without returning early, so that timing does not reveal where secrets
+ * differ.
+ */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
 export function decodeBytes(bytes: string, encoding: 'base64' | 'base58' | 'hex'): Uint8Array {
   switch (encoding) {
     case 'base58':
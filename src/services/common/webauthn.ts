@@ -0,0 +1,118 @@
+import { decodeBytes, encodeBytes } from './utils';
+
+const CHALLENGE_LENGTH = 32;
+const WEBAUTHN_TIMEOUT_MS = 60_000;
+// Offset of the flags byte in authenticator data, after the 32-byte RP ID hash
+const AUTHENTICATOR_DATA_FLAGS_OFFSET = 32;
+const USER_VERIFIED_FLAG = 0x04;
+
+// The PRF extension is not in every DOM lib version yet
+type PrfExtensionInputs = { prf?: { eval?: { first: BufferSource } } };
+type PrfExtensionOutputs = { prf?: { enabled?: boolean; results?: { first?: ArrayBuffer } } };
+
+/**
+ * Registers a passkey for the frame's origin.
+ *
+ * @param options.prf - Require the PRF extension, to derive keys from the passkey
+ * @returns Base64 encoded credential ID
+ */
+export async function registerPasskey(
+  signerId: string,
+  options: { prf?: boolean } = {}
+): Promise<string> {
+  const extensions: PrfExtensionInputs = options.prf === true ? { prf: {} } : {};
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(CHALLENGE_LENGTH)),
+      rp: { name: 'Crossmint Signers Vault' },
+      user: {
+        id: new TextEncoder().encode(signerId),
+        name: signerId,
+        displayName: 'Crossmint signer',
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 },
+        { type: 'public-key', alg: -257 },
+      ],
+      authenticatorSelection: { userVerification: 'required', residentKey: 'discouraged' },
+      timeout: WEBAUTHN_TIMEOUT_MS,
+      extensions: extensions as AuthenticationExtensionsClientInputs,
+    },
+  });
+  if (!(credential instanceof PublicKeyCredential)) {
+    throw new Error('Passkey registration was cancelled');
+  }
+  if (
+    options.prf === true &&
+    (credential.getClientExtensionResults() as PrfExtensionOutputs).prf?.enabled !== true
+  ) {
+    throw new Error('Passkey does not support the PRF extension');
+  }
+  return encodeBytes(new Uint8Array(credential.rawId), 'base64');
+}
+
+/**
+ * Asks the user to verify themselves with their passkey.
+ *
+ * The assertion is requested by the frame itself, so the parent page cannot produce one. Its
+ * signature is not checked, only that the authenticator verified the user for our challenge.
+ *
+ * @throws {Error} When the user cancels or the authenticator did not verify the user
+ */
+export async function verifyUser(credentialId: string): Promise<void> {
+  await getAssertion(credentialId, {});
+}
+
+/**
+ * Evaluates the passkey's PRF for a salt, once the authenticator has verified the user. The same
+ * passkey and salt always give the same 32-byte output, which never leaves the authenticator
+ * otherwise.
+ *
+ * @throws {Error} When the user cancels, or the passkey does not support the PRF extension
+ */
+export async function evaluatePrf(credentialId: string, salt: Uint8Array): Promise<Uint8Array> {
+  const credential = await getAssertion(credentialId, { prf: { eval: { first: salt } } });
+  const output = (credential.getClientExtensionResults() as PrfExtensionOutputs).prf?.results
+    ?.first;
+  if (output == null) {
+    throw new Error('Passkey did not return a PRF output');
+  }
+  return new Uint8Array(output);
+}
+
+async function getAssertion(
+  credentialId: string,
+  extensions: PrfExtensionInputs
+): Promise<PublicKeyCredential> {
+  const challenge = crypto.getRandomValues(new Uint8Array(CHALLENGE_LENGTH));
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      challenge,
+      allowCredentials: [{ type: 'public-key', id: decodeBytes(credentialId, 'base64') }],
+      userVerification: 'required',
+      timeout: WEBAUTHN_TIMEOUT_MS,
+      extensions: extensions as AuthenticationExtensionsClientInputs,
+    },
+  });
+  if (!(credential instanceof PublicKeyCredential)) {
+    throw new Error('User verification was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  const clientData = JSON.parse(new TextDecoder().decode(response.clientDataJSON));
+  if (
+    clientData.type !== 'webauthn.get' ||
+    clientData.challenge !== toBase64Url(encodeBytes(challenge, 'base64'))
+  ) {
+    throw new Error('Passkey assertion does not match the request');
+  }
+  const flags = new Uint8Array(response.authenticatorData)[AUTHENTICATOR_DATA_FLAGS_OFFSET];
+  if ((flags & USER_VERIFIED_FLAG) === 0) {
+    throw new Error('Passkey did not verify the user');
+  }
+  return credential;
+}
+
+function toBase64Url(base64: string): string {
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
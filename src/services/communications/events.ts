@@ -4,7 +4,7 @@ import {
   type HandshakeOptions,
 } from '@crossmint/client-sdk-window';
 import { RNWebViewChild } from '@crossmint/client-sdk-rn-window';
-import { signerInboundEvents, signerOutboundEvents } from '@crossmint/client-signers';
+import { signerInboundEvents, signerOutboundEvents } from './schemas';
 import { CrossmintFrameService } from '../service';
 
 export class EventsService extends CrossmintFrameService {
@@ -1,13 +1,27 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   StartOnboardingEventHandler,
   CompleteOnboardingEventHandler,
   SignEventHandler,
+  SignBatchEventHandler,
+  GetStatusEventHandler,
+  ListSignersEventHandler,
+  ExportDeviceShareEventHandler,
+  ImportDeviceShareEventHandler,
+  RotateSharesEventHandler,
+  LogoutEventHandler,
+  CreateSessionEventHandler,
+  RevokeSessionEventHandler,
+  SetConfirmationModeEventHandler,
+  SetPasskeyUnlockEventHandler,
+  GetAttestationReportEventHandler,
 } from './handlers';
 import { createMockServices } from '../../tests/test-utils';
-import type { SignerInputEvent } from '@crossmint/client-signers';
+import { signerOutboundEvents, type SignerInputEvent } from './schemas';
 import bs58 from 'bs58';
 import { CrossmintFrameCodedError } from '../api/error';
+import { ShardingService } from '../user/sharding';
+import { CryptoKeyService } from '../crypto/crypto-key';
 
 const TEST_FIXTURES = {
   deviceId: 'test-device-id',
@@ -22,15 +36,59 @@ const TEST_FIXTURES = {
   },
   masterSecret: new Uint8Array(32).fill(1),
   secretKey: new Uint8Array(64).fill(1),
+  signerId: 'test-signer-id',
+  publicKeys: {
+    ed25519: { bytes: 'test-public-key', encoding: 'base58', keyType: 'ed25519' },
+    secp256k1: { bytes: 'test-secp256k1-public-key', encoding: 'hex', keyType: 'secp256k1' },
+    secp256r1: { bytes: 'test-secp256r1-public-key', encoding: 'hex', keyType: 'secp256r1' },
+  } as const,
 };
 
+const isZeroed = (bytes: Uint8Array) => bytes.every(byte => byte === 0);
+
 describe('EventHandlers', () => {
   const mockServices = createMockServices();
+  // Buffers handed out by the mocked reconstruction and key derivation
+  let masterSecrets: Uint8Array[];
+  let privateKeys: Uint8Array[];
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockServices.device.getId.mockReturnValue(TEST_FIXTURES.deviceId);
+    mockServices.device.getId.mockResolvedValue(TEST_FIXTURES.deviceId);
     mockServices.attestation.getAttestedPublicKey.mockResolvedValue('mock-attestation-public-key');
+    mockServices.policy.enforce.mockResolvedValue();
+    mockServices.sharding.getAuthenticatedSignerId.mockImplementation(
+      async (_authData, requestedSignerId) => requestedSignerId ?? TEST_FIXTURES.signerId
+    );
+    mockServices.confirmation.confirm.mockResolvedValue();
+
+    // The real secret scoping runs on top of the mocked reconstruction and derivation, which hand
+    // out fresh buffers so that they can be checked once the handler returns
+    masterSecrets = [];
+    privateKeys = [];
+    mockServices.sharding.reconstructSigner.mockImplementation(async () => {
+      const masterSecret = TEST_FIXTURES.masterSecret.slice();
+      masterSecrets.push(masterSecret);
+      return { signerId: TEST_FIXTURES.signerId, masterSecret };
+    });
+    mockServices.cryptoKey.getPrivateKeyFromSeed.mockImplementation(async () => {
+      const privateKey = TEST_FIXTURES.secretKey.slice();
+      privateKeys.push(privateKey);
+      return privateKey;
+    });
+    mockServices.sharding.withMasterSecret.mockImplementation(
+      ShardingService.prototype.withMasterSecret.bind(mockServices.sharding)
+    );
+    mockServices.cryptoKey.withPrivateKey.mockImplementation(
+      CryptoKeyService.prototype.withPrivateKey.bind(mockServices.cryptoKey)
+    );
+  });
+
+  afterEach(() => {
+    // SECURITY: no handler may leave a master secret or private key in memory once it returns
+    for (const secret of [...masterSecrets, ...privateKeys]) {
+      expect(isZeroed(secret)).toBe(true);
+    }
   });
 
   describe('StartOnboardingEventHandler', () => {
@@ -41,15 +99,34 @@ describe('EventHandlers', () => {
         data: { authId: 'test-auth-id' },
       };
 
-      mockServices.sharding.reconstructMasterSecret.mockResolvedValue(TEST_FIXTURES.masterSecret);
-      mockServices.cryptoKey.getPublicKeyFromSeed.mockResolvedValue({
-        bytes: TEST_FIXTURES.publicKey,
-        encoding: 'base58',
-        keyType: 'ed25519',
-      });
+      mockServices.cryptoKey.getAllPublicKeysFromSeed.mockResolvedValue(TEST_FIXTURES.publicKeys);
 
       await handler.handler(testInput);
 
+      expect(masterSecrets).toHaveLength(1);
+      expect(mockServices.api.startOnboarding).not.toHaveBeenCalled();
+      expect(mockServices.signers.register).toHaveBeenCalledWith(
+        TEST_FIXTURES.signerId,
+        TEST_FIXTURES.publicKeys
+      );
+    });
+
+    it('should not send an OTP when device shares cannot be stored', async () => {
+      const handler = new StartOnboardingEventHandler(mockServices);
+      mockServices.sharding.reconstructSigner.mockResolvedValueOnce(null);
+      mockServices.sharding.assertCanStoreDeviceShares.mockImplementationOnce(() => {
+        throw new CrossmintFrameCodedError(
+          'Device shares cannot be stored: LocalStorage store cannot persist the key that encrypts them',
+          'unsupported-storage'
+        );
+      });
+
+      const result = await handler.callback({
+        authData: TEST_FIXTURES.authData,
+        data: { authId: 'test-auth-id' },
+      });
+
+      expect(result).toMatchObject({ status: 'error', code: 'unsupported-storage' });
       expect(mockServices.api.startOnboarding).not.toHaveBeenCalled();
     });
   });
@@ -73,7 +150,6 @@ describe('EventHandlers', () => {
         signerId: 'test-signer-id',
       });
 
-      mockServices.sharding.reconstructMasterSecret.mockResolvedValue(TEST_FIXTURES.masterSecret);
       mockServices.ed25519.secretKeyFromSeed.mockResolvedValue(TEST_FIXTURES.secretKey);
       mockServices.ed25519.getPublicKey.mockResolvedValue(
         bs58.encode(TEST_FIXTURES.secretKey.slice(32))
@@ -89,6 +165,11 @@ describe('EventHandlers', () => {
           encoding: 'hex',
           keyType: 'secp256k1',
         },
+        secp256r1: {
+          bytes: 'test-secp256r1-public-key',
+          encoding: 'hex',
+          keyType: 'secp256r1',
+        },
       });
 
       const result = await handler.handler(testInput);
@@ -105,7 +186,73 @@ describe('EventHandlers', () => {
         'test-signer-id',
         TEST_FIXTURES.shares.device
       );
+      expect(mockServices.sharding.reconstructSigner).toHaveBeenCalledWith(
+        testInput.authData,
+        'test-signer-id'
+      );
       expect(result).toHaveProperty('publicKeys');
+      expect(mockServices.signers.register).toHaveBeenCalledWith(
+        'test-signer-id',
+        result.status === 'success' ? result.publicKeys : undefined
+      );
+    });
+  });
+
+  describe('GetStatusEventHandler', () => {
+    it('should reconstruct the requested signer', async () => {
+      const handler = new GetStatusEventHandler(mockServices);
+      mockServices.cryptoKey.getAllPublicKeysFromSeed.mockResolvedValue(TEST_FIXTURES.publicKeys);
+
+      const result = await handler.handler({
+        authData: TEST_FIXTURES.authData,
+        data: { signerId: TEST_FIXTURES.signerId },
+      });
+
+      expect(mockServices.sharding.reconstructSigner).toHaveBeenCalledWith(
+        TEST_FIXTURES.authData,
+        TEST_FIXTURES.signerId
+      );
+      expect(result).toEqual({
+        status: 'success',
+        signerStatus: 'ready',
+        publicKeys: TEST_FIXTURES.publicKeys,
+      });
+      expect(mockServices.signers.register).toHaveBeenCalledWith(
+        TEST_FIXTURES.signerId,
+        TEST_FIXTURES.publicKeys
+      );
+    });
+
+    it('should not record keys derived on request as the signer keys', async () => {
+      const handler = new GetStatusEventHandler(mockServices);
+      mockServices.cryptoKey.getAllPublicKeysFromSeed.mockResolvedValue(TEST_FIXTURES.publicKeys);
+
+      await handler.handler({
+        authData: TEST_FIXTURES.authData,
+        data: { derivationPaths: { ed25519: "m/44'/501'/1'/0'" } },
+      });
+
+      expect(mockServices.signers.register).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ListSignersEventHandler', () => {
+    it('should list the signers stored on this device', async () => {
+      const handler = new ListSignersEventHandler(mockServices);
+      const signers = [
+        {
+          signerId: TEST_FIXTURES.signerId,
+          createdAt: 1_700_000_000_000,
+          appId: 'test-app-id',
+          publicKeys: TEST_FIXTURES.publicKeys,
+        },
+      ];
+      mockServices.signers.list.mockResolvedValue(signers);
+
+      const result = await handler.callback({});
+
+      expect(result).toEqual({ status: 'success', signers });
+      expect(signerOutboundEvents['response:list-signers'].safeParse(result).success).toBe(true);
     });
   });
 
@@ -131,14 +278,226 @@ describe('EventHandlers', () => {
         'Key share stored on this device does not match Crossmint held authentication share.',
         'invalid-device-share'
       );
-      mockServices.sharding.reconstructMasterSecret.mockRejectedValue(mockError);
+      mockServices.sharding.reconstructSigner.mockRejectedValue(mockError);
 
       // Test the whole event handler flow including error handling
       const result = await handler.callback(testInput);
 
-      expect(mockServices.sharding.reconstructMasterSecret).toHaveBeenCalledWith(
-        testInput.authData
+      expect(mockServices.sharding.getAuthenticatedSignerId).toHaveBeenCalledWith(
+        testInput.authData,
+        undefined
+      );
+      expect(mockServices.sharding.reconstructSigner).toHaveBeenCalledWith(
+        testInput.authData,
+        TEST_FIXTURES.signerId
+      );
+      expect(result).toEqual({
+        status: 'error',
+        error: mockError.message,
+        code: 'invalid-device-share',
+      });
+    });
+
+    it('should sign with the requested signer, derivation path and signing mode', async () => {
+      const handler = new SignEventHandler(mockServices);
+      const derivationPath = "m/44'/60'/0'/0/0";
+      const message = new Uint8Array(32).fill(2);
+      const testInput: SignerInputEvent<'sign'> = {
+        authData: TEST_FIXTURES.authData,
+        data: {
+          keyType: 'secp256k1',
+          bytes: bs58.encode(message),
+          encoding: 'base58',
+          derivationPath,
+          signingMode: 'personal-message',
+          signerId: TEST_FIXTURES.signerId,
+        },
+      };
+
+      mockServices.cryptoKey.sign.mockResolvedValue({
+        signature: { bytes: '0xsignature', encoding: 'hex', keyType: 'secp256k1' },
+        publicKey: { bytes: '0xpublickey', encoding: 'hex', keyType: 'secp256k1' },
+      });
+
+      await handler.handler(testInput);
+
+      expect(mockServices.sharding.reconstructSigner).toHaveBeenCalledWith(
+        TEST_FIXTURES.authData,
+        TEST_FIXTURES.signerId
+      );
+      expect(mockServices.cryptoKey.getPrivateKeyFromSeed).toHaveBeenCalledWith(
+        'secp256k1',
+        masterSecrets[0],
+        derivationPath
+      );
+      expect(mockServices.cryptoKey.sign.mock.calls[0][1]).toBe(privateKeys[0]);
+      expect(mockServices.cryptoKey.sign).toHaveBeenCalledWith(
+        'secp256k1',
+        expect.any(Uint8Array),
+        message,
+        'personal-message',
+        undefined
+      );
+    });
+
+    it('should sign in the requested signature format', async () => {
+      const handler = new SignEventHandler(mockServices);
+      const digest = new Uint8Array(32).fill(3);
+      const testInput: SignerInputEvent<'sign'> = {
+        authData: TEST_FIXTURES.authData,
+        data: {
+          keyType: 'secp256r1',
+          bytes: bs58.encode(digest),
+          encoding: 'base58',
+          signatureFormat: 'der',
+        },
+      };
+
+      mockServices.cryptoKey.sign.mockResolvedValue({
+        signature: { bytes: '0x3045', encoding: 'hex', keyType: 'secp256r1' },
+        publicKey: { bytes: '0x04', encoding: 'hex', keyType: 'secp256r1' },
+      });
+
+      const result = await handler.callback(testInput);
+
+      expect(result).toMatchObject({ status: 'success', signature: { bytes: '0x3045' } });
+      expect(mockServices.cryptoKey.sign).toHaveBeenCalledWith(
+        'secp256r1',
+        privateKeys[0],
+        digest,
+        undefined,
+        'der'
+      );
+    });
+
+    it('should sign the transaction preimage and return its summary in transaction mode', async () => {
+      const handler = new SignEventHandler(mockServices);
+      const transaction = new Uint8Array([1, 2, 3]);
+      const preimage = new Uint8Array([4, 5, 6]);
+      const summary = {
+        chain: 'solana' as const,
+        feePayer: 'fee-payer',
+        calls: [
+          { type: 'native-transfer' as const, to: 'program', recipient: 'recipient', amount: '1' },
+        ],
+      };
+      const testInput: SignerInputEvent<'sign'> = {
+        authData: TEST_FIXTURES.authData,
+        data: {
+          keyType: 'ed25519',
+          bytes: bs58.encode(transaction),
+          encoding: 'base58',
+          signingMode: 'transaction',
+        },
+      };
+
+      mockServices.transactions.parse.mockReturnValue({ preimage, summary });
+      mockServices.cryptoKey.sign.mockResolvedValue({
+        signature: { bytes: 'signature', encoding: 'base58', keyType: 'ed25519' },
+        publicKey: { bytes: 'public-key', encoding: 'base58', keyType: 'ed25519' },
+      });
+
+      const result = await handler.callback(testInput);
+
+      expect(mockServices.transactions.parse).toHaveBeenCalledWith('ed25519', transaction);
+      expect(mockServices.cryptoKey.sign).toHaveBeenCalledWith(
+        'ed25519',
+        privateKeys[0],
+        preimage,
+        'raw-digest',
+        undefined
+      );
+      expect(mockServices.policy.enforce).toHaveBeenCalledWith(TEST_FIXTURES.authData, {
+        keyType: 'ed25519',
+        signingMode: 'transaction',
+        transaction: summary,
+      });
+      expect(result).toMatchObject({ status: 'success', transaction: summary });
+      expect(signerOutboundEvents['response:sign'].safeParse(result).success).toBe(true);
+    });
+
+    it('should refuse requests violating the signing policy before reconstructing the key', async () => {
+      const handler = new SignEventHandler(mockServices);
+      const testInput: SignerInputEvent<'sign'> = {
+        authData: TEST_FIXTURES.authData,
+        data: { keyType: 'secp256k1', bytes: bs58.encode(new Uint8Array(32)), encoding: 'base58' },
+      };
+      mockServices.policy.enforce.mockRejectedValue(
+        new CrossmintFrameCodedError('Token approvals are not allowed', 'policy-violation')
+      );
+
+      const result = await handler.callback(testInput);
+
+      expect(mockServices.sharding.reconstructSigner).not.toHaveBeenCalled();
+      expect(mockServices.cryptoKey.sign).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        status: 'error',
+        error: 'Token approvals are not allowed',
+        code: 'policy-violation',
+      });
+    });
+  });
+
+  describe('SignBatchEventHandler', () => {
+    const ed25519Result = {
+      signature: {
+        bytes: 'ed25519-signature',
+        encoding: 'base58' as const,
+        keyType: 'ed25519' as const,
+      },
+      publicKey: {
+        bytes: 'ed25519-public-key',
+        encoding: 'base58' as const,
+        keyType: 'ed25519' as const,
+      },
+    };
+    const testInput: SignerInputEvent<'sign-batch'> = {
+      authData: TEST_FIXTURES.authData,
+      data: {
+        items: [
+          { keyType: 'ed25519', bytes: bs58.encode(Buffer.from('first')), encoding: 'base58' },
+          { keyType: 'ed25519', bytes: bs58.encode(Buffer.from('second')), encoding: 'base58' },
+          { keyType: 'secp256k1', bytes: '0x1234', encoding: 'hex' },
+        ],
+      },
+    };
+
+    it('should reconstruct the master secret once and return per-item results', async () => {
+      const handler = new SignBatchEventHandler(mockServices);
+
+      mockServices.cryptoKey.sign
+        .mockResolvedValueOnce(ed25519Result)
+        .mockResolvedValueOnce(ed25519Result)
+        .mockRejectedValueOnce(new Error('Digest must be 32 bytes'));
+
+      const result = await handler.callback(testInput);
+
+      expect(mockServices.sharding.reconstructSigner).toHaveBeenCalledTimes(1);
+      expect(mockServices.cryptoKey.getPrivateKeyFromSeed).toHaveBeenCalledTimes(2);
+      expect(privateKeys).toHaveLength(2);
+      expect(mockServices.cryptoKey.sign).toHaveBeenCalledTimes(3);
+      expect(result).toEqual({
+        status: 'success',
+        results: [
+          { status: 'success', ...ed25519Result },
+          { status: 'success', ...ed25519Result },
+          { status: 'error', error: 'Digest must be 32 bytes' },
+        ],
+      });
+      expect(signerOutboundEvents['response:sign-batch'].safeParse(result).success).toBe(true);
+    });
+
+    it('should fail the whole batch when the master secret cannot be reconstructed', async () => {
+      const handler = new SignBatchEventHandler(mockServices);
+      const mockError = new CrossmintFrameCodedError(
+        'Key share stored on this device does not match Crossmint held authentication share.',
+        'invalid-device-share'
       );
+      mockServices.sharding.reconstructSigner.mockRejectedValue(mockError);
+
+      const result = await handler.callback(testInput);
+
+      expect(mockServices.cryptoKey.sign).not.toHaveBeenCalled();
       expect(result).toEqual({
         status: 'error',
         error: mockError.message,
@@ -146,4 +505,585 @@ describe('EventHandlers', () => {
       });
     });
   });
+
+  describe('Device share backup', () => {
+    const backupContent = {
+      deviceId: TEST_FIXTURES.deviceId,
+      signerId: TEST_FIXTURES.signerId,
+      deviceShare: new Uint8Array(33).fill(7),
+    };
+    const passphrase = 'correct horse battery staple';
+
+    // Handlers zero the device share once used, so each call gets its own copy
+    const exportedContent = () => ({
+      ...backupContent,
+      deviceShare: backupContent.deviceShare.slice(),
+    });
+
+    it('should export a backup that can be imported with the same passphrase', async () => {
+      const content = exportedContent();
+      mockServices.sharding.exportDeviceShare.mockResolvedValue(content);
+      let importedContent: typeof backupContent | undefined;
+      mockServices.sharding.importDeviceShare.mockImplementation(async (_authData, imported) => {
+        importedContent = { ...imported, deviceShare: imported.deviceShare.slice() };
+      });
+      mockServices.cryptoKey.getAllPublicKeysFromSeed.mockResolvedValue(TEST_FIXTURES.publicKeys);
+
+      const exported = await new ExportDeviceShareEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { passphrase },
+      });
+      expect(signerOutboundEvents['response:export-device-share'].parse(exported)).toEqual(
+        exported
+      );
+      if (exported.status !== 'success') {
+        throw new Error(exported.error);
+      }
+      expect(isZeroed(content.deviceShare)).toBe(true);
+
+      const imported = await new ImportDeviceShareEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { backup: exported.backup, passphrase },
+      });
+
+      expect(importedContent).toEqual(backupContent);
+      expect(isZeroed(mockServices.sharding.importDeviceShare.mock.calls[0][1].deviceShare)).toBe(
+        true
+      );
+      expect(mockServices.signers.register).toHaveBeenCalledWith(
+        TEST_FIXTURES.signerId,
+        TEST_FIXTURES.publicKeys
+      );
+      expect(imported).toEqual({
+        status: 'success',
+        signerStatus: 'ready',
+        publicKeys: TEST_FIXTURES.publicKeys,
+      });
+    });
+
+    it('should not touch stored shares when the passphrase is wrong', async () => {
+      mockServices.sharding.exportDeviceShare.mockResolvedValue(exportedContent());
+      const exported = await new ExportDeviceShareEventHandler(mockServices).handler({
+        authData: TEST_FIXTURES.authData,
+        data: { passphrase },
+      });
+
+      const result = await new ImportDeviceShareEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { backup: exported.backup, passphrase: 'wrong horse battery staple' },
+      });
+
+      expect(result).toMatchObject({ status: 'error', code: 'invalid-backup' });
+      expect(mockServices.sharding.importDeviceShare).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('RotateSharesEventHandler', () => {
+    const rotatedShares = {
+      authKeyShare: 'rotated-auth-share',
+      deviceKeyShareHash: 'rotated-hash',
+    };
+
+    beforeEach(() => {
+      mockServices.sharding.rotateShares.mockImplementation((_signerId, _secret, commit) =>
+        commit(rotatedShares)
+      );
+      mockServices.cryptoKey.getAllPublicKeysFromSeed.mockResolvedValue(TEST_FIXTURES.publicKeys);
+    });
+
+    it('should send the new auth share to Crossmint and keep the same public keys', async () => {
+      const result = await new RotateSharesEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { signerId: TEST_FIXTURES.signerId },
+      });
+
+      expect(mockServices.sharding.reconstructSigner).toHaveBeenCalledWith(
+        TEST_FIXTURES.authData,
+        TEST_FIXTURES.signerId
+      );
+      expect(mockServices.sharding.rotateShares).toHaveBeenCalledWith(
+        TEST_FIXTURES.signerId,
+        masterSecrets[0],
+        expect.any(Function)
+      );
+      expect(masterSecrets).toHaveLength(2);
+      expect(mockServices.api.rotateKeyShares).toHaveBeenCalledWith(
+        { deviceId: TEST_FIXTURES.deviceId, signerId: TEST_FIXTURES.signerId, ...rotatedShares },
+        TEST_FIXTURES.authData
+      );
+      expect(result).toEqual({
+        status: 'success',
+        signerStatus: 'ready',
+        publicKeys: TEST_FIXTURES.publicKeys,
+      });
+    });
+
+    it('SECURITY: should fail if the rotated shares derive other keys', async () => {
+      mockServices.cryptoKey.getAllPublicKeysFromSeed
+        .mockResolvedValueOnce(TEST_FIXTURES.publicKeys)
+        .mockResolvedValueOnce({
+          ...TEST_FIXTURES.publicKeys,
+          ed25519: { bytes: 'other-public-key', encoding: 'base58', keyType: 'ed25519' },
+        });
+
+      const result = await new RotateSharesEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+      });
+
+      expect(result).toMatchObject({
+        status: 'error',
+        error: 'Public keys changed during share rotation',
+      });
+      expect(mockServices.signers.register).not.toHaveBeenCalled();
+    });
+
+    it('should fail without a device share to rotate', async () => {
+      mockServices.sharding.reconstructSigner.mockResolvedValue(null);
+
+      const result = await new RotateSharesEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+      });
+
+      expect(result).toMatchObject({ status: 'error', error: 'Device share not found' });
+      expect(mockServices.sharding.rotateShares).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('LogoutEventHandler', () => {
+    it('should forget the authenticated signer only', async () => {
+      mockServices.sharding.forgetSigner.mockResolvedValue(TEST_FIXTURES.signerId);
+
+      const result = await new LogoutEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { scope: 'signer', signerId: TEST_FIXTURES.signerId },
+      });
+
+      expect(mockServices.sharding.forgetSigner).toHaveBeenCalledWith(
+        TEST_FIXTURES.authData,
+        TEST_FIXTURES.signerId
+      );
+      expect(mockServices.sharding.forgetDevice).not.toHaveBeenCalled();
+      expect(mockServices.device.clearId).not.toHaveBeenCalled();
+      expect(mockServices.sessions.revokeAll).toHaveBeenCalledWith(TEST_FIXTURES.signerId);
+      expect(result).toEqual({
+        status: 'success',
+        scope: 'signer',
+        removed: {
+          signerIds: [TEST_FIXTURES.signerId],
+          wrappingKey: false,
+          encryptionKeyPair: false,
+          deviceId: false,
+        },
+        deviceRevoked: false,
+      });
+      expect(signerOutboundEvents['response:logout'].safeParse(result).success).toBe(true);
+    });
+
+    it('should revoke the device before wiping it', async () => {
+      mockServices.api.revokeDevice.mockImplementation(async () => {
+        expect(mockServices.sharding.forgetDevice).not.toHaveBeenCalled();
+        expect(mockServices.device.clearId).not.toHaveBeenCalled();
+        return {};
+      });
+      mockServices.sharding.forgetDevice.mockResolvedValue({
+        signerIds: [TEST_FIXTURES.signerId],
+        wrappingKey: true,
+      });
+      mockServices.encrypt.resetKeyPair.mockResolvedValue(true);
+      mockServices.device.clearId.mockResolvedValue(true);
+
+      const result = await new LogoutEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { scope: 'device', revokeDevice: true },
+      });
+
+      expect(mockServices.api.revokeDevice).toHaveBeenCalledWith(
+        { deviceId: TEST_FIXTURES.deviceId },
+        TEST_FIXTURES.authData
+      );
+      expect(result).toEqual({
+        status: 'success',
+        scope: 'device',
+        removed: {
+          signerIds: [TEST_FIXTURES.signerId],
+          wrappingKey: true,
+          encryptionKeyPair: true,
+          deviceId: true,
+        },
+        deviceRevoked: true,
+      });
+      expect(signerOutboundEvents['response:logout'].safeParse(result).success).toBe(true);
+    });
+
+    it('should keep the device intact when revocation fails', async () => {
+      mockServices.api.revokeDevice.mockRejectedValue(new Error('Revocation failed'));
+
+      const result = await new LogoutEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { scope: 'device', revokeDevice: true },
+      });
+
+      expect(result).toMatchObject({ status: 'error', error: 'Revocation failed' });
+      expect(mockServices.sharding.forgetDevice).not.toHaveBeenCalled();
+      expect(mockServices.encrypt.resetKeyPair).not.toHaveBeenCalled();
+      expect(mockServices.device.clearId).not.toHaveBeenCalled();
+    });
+
+    it('should wipe the device without contacting Crossmint by default', async () => {
+      mockServices.sharding.forgetDevice.mockResolvedValue({ signerIds: [], wrappingKey: true });
+      mockServices.encrypt.resetKeyPair.mockResolvedValue(true);
+      mockServices.device.clearId.mockResolvedValue(true);
+
+      const result = await new LogoutEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { scope: 'device' },
+      });
+
+      expect(mockServices.api.revokeDevice).not.toHaveBeenCalled();
+      expect(mockServices.sessions.revokeAll).toHaveBeenCalledWith();
+      expect(result).toMatchObject({ status: 'success', deviceRevoked: false });
+    });
+  });
+
+  describe('Confirmation', () => {
+    const signData = {
+      keyType: 'secp256k1' as const,
+      bytes: bs58.encode(new Uint8Array(32).fill(2)),
+      encoding: 'base58' as const,
+    };
+    const declined = new CrossmintFrameCodedError('User declined the request', 'user-declined');
+
+    it('should ask the user to confirm before reconstructing the master secret', async () => {
+      mockServices.confirmation.confirm.mockImplementation(async () => {
+        expect(mockServices.sharding.reconstructSigner).not.toHaveBeenCalled();
+      });
+      mockServices.cryptoKey.sign.mockResolvedValue({
+        signature: { bytes: '0xsignature', encoding: 'hex', keyType: 'secp256k1' },
+        publicKey: { bytes: '0xpublickey', encoding: 'hex', keyType: 'secp256k1' },
+      });
+
+      const result = await new SignEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: signData,
+      });
+
+      expect(result).toMatchObject({ status: 'success' });
+      expect(mockServices.confirmation.confirm).toHaveBeenCalledWith(TEST_FIXTURES.signerId, {
+        title: 'Sign a request',
+        details: ['Sign a raw-digest message with your secp256k1 key'],
+        warning: expect.any(String),
+      });
+    });
+
+    it('should not sign when the user declines', async () => {
+      mockServices.confirmation.confirm.mockRejectedValue(declined);
+
+      const result = await new SignEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: signData,
+      });
+
+      expect(result).toEqual({
+        status: 'error',
+        error: 'User declined the request',
+        code: 'user-declined',
+      });
+      expect(mockServices.sharding.reconstructSigner).not.toHaveBeenCalled();
+      expect(mockServices.cryptoKey.sign).not.toHaveBeenCalled();
+    });
+
+    it('should confirm batches once', async () => {
+      mockServices.confirmation.confirm.mockRejectedValue(declined);
+
+      const result = await new SignBatchEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { items: [signData, signData] },
+      });
+
+      expect(mockServices.confirmation.confirm).toHaveBeenCalledTimes(1);
+      expect(mockServices.confirmation.confirm).toHaveBeenCalledWith(
+        TEST_FIXTURES.signerId,
+        expect.objectContaining({ title: 'Sign 2 requests' })
+      );
+      expect(result).toMatchObject({ status: 'error', code: 'user-declined' });
+      expect(mockServices.sharding.reconstructSigner).not.toHaveBeenCalled();
+    });
+
+    it('should refuse sessions out of scope before asking the user', async () => {
+      mockServices.sessions.assertScope.mockImplementationOnce(() => {
+        throw new CrossmintFrameCodedError(
+          'Sessions without spend limits must be created with allowUnlimited',
+          'policy-violation'
+        );
+      });
+
+      const result = await new CreateSessionEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { keyTypes: ['ed25519'], expiresInSeconds: 900 },
+      });
+
+      expect(result).toMatchObject({ status: 'error', code: 'policy-violation' });
+      expect(mockServices.confirmation.confirm).not.toHaveBeenCalled();
+      expect(mockServices.sessions.create).not.toHaveBeenCalled();
+    });
+
+    it('should not create sessions the user declined', async () => {
+      mockServices.confirmation.confirm.mockRejectedValue(declined);
+
+      const result = await new CreateSessionEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { keyTypes: ['ed25519'], expiresInSeconds: 900 },
+      });
+
+      expect(mockServices.confirmation.confirm).toHaveBeenCalledWith(
+        TEST_FIXTURES.signerId,
+        expect.objectContaining({ title: 'Grant signing rights to this site' })
+      );
+      expect(result).toMatchObject({ status: 'error', code: 'user-declined' });
+      expect(mockServices.sessions.create).not.toHaveBeenCalled();
+    });
+
+    it('should set the confirmation mode of the authenticated signer', async () => {
+      mockServices.confirmation.setMode.mockResolvedValue();
+
+      const result = await new SetConfirmationModeEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { mode: 'click' },
+      });
+
+      expect(mockServices.confirmation.setMode).toHaveBeenCalledWith(
+        TEST_FIXTURES.signerId,
+        'click'
+      );
+      expect(result).toEqual({ status: 'success', mode: 'click' });
+    });
+  });
+
+  describe('Passkey unlock', () => {
+    it('should bind and unbind the device share of the requested signer', async () => {
+      mockServices.sharding.bindDeviceShareToPasskey.mockResolvedValue(TEST_FIXTURES.signerId);
+      mockServices.sharding.unbindDeviceShareFromPasskey.mockResolvedValue(TEST_FIXTURES.signerId);
+      const handler = new SetPasskeyUnlockEventHandler(mockServices);
+
+      const bound = await handler.callback({
+        authData: TEST_FIXTURES.authData,
+        data: { enabled: true, signerId: TEST_FIXTURES.signerId },
+      });
+      const unbound = await handler.callback({
+        authData: TEST_FIXTURES.authData,
+        data: { enabled: false },
+      });
+
+      expect(mockServices.sharding.bindDeviceShareToPasskey).toHaveBeenCalledWith(
+        TEST_FIXTURES.authData,
+        TEST_FIXTURES.signerId
+      );
+      expect(mockServices.sharding.unbindDeviceShareFromPasskey).toHaveBeenCalledWith(
+        TEST_FIXTURES.authData,
+        undefined
+      );
+      expect(bound).toEqual({ status: 'success', signerId: TEST_FIXTURES.signerId, enabled: true });
+      expect(unbound).toEqual({
+        status: 'success',
+        signerId: TEST_FIXTURES.signerId,
+        enabled: false,
+      });
+    });
+
+    it('should not sign when the passkey does not unlock the device share', async () => {
+      mockServices.sharding.reconstructSigner.mockRejectedValue(
+        new CrossmintFrameCodedError('Passkey did not unlock the share', 'passkey-required')
+      );
+
+      const result = await new SignEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: {
+          keyType: 'ed25519',
+          bytes: bs58.encode(new Uint8Array(32).fill(2)),
+          encoding: 'base58',
+        },
+      });
+
+      expect(result).toEqual({
+        status: 'error',
+        error: 'Passkey did not unlock the share',
+        code: 'passkey-required',
+      });
+      expect(mockServices.cryptoKey.sign).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Session keys', () => {
+    const sessionId = 'test-session-id';
+    const signature = {
+      signature: { bytes: '0xsignature', encoding: 'hex' as const, keyType: 'secp256k1' as const },
+      publicKey: { bytes: '0xsessionkey', encoding: 'hex' as const, keyType: 'secp256k1' as const },
+    };
+    const signData = {
+      keyType: 'secp256k1' as const,
+      bytes: bs58.encode(new Uint8Array(32).fill(2)),
+      encoding: 'base58' as const,
+    };
+
+    it('should create a session with the master secret of the requested signer', async () => {
+      const grant = {
+        sessionId,
+        expiresAt: 1_700_000_000_000,
+        sessionKeys: [signature.publicKey],
+        delegation: { message: '{}', signatures: [signature] },
+      };
+      mockServices.sessions.create.mockResolvedValue(grant);
+
+      const result = await new CreateSessionEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: {
+          signerId: TEST_FIXTURES.signerId,
+          keyTypes: ['secp256k1'],
+          expiresInSeconds: 900,
+        },
+      });
+
+      expect(mockServices.sharding.reconstructSigner).toHaveBeenCalledWith(
+        TEST_FIXTURES.authData,
+        TEST_FIXTURES.signerId
+      );
+      expect(mockServices.sessions.create).toHaveBeenCalledWith(
+        TEST_FIXTURES.signerId,
+        masterSecrets[0],
+        { keyTypes: ['secp256k1'], expiresInSeconds: 900 }
+      );
+      expect(result).toEqual({ status: 'success', ...grant });
+      expect(signerOutboundEvents['response:create-session'].safeParse(result).success).toBe(true);
+    });
+
+    it('should sign with the session key without reconstructing the master secret', async () => {
+      const sessionKey = new Uint8Array(32).fill(5);
+      mockServices.sessions.withSessionKey.mockImplementation(async (_sessionId, _request, fn) =>
+        fn(sessionKey)
+      );
+      mockServices.cryptoKey.sign.mockResolvedValue(signature);
+
+      const result = await new SignEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { ...signData, sessionId, signerId: TEST_FIXTURES.signerId },
+      });
+
+      expect(result).toEqual({ status: 'success', ...signature });
+      expect(mockServices.policy.enforce).toHaveBeenCalled();
+      expect(mockServices.confirmation.confirm).not.toHaveBeenCalled();
+      expect(mockServices.sessions.withSessionKey).toHaveBeenCalledWith(
+        sessionId,
+        expect.objectContaining({ keyType: 'secp256k1', signerId: TEST_FIXTURES.signerId }),
+        expect.any(Function)
+      );
+      expect(mockServices.cryptoKey.sign).toHaveBeenCalledWith(
+        'secp256k1',
+        sessionKey,
+        expect.any(Uint8Array),
+        undefined,
+        undefined
+      );
+      expect(mockServices.sharding.reconstructSigner).not.toHaveBeenCalled();
+    });
+
+    it('should report session errors per item in batches', async () => {
+      mockServices.sessions.withSessionKey
+        .mockImplementationOnce(async (_sessionId, _request, fn) => fn(new Uint8Array(32)))
+        .mockRejectedValueOnce(
+          new CrossmintFrameCodedError('Session has expired', 'invalid-session')
+        );
+      mockServices.cryptoKey.sign.mockResolvedValue(signature);
+
+      const result = await new SignBatchEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { items: [signData, signData], sessionId },
+      });
+
+      expect(result).toEqual({
+        status: 'success',
+        results: [
+          { status: 'success', ...signature },
+          { status: 'error', error: 'Session has expired', code: 'invalid-session' },
+        ],
+      });
+      expect(mockServices.sharding.reconstructSigner).not.toHaveBeenCalled();
+    });
+
+    it('should revoke sessions', async () => {
+      mockServices.sessions.revoke.mockReturnValue(true);
+
+      const result = await new RevokeSessionEventHandler(mockServices).callback({
+        authData: TEST_FIXTURES.authData,
+        data: { sessionId },
+      });
+
+      expect(mockServices.sessions.revoke).toHaveBeenCalledWith(sessionId);
+      expect(result).toEqual({ status: 'success', revoked: true });
+    });
+  });
+
+  describe('GetAttestationReportEventHandler', () => {
+    it('should return the verification report of the attestation service', async () => {
+      const report = {
+        status: 'verified' as const,
+        verification: {
+          verifiedAt: 1,
+          expiresAt: 2,
+          reusedFromCache: false,
+          nonceBound: true,
+          tcbStatus: 'UpToDate',
+          advisoryIds: [],
+          app: {
+            appId: 'app-id',
+            composeHash: 'compose-hash',
+            instanceId: 'instance-id',
+            keyProvider: { name: 'kms', id: 'kms-id' },
+          },
+          trustPolicyVersion: 1,
+          measurements: { rtmr3: 'rtmr3' },
+          collateral: {
+            tcbInfo: { issueDate: '2026-01-01T00:00:00Z', nextUpdate: '2026-02-01T00:00:00Z' },
+            qeIdentity: null,
+          },
+          publicKeyHash: 'public-key-hash',
+        },
+      };
+      mockServices.attestation.getVerificationReport.mockResolvedValue(report);
+
+      const result = await new GetAttestationReportEventHandler(mockServices).callback({});
+
+      expect(result).toEqual({ status: 'success', report });
+      expect(
+        signerOutboundEvents['response:get-attestation-report'].safeParse(result).success
+      ).toBe(true);
+    });
+
+    it('should return why the attestation failed to verify', async () => {
+      const report = {
+        status: 'failed' as const,
+        error: 'TEE attestation is invalid: TCB status Revoked is not accepted',
+      };
+      mockServices.attestation.getVerificationReport.mockResolvedValue(report);
+
+      const result = await new GetAttestationReportEventHandler(mockServices).callback({});
+
+      expect(result).toEqual({ status: 'success', report });
+      expect(
+        signerOutboundEvents['response:get-attestation-report'].safeParse(result).success
+      ).toBe(true);
+    });
+
+    it('should fail when the attestation service was not initialized', async () => {
+      mockServices.attestation.getVerificationReport.mockRejectedValue(
+        new Error('Attestation service has not been initialized!')
+      );
+
+      const result = await new GetAttestationReportEventHandler(mockServices).callback({});
+
+      expect(result).toEqual({
+        status: 'error',
+        error: 'Attestation service has not been initialized!',
+      });
+    });
+  });
 });
@@ -1,11 +1,19 @@
+import type { CrossmintFrameServices } from '..';
+import { decodeBytes, measureFunctionTime, zeroize } from '../common/utils';
+import { CrossmintFrameCodedError } from '../api/error';
+import type { AuthData } from '../api/request';
+import { openDeviceShareBackup, sealDeviceShareBackup } from '../user/device-share-backup';
+import { describeSession, describeSigning } from '../confirmation';
 import type {
+  KeyType,
+  SignData,
+  SignatureFormat,
+  SigningMode,
   SignerIFrameEventName,
   SignerInputEvent,
   SignerOutputEvent,
-} from '@crossmint/client-signers';
-import type { CrossmintFrameServices } from '..';
-import { decodeBytes, measureFunctionTime } from '../common/utils';
-import { CrossmintFrameCodedError } from '../api/error';
+  TransactionSummary,
+} from './schemas';
 
 const DEFAULT_TIMEOUT_MS = 30_000;
 type SuccessfulOutputEvent<EventName extends SignerIFrameEventName> = Extract<
@@ -13,6 +21,64 @@ type SuccessfulOutputEvent<EventName extends SignerIFrameEventName> = Extract<
   { status: 'success' }
 >;
 
+const toErrorResponse = (error: unknown) => ({
+  status: 'error' as const,
+  error: error instanceof Error ? error.message : 'Unknown error',
+  ...(error instanceof CrossmintFrameCodedError && { code: error.code }),
+});
+
+type PreparedPayload = {
+  keyType: KeyType;
+  derivationPath?: string;
+  payload: Uint8Array;
+  signingMode?: SigningMode;
+  signatureFormat?: SignatureFormat;
+  transaction?: TransactionSummary;
+};
+
+/**
+ * Decodes a sign request and checks it against the signing policy, before any key is used.
+ * In transaction mode, the transaction is parsed so that its signing preimage is what gets signed,
+ * and its summary is returned next to the signature.
+ */
+const preparePayload = async (
+  services: CrossmintFrameServices,
+  authData: AuthData,
+  { keyType, bytes, encoding, derivationPath, signingMode, signatureFormat }: SignData
+): Promise<PreparedPayload> => {
+  const message = decodeBytes(bytes, encoding);
+  if (signingMode !== 'transaction') {
+    await services.policy.enforce(authData, { keyType, signingMode: signingMode ?? 'raw-digest' });
+    return { keyType, derivationPath, payload: message, signingMode, signatureFormat };
+  }
+
+  const { preimage, summary } = services.transactions.parse(keyType, message);
+  await services.policy.enforce(authData, { keyType, signingMode, transaction: summary });
+  return {
+    keyType,
+    derivationPath,
+    payload: preimage,
+    signingMode: 'raw-digest',
+    signatureFormat,
+    transaction: summary,
+  };
+};
+
+const signPayload = async (
+  services: CrossmintFrameServices,
+  privateKey: Uint8Array,
+  { keyType, payload, signingMode, signatureFormat, transaction }: PreparedPayload
+) => {
+  const result = await services.cryptoKey.sign(
+    keyType,
+    privateKey,
+    payload,
+    signingMode,
+    signatureFormat
+  );
+  return transaction != null ? { ...result, transaction } : result;
+};
+
 export abstract class EventHandler<
   EventName extends SignerIFrameEventName = SignerIFrameEventName,
 > {
@@ -30,14 +96,8 @@ export abstract class EventHandler<
       );
       return result;
     } catch (error: unknown) {
-      const errorResponse = {
-        status: 'error' as const,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        ...(error instanceof CrossmintFrameCodedError && { code: error.code }),
-      };
-
       console.error(`[${this.event} handler] Error: ${error}`);
-      return errorResponse;
+      return toErrorResponse(error);
     }
   }
 
@@ -53,23 +113,33 @@ export class StartOnboardingEventHandler extends EventHandler<'start-onboarding'
   async handler(
     payload: SignerInputEvent<'start-onboarding'>
   ): Promise<SuccessfulOutputEvent<'start-onboarding'>> {
-    const masterSecret = await this.services.sharding.reconstructMasterSecret(payload.authData);
+    const publicKeys = await this.services.sharding.withMasterSecret(
+      payload.authData,
+      undefined,
+      async ({ signerId, masterSecret }) => {
+        const publicKeys = await this.services.cryptoKey.getAllPublicKeysFromSeed(masterSecret);
+        await this.services.signers.register(signerId, publicKeys);
+        return publicKeys;
+      }
+    );
 
-    if (masterSecret != null) {
+    if (publicKeys != null) {
       return {
         status: 'success',
         signerStatus: 'ready',
-        publicKeys: await this.services.cryptoKey.getAllPublicKeysFromSeed(masterSecret),
+        publicKeys,
       };
     }
 
+    // Fail before an OTP is sent for a device share that could not be kept
+    this.services.sharding.assertCanStoreDeviceShares();
     await this.services.api.startOnboarding(
       {
         ...payload.data,
         encryptionContext: {
           publicKey: await this.services.encrypt.getPublicKey(),
         },
-        deviceId: this.services.device.getId(),
+        deviceId: await this.services.device.getId(),
       },
       payload.authData
     );
@@ -88,7 +158,7 @@ export class CompleteOnboardingEventHandler extends EventHandler<'complete-onboa
   async handler(
     payload: SignerInputEvent<'complete-onboarding'>
   ): Promise<SuccessfulOutputEvent<'complete-onboarding'>> {
-    const deviceId = this.services.device.getId();
+    const deviceId = await this.services.device.getId();
     const encryptedOtp = payload.data.onboardingAuthentication.encryptedOtp;
     console.log(
       `[DEBUG, ${this.event} handler] Received encrypted OTP: ${encryptedOtp}. Decrypting`
@@ -109,16 +179,21 @@ export class CompleteOnboardingEventHandler extends EventHandler<'complete-onboa
       payload.authData
     );
 
-    this.services.sharding.storeDeviceShare(signerId, deviceKeyShare);
-    const masterSecret = await this.services.sharding.reconstructMasterSecret(payload.authData);
-    if (masterSecret == null) {
+    await this.services.sharding.storeDeviceShare(signerId, deviceKeyShare);
+    const publicKeys = await this.services.sharding.withMasterSecret(
+      payload.authData,
+      signerId,
+      ({ masterSecret }) => this.services.cryptoKey.getAllPublicKeysFromSeed(masterSecret)
+    );
+    if (publicKeys == null) {
       throw new Error('Device share not found');
     }
 
+    await this.services.signers.register(signerId, publicKeys);
     return {
       status: 'success',
       signerStatus: 'ready',
-      publicKeys: await this.services.cryptoKey.getAllPublicKeysFromSeed(masterSecret),
+      publicKeys,
     };
   }
 }
@@ -130,9 +205,24 @@ export class GetStatusEventHandler extends EventHandler<'get-status'> {
   async handler(
     payload: SignerInputEvent<'get-status'>
   ): Promise<SuccessfulOutputEvent<'get-status'>> {
-    const masterSecret = await this.services.sharding.reconstructMasterSecret(payload.authData);
+    const derivationPaths = payload.data?.derivationPaths;
+    const publicKeys = await this.services.sharding.withMasterSecret(
+      payload.authData,
+      payload.data?.signerId,
+      async ({ signerId, masterSecret }) => {
+        const publicKeys = await this.services.cryptoKey.getAllPublicKeysFromSeed(
+          masterSecret,
+          derivationPaths
+        );
+        // Only the signer's own keys are recorded, not those derived on request
+        if (derivationPaths == null) {
+          await this.services.signers.register(signerId, publicKeys);
+        }
+        return publicKeys;
+      }
+    );
 
-    if (masterSecret == null) {
+    if (publicKeys == null) {
       return {
         status: 'success',
         signerStatus: 'new-device',
@@ -142,7 +232,7 @@ export class GetStatusEventHandler extends EventHandler<'get-status'> {
     return {
       status: 'success',
       signerStatus: 'ready',
-      publicKeys: await this.services.cryptoKey.getAllPublicKeysFromSeed(masterSecret),
+      publicKeys,
     };
   }
 }
@@ -152,24 +242,427 @@ export class SignEventHandler extends EventHandler<'sign'> {
   responseEvent = 'response:sign' as const;
 
   async handler(payload: SignerInputEvent<'sign'>): Promise<SuccessfulOutputEvent<'sign'>> {
-    const masterSecret = await this.services.sharding.reconstructMasterSecret(payload.authData);
-    if (masterSecret == null) {
+    const prepared = await preparePayload(this.services, payload.authData, payload.data);
+
+    const { sessionId } = payload.data;
+    if (sessionId != null) {
+      return {
+        status: 'success',
+        ...(await this.services.sessions.withSessionKey(
+          sessionId,
+          { signerId: payload.data.signerId, ...prepared },
+          privateKey => signPayload(this.services, privateKey, prepared)
+        )),
+      };
+    }
+
+    // The user confirms before the master secret is reconstructed, when the signer requires it
+    const signerId = await this.services.sharding.getAuthenticatedSignerId(
+      payload.authData,
+      payload.data.signerId
+    );
+    await this.services.confirmation.confirm(signerId, describeSigning([prepared]));
+
+    const result = await this.services.sharding.withMasterSecret(
+      payload.authData,
+      signerId,
+      ({ masterSecret }) =>
+        this.services.cryptoKey.withPrivateKey(
+          prepared.keyType,
+          masterSecret,
+          prepared.derivationPath,
+          privateKey => signPayload(this.services, privateKey, prepared)
+        )
+    );
+    if (result == null) {
       throw new Error('Device share not found');
     }
 
-    const { keyType, bytes, encoding } = payload.data;
-    const privateKey = await this.services.cryptoKey.getPrivateKeyFromSeed(keyType, masterSecret);
-    const message = decodeBytes(bytes, encoding);
+    return {
+      status: 'success',
+      ...result,
+    };
+  }
+}
+
+type SignBatchResult = SuccessfulOutputEvent<'sign-batch'>['results'][number];
+
+export class SignBatchEventHandler extends EventHandler<'sign-batch'> {
+  event = 'request:sign-batch' as const;
+  responseEvent = 'response:sign-batch' as const;
 
-    const { signature, publicKey } = await this.services.cryptoKey.sign(
-      keyType,
-      privateKey,
-      message
+  async handler(
+    payload: SignerInputEvent<'sign-batch'>
+  ): Promise<SuccessfulOutputEvent<'sign-batch'>> {
+    const results = new Array<SignBatchResult>(payload.data.items.length);
+
+    // Every item is checked against the signing policy before the master secret is reconstructed
+    const preparedItems: [number, PreparedPayload][] = [];
+    for (const [index, item] of payload.data.items.entries()) {
+      try {
+        preparedItems.push([index, await preparePayload(this.services, payload.authData, item)]);
+      } catch (error: unknown) {
+        results[index] = this.itemError(index, error);
+      }
+    }
+
+    const { sessionId } = payload.data;
+    if (sessionId != null) {
+      for (const [index, prepared] of preparedItems) {
+        try {
+          results[index] = {
+            status: 'success',
+            ...(await this.services.sessions.withSessionKey(
+              sessionId,
+              { signerId: payload.data.signerId, ...prepared },
+              privateKey => signPayload(this.services, privateKey, prepared)
+            )),
+          };
+        } catch (error: unknown) {
+          results[index] = this.itemError(index, error);
+        }
+      }
+      return { status: 'success', results };
+    }
+
+    // The whole batch is confirmed at once
+    const signerId = await this.services.sharding.getAuthenticatedSignerId(
+      payload.authData,
+      payload.data.signerId
     );
+    if (preparedItems.length > 0) {
+      await this.services.confirmation.confirm(
+        signerId,
+        describeSigning(preparedItems.map(([, prepared]) => prepared))
+      );
+    }
+
+    const signedResults = await this.services.sharding.withMasterSecret(
+      payload.authData,
+      signerId,
+      async ({ masterSecret }) => {
+        // Items signed by the same key only derive it once. Keys are zeroed once all are signed
+        const privateKeys = new Map<string, Promise<Uint8Array>>();
+        const getPrivateKey = (keyType: KeyType, derivationPath?: string) => {
+          const cacheKey = `${keyType}:${derivationPath ?? ''}`;
+          let privateKey = privateKeys.get(cacheKey);
+          if (privateKey == null) {
+            privateKey = this.services.cryptoKey.getPrivateKeyFromSeed(
+              keyType,
+              masterSecret,
+              derivationPath
+            );
+            privateKeys.set(cacheKey, privateKey);
+          }
+          return privateKey;
+        };
+
+        try {
+          for (const [index, prepared] of preparedItems) {
+            try {
+              const privateKey = await getPrivateKey(prepared.keyType, prepared.derivationPath);
+              results[index] = {
+                status: 'success',
+                ...(await signPayload(this.services, privateKey, prepared)),
+              };
+            } catch (error: unknown) {
+              results[index] = this.itemError(index, error);
+            }
+          }
+        } finally {
+          const settled = await Promise.allSettled(privateKeys.values());
+          for (const privateKey of settled) {
+            if (privateKey.status === 'fulfilled') {
+              zeroize(privateKey.value);
+            }
+          }
+        }
+        return results;
+      }
+    );
+    if (signedResults == null) {
+      throw new Error('Device share not found');
+    }
+
+    return {
+      status: 'success',
+      results: signedResults,
+    };
+  }
+
+  private itemError(index: number, error: unknown): SignBatchResult {
+    console.error(`[${this.event} handler] Error signing item ${index}: ${error}`);
+    return toErrorResponse(error);
+  }
+}
+
+export class ListSignersEventHandler extends EventHandler<'list-signers'> {
+  event = 'request:list-signers' as const;
+  responseEvent = 'response:list-signers' as const;
+
+  async handler(): Promise<SuccessfulOutputEvent<'list-signers'>> {
+    return {
+      status: 'success',
+      signers: await this.services.signers.list(),
+    };
+  }
+}
+
+export class ExportDeviceShareEventHandler extends EventHandler<'export-device-share'> {
+  event = 'request:export-device-share' as const;
+  responseEvent = 'response:export-device-share' as const;
+
+  async handler(
+    payload: SignerInputEvent<'export-device-share'>
+  ): Promise<SuccessfulOutputEvent<'export-device-share'>> {
+    const content = await this.services.sharding.exportDeviceShare(
+      payload.authData,
+      payload.data.signerId
+    );
+    if (content == null) {
+      throw new Error('Device share not found');
+    }
+
+    try {
+      return {
+        status: 'success',
+        backup: await sealDeviceShareBackup(content, payload.data.passphrase),
+      };
+    } finally {
+      zeroize(content.deviceShare);
+    }
+  }
+}
+
+export class ImportDeviceShareEventHandler extends EventHandler<'import-device-share'> {
+  event = 'request:import-device-share' as const;
+  responseEvent = 'response:import-device-share' as const;
+
+  async handler(
+    payload: SignerInputEvent<'import-device-share'>
+  ): Promise<SuccessfulOutputEvent<'import-device-share'>> {
+    const content = await openDeviceShareBackup(payload.data.backup, payload.data.passphrase);
+    try {
+      await this.services.sharding.importDeviceShare(payload.authData, content);
+    } finally {
+      zeroize(content.deviceShare);
+    }
+
+    const publicKeys = await this.services.sharding.withMasterSecret(
+      payload.authData,
+      content.signerId,
+      ({ masterSecret }) => this.services.cryptoKey.getAllPublicKeysFromSeed(masterSecret)
+    );
+    if (publicKeys == null) {
+      throw new Error('Device share not found');
+    }
+
+    await this.services.signers.register(content.signerId, publicKeys);
+    return {
+      status: 'success',
+      signerStatus: 'ready',
+      publicKeys,
+    };
+  }
+}
+
+export class RotateSharesEventHandler extends EventHandler<'rotate-shares'> {
+  event = 'request:rotate-shares' as const;
+  responseEvent = 'response:rotate-shares' as const;
+
+  async handler(
+    payload: SignerInputEvent<'rotate-shares'>
+  ): Promise<SuccessfulOutputEvent<'rotate-shares'>> {
+    const { authData } = payload;
+    const deviceId = await this.services.device.getId();
+    const rotated = await this.services.sharding.withMasterSecret(
+      authData,
+      payload.data?.signerId,
+      async ({ signerId, masterSecret }) => {
+        const publicKeys = await this.services.cryptoKey.getAllPublicKeysFromSeed(masterSecret);
+        await this.services.sharding.rotateShares(signerId, masterSecret, async shares => {
+          await this.services.api.rotateKeyShares({ deviceId, signerId, ...shares }, authData);
+        });
+        return { signerId, publicKeys };
+      }
+    );
+    if (rotated == null) {
+      throw new Error('Device share not found');
+    }
+    const { signerId, publicKeys } = rotated;
+
+    // Reconstructs from the new shares, as the TEE now holds them, to make sure addresses did not move
+    const rotatedPublicKeys = await this.services.sharding.withMasterSecret(
+      authData,
+      signerId,
+      ({ masterSecret }) => this.services.cryptoKey.getAllPublicKeysFromSeed(masterSecret)
+    );
+    if (rotatedPublicKeys == null) {
+      throw new Error('Device share not found');
+    }
+    if (JSON.stringify(rotatedPublicKeys) !== JSON.stringify(publicKeys)) {
+      throw new Error('Public keys changed during share rotation');
+    }
+
+    await this.services.signers.register(signerId, publicKeys);
+    return {
+      status: 'success',
+      signerStatus: 'ready',
+      publicKeys,
+    };
+  }
+}
+
+/**
+ * Forgets a signer or the whole device. Crossmint is asked to revoke the device before anything is
+ * deleted, as the device ID is needed for it. The response lists exactly what was removed.
+ */
+export class LogoutEventHandler extends EventHandler<'logout'> {
+  event = 'request:logout' as const;
+  responseEvent = 'response:logout' as const;
+
+  async handler(payload: SignerInputEvent<'logout'>): Promise<SuccessfulOutputEvent<'logout'>> {
+    const { authData, data } = payload;
+    if (data.scope === 'signer') {
+      const signerId = await this.services.sharding.forgetSigner(authData, data.signerId);
+      this.services.sessions.revokeAll(signerId);
+      return {
+        status: 'success',
+        scope: 'signer',
+        removed: {
+          signerIds: [signerId],
+          wrappingKey: false,
+          encryptionKeyPair: false,
+          deviceId: false,
+        },
+        deviceRevoked: false,
+      };
+    }
+
+    if (data.revokeDevice === true) {
+      const deviceId = await this.services.device.getId();
+      await this.services.api.revokeDevice({ deviceId }, authData);
+    }
+
+    this.services.sessions.revokeAll();
+    const { signerIds, wrappingKey } = await this.services.sharding.forgetDevice();
+    const encryptionKeyPair = await this.services.encrypt.resetKeyPair();
+    const deviceId = await this.services.device.clearId();
+    return {
+      status: 'success',
+      scope: 'device',
+      removed: { signerIds, wrappingKey, encryptionKeyPair, deviceId },
+      deviceRevoked: data.revokeDevice === true,
+    };
+  }
+}
+
+/**
+ * Creates session keys that can sign for the signer until they expire or are revoked, without the
+ * master secret being reconstructed for every request.
+ */
+export class CreateSessionEventHandler extends EventHandler<'create-session'> {
+  event = 'request:create-session' as const;
+  responseEvent = 'response:create-session' as const;
+
+  async handler(
+    payload: SignerInputEvent<'create-session'>
+  ): Promise<SuccessfulOutputEvent<'create-session'>> {
+    const { signerId: requestedSignerId, ...options } = payload.data;
+    const signerId = await this.services.sharding.getAuthenticatedSignerId(
+      payload.authData,
+      requestedSignerId
+    );
+    this.services.sessions.assertScope(options);
+    await this.services.confirmation.confirm(
+      signerId,
+      describeSession(options.keyTypes, options.expiresInSeconds, options.spendLimits)
+    );
+
+    const grant = await this.services.sharding.withMasterSecret(
+      payload.authData,
+      signerId,
+      ({ masterSecret }) => this.services.sessions.create(signerId, masterSecret, options)
+    );
+    if (grant == null) {
+      throw new Error('Device share not found');
+    }
+
+    return {
+      status: 'success',
+      ...grant,
+    };
+  }
+}
+
+export class RevokeSessionEventHandler extends EventHandler<'revoke-session'> {
+  event = 'request:revoke-session' as const;
+  responseEvent = 'response:revoke-session' as const;
+
+  async handler(
+    payload: SignerInputEvent<'revoke-session'>
+  ): Promise<SuccessfulOutputEvent<'revoke-session'>> {
+    return {
+      status: 'success',
+      revoked: this.services.sessions.revoke(payload.data.sessionId),
+    };
+  }
+}
+
+/**
+ * Sets how the user confirms the signer's requests. The user confirms the change itself in the
+ * frame, under the signer's current mode.
+ */
+export class SetConfirmationModeEventHandler extends EventHandler<'set-confirmation-mode'> {
+  event = 'request:set-confirmation-mode' as const;
+  responseEvent = 'response:set-confirmation-mode' as const;
+
+  async handler(
+    payload: SignerInputEvent<'set-confirmation-mode'>
+  ): Promise<SuccessfulOutputEvent<'set-confirmation-mode'>> {
+    const signerId = await this.services.sharding.getAuthenticatedSignerId(
+      payload.authData,
+      payload.data.signerId
+    );
+    await this.services.confirmation.setMode(signerId, payload.data.mode);
+    return {
+      status: 'success',
+      mode: payload.data.mode,
+    };
+  }
+}
+
+/**
+ * Binds the signer's device share to a new passkey, or back to the device alone. Once bound, every
+ * request that reconstructs the master secret requires the passkey to verify the user.
+ */
+export class SetPasskeyUnlockEventHandler extends EventHandler<'set-passkey-unlock'> {
+  event = 'request:set-passkey-unlock' as const;
+  responseEvent = 'response:set-passkey-unlock' as const;
+
+  async handler(
+    payload: SignerInputEvent<'set-passkey-unlock'>
+  ): Promise<SuccessfulOutputEvent<'set-passkey-unlock'>> {
+    const { enabled, signerId } = payload.data;
+    const sharding = this.services.sharding;
+    return {
+      status: 'success',
+      signerId: enabled
+        ? await sharding.bindDeviceShareToPasskey(payload.authData, signerId)
+        : await sharding.unbindDeviceShareFromPasskey(payload.authData, signerId),
+      enabled,
+    };
+  }
+}
+
+export class GetAttestationReportEventHandler extends EventHandler<'get-attestation-report'> {
+  event = 'request:get-attestation-report' as const;
+  responseEvent = 'response:get-attestation-report' as const;
+
+  async handler(): Promise<SuccessfulOutputEvent<'get-attestation-report'>> {
     return {
       status: 'success',
-      signature,
-      publicKey,
+      report: await this.services.attestation.getVerificationReport(),
     };
   }
 }
@@ -178,5 +671,16 @@ export const initializeHandlers = (services: CrossmintFrameServices) => [
   new CompleteOnboardingEventHandler(services),
   new StartOnboardingEventHandler(services),
   new SignEventHandler(services),
+  new SignBatchEventHandler(services),
   new GetStatusEventHandler(services),
+  new ListSignersEventHandler(services),
+  new ExportDeviceShareEventHandler(services),
+  new ImportDeviceShareEventHandler(services),
+  new RotateSharesEventHandler(services),
+  new LogoutEventHandler(services),
+  new CreateSessionEventHandler(services),
+  new RevokeSessionEventHandler(services),
+  new SetConfirmationModeEventHandler(services),
+  new SetPasskeyUnlockEventHandler(services),
+  new GetAttestationReportEventHandler(services),
 ];
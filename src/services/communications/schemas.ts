@@ -0,0 +1,568 @@
+import { z } from 'zod';
+import {
+  signerInboundEvents as baseSignerInboundEvents,
+  signerOutboundEvents as baseSignerOutboundEvents,
+} from '@crossmint/client-signers';
+
+/**
+ * Frame event schemas
+ *
+ * `@crossmint/client-signers` defines the protocol shared with the parent SDK. The messenger
+ * strips unknown fields from incoming payloads and drops outgoing messages that fail validation,
+ * so anything the frame supports beyond that protocol (new key types, fields or events) must be
+ * declared here, on top of the base schemas.
+ */
+
+export const KEY_TYPES = ['secp256k1', 'ed25519', 'secp256r1'] as const;
+export const keyTypeSchema = z.enum(KEY_TYPES).describe('Type of cryptographic key');
+export type KeyType = z.infer<typeof keyTypeSchema>;
+
+export const SIGNING_MODES = [
+  'raw-digest',
+  'personal-message',
+  'typed-data-v4',
+  'transaction',
+] as const;
+export const signingModeSchema = z
+  .enum(SIGNING_MODES)
+  .describe(
+    'How the payload is hashed before signing: raw-digest signs the bytes as given, personal-message ' +
+      'hashes them following EIP-191, typed-data-v4 hashes the UTF-8 JSON typed data following EIP-712 ' +
+      'and transaction signs a serialized Solana (ed25519) or unsigned EVM (secp256k1) transaction'
+  );
+export type SigningMode = z.infer<typeof signingModeSchema>;
+
+export const signatureFormatSchema = z
+  .enum(['raw', 'der'])
+  .describe('Encoding of the signature: raw (r || s) or ASN.1 DER');
+export type SignatureFormat = z.infer<typeof signatureFormatSchema>;
+
+const encodingSchema = z
+  .enum(['base58', 'base64', 'hex'])
+  .describe('Encoding format for the key or data');
+
+const authenticatedRequestSchema = z.object({
+  authData: z
+    .object({
+      jwt: z.string().describe('JSON Web Token for authentication'),
+      apiKey: z.string().describe('API key for authorization'),
+    })
+    .describe('Authentication data for the request'),
+});
+
+const errorResponseSchema = z.object({
+  status: z.literal('error'),
+  error: z.string(),
+  code: z.string().optional(),
+  data: z.any().optional().describe('Optional additional error data'),
+});
+
+const responseSchema = <T extends z.ZodTypeAny>(successSchema: T) =>
+  errorResponseSchema.or(z.object({ status: z.literal('success') }).and(successSchema));
+
+const publicKeySchema = z.object({
+  bytes: z.string().describe('The encoded public key value'),
+  encoding: encodingSchema.describe('The encoding format of the public key payload'),
+  keyType: keyTypeSchema.describe('The cryptographic algorithm of the public key'),
+});
+
+const signatureSchema = z.object({
+  bytes: z.string().describe('The encoded signature value'),
+  encoding: encodingSchema.describe('The encoding format of the signature payload'),
+});
+
+const publicKeysSchema = z.record(keyTypeSchema, publicKeySchema.omit({ keyType: true }));
+export type PublicKeys = z.infer<typeof publicKeysSchema>;
+
+const signerIdSchema = z
+  .string()
+  .describe('Signer to use, among those stored on this device. Defaults to the authenticated one');
+
+const readySignerSchema = z.object({
+  signerStatus: z.enum(['ready']).describe('Current status of the signer'),
+  publicKeys: publicKeysSchema.describe('The public keys of the signer'),
+});
+
+const newDeviceSignerSchema = z.object({
+  signerStatus: z.enum(['new-device']).describe('Current status of the signer'),
+});
+
+const signerStatusResponseSchema = responseSchema(
+  z.union([readySignerSchema, newDeviceSignerSchema])
+);
+
+const derivationPathSchema = z
+  .string()
+  .describe("BIP32 (secp256k1) or SLIP-0010 (ed25519) derivation path, e.g. m/44'/60'/0'/0/0");
+
+const getStatusRequestSchema = authenticatedRequestSchema.extend({
+  data: z
+    .object({
+      derivationPaths: z
+        .record(keyTypeSchema, derivationPathSchema)
+        .optional()
+        .describe('Derivation path to use for each key type. Defaults to the original signer key'),
+      signerId: signerIdSchema.optional(),
+    })
+    .optional(),
+});
+
+const signDataSchema = z.object({
+  keyType: keyTypeSchema.describe('Type of cryptographic key to use for signing'),
+  bytes: z.string().describe('Data to be signed, in encoded format'),
+  encoding: encodingSchema.describe('Encoding of the data to be signed'),
+  derivationPath: derivationPathSchema
+    .optional()
+    .describe('Derivation path of the signing key. Defaults to the original signer key'),
+  signingMode: signingModeSchema
+    .optional()
+    .describe(
+      'Defaults to raw-digest. Modes other than raw-digest are only supported for secp256k1'
+    ),
+  signatureFormat: signatureFormatSchema
+    .optional()
+    .describe('Defaults to raw. DER signatures are only supported for secp256r1'),
+});
+
+export type SignData = z.infer<typeof signDataSchema>;
+
+const sessionIdSchema = z
+  .string()
+  .describe(
+    'Session to sign with instead of the signer key, as returned by request:create-session'
+  );
+
+const signRequestSchema = authenticatedRequestSchema.extend({
+  data: signDataSchema
+    .extend({ signerId: signerIdSchema.optional(), sessionId: sessionIdSchema.optional() })
+    .describe('Data needed to create a signature'),
+});
+
+const transactionCallSchema = z.object({
+  type: z
+    .enum([
+      'native-transfer',
+      'token-transfer',
+      'token-approval',
+      'contract-call',
+      'contract-deployment',
+    ])
+    .describe('What the call does, as far as the frame could decode it'),
+  to: z
+    .string()
+    .optional()
+    .describe('Program or account the call is addressed to. Absent for contract deployments'),
+  recipient: z
+    .string()
+    .optional()
+    .describe('Recipient of a transfer, or spender (delegate) of an approval'),
+  amount: z
+    .string()
+    .optional()
+    .describe('Amount transferred or approved, in base units, as a decimal string'),
+  token: z
+    .string()
+    .optional()
+    .describe('Token contract or mint, for token transfers and approvals'),
+});
+
+export const transactionSummarySchema = z.object({
+  chain: z.enum(['solana', 'evm']).describe('Chain family the transaction was parsed for'),
+  chainId: z.string().optional().describe('EVM chain ID, as a decimal string'),
+  feePayer: z.string().optional().describe('Solana fee payer'),
+  calls: z.array(transactionCallSchema).describe('Calls made by the transaction, in order'),
+});
+export type TransactionSummary = z.infer<typeof transactionSummarySchema>;
+export type TransactionCall = z.infer<typeof transactionCallSchema>;
+
+const signResultSchema = z.object({
+  signature: signatureSchema.describe('The generated signature'),
+  publicKey: publicKeySchema.describe('The public key that signed the data'),
+  transaction: transactionSummarySchema
+    .optional()
+    .describe('Decoded transaction, when signing in transaction mode'),
+});
+
+const signResponseSchema = responseSchema(signResultSchema);
+
+export const MAX_SIGN_BATCH_SIZE = 100;
+
+const signBatchRequestSchema = authenticatedRequestSchema.extend({
+  data: z
+    .object({
+      items: z
+        .array(signDataSchema)
+        .min(1)
+        .max(MAX_SIGN_BATCH_SIZE)
+        .describe('Payloads to sign, each with its own key type and encoding'),
+      signerId: signerIdSchema.optional(),
+      sessionId: sessionIdSchema.optional(),
+    })
+    .describe('Data needed to create a batch of signatures'),
+});
+
+const signBatchResponseSchema = responseSchema(
+  z.object({
+    results: z
+      .array(
+        z.union([
+          z.object({ status: z.literal('success') }).merge(signResultSchema),
+          errorResponseSchema.omit({ data: true }),
+        ])
+      )
+      .describe('One result per requested item, in the same order'),
+  })
+);
+
+export const CONFIRMATION_MODES = ['none', 'click', 'user-verification'] as const;
+const confirmationModeSchema = z
+  .enum(CONFIRMATION_MODES)
+  .describe(
+    'How the user confirms sensitive requests inside the frame: none, a click on the frame ' +
+      'dialog, or a passkey with user verification'
+  );
+export type ConfirmationMode = z.infer<typeof confirmationModeSchema>;
+
+const confirmationSettingsSchema = z.object({
+  mode: confirmationModeSchema,
+  credentialId: z
+    .string()
+    .optional()
+    .describe('Base64 encoded ID of the passkey used for user verification'),
+});
+export type ConfirmationSettings = z.infer<typeof confirmationSettingsSchema>;
+
+const signerMetadataSchema = z.object({
+  signerId: z.string(),
+  createdAt: z
+    .number()
+    .describe('When the signer was first seen on this device, in ms since epoch'),
+  appId: z.string().optional().describe('Identifier of the app that onboarded the signer'),
+  publicKeys: publicKeysSchema.describe('Public keys of the signer'),
+  confirmation: confirmationSettingsSchema
+    .optional()
+    .describe('Confirmation required before the signer signs. Absent when none is'),
+});
+export type SignerMetadata = z.infer<typeof signerMetadataSchema>;
+
+const listSignersRequestSchema = z.object({
+  data: z.object({}).optional(),
+});
+
+const listSignersResponseSchema = responseSchema(
+  z.object({
+    signers: z
+      .array(signerMetadataSchema)
+      .describe('Signers stored on this device for the current app, oldest first'),
+  })
+);
+
+export const deviceShareBackupSchema = z
+  .object({
+    version: z.literal(1),
+    deviceId: z.string().describe('Device the share was issued to'),
+    signerId: z.string(),
+    kdf: z.object({
+      name: z.literal('PBKDF2'),
+      hash: z.literal('SHA-256'),
+      iterations: z.number().int(),
+      salt: z.string().describe('Base64 encoded salt'),
+    }),
+    iv: z.string().describe('Base64 encoded AES-GCM IV'),
+    ciphertext: z.string().describe('Base64 encoded AES-GCM encrypted device share'),
+  })
+  .describe('Device share encrypted under a passphrase, kept by the user as a recovery kit');
+export type DeviceShareBackup = z.infer<typeof deviceShareBackupSchema>;
+
+const passphraseSchema = z
+  .string()
+  .min(12)
+  .describe('Passphrase chosen by the user to protect the backup, at least 12 characters');
+
+const exportDeviceShareRequestSchema = authenticatedRequestSchema.extend({
+  data: z.object({
+    passphrase: passphraseSchema,
+    signerId: signerIdSchema.optional(),
+  }),
+});
+
+const exportDeviceShareResponseSchema = responseSchema(
+  z.object({ backup: deviceShareBackupSchema })
+);
+
+const importDeviceShareRequestSchema = authenticatedRequestSchema.extend({
+  data: z.object({
+    backup: deviceShareBackupSchema,
+    passphrase: z.string().describe('Passphrase the backup was made with'),
+  }),
+});
+
+const rotateSharesRequestSchema = authenticatedRequestSchema.extend({
+  data: z
+    .object({
+      signerId: signerIdSchema.optional(),
+    })
+    .optional(),
+});
+
+const logoutRequestSchema = authenticatedRequestSchema.extend({
+  data: z.discriminatedUnion('scope', [
+    z.object({
+      scope: z.literal('signer').describe('Forget a single signer, keeping the others'),
+      signerId: signerIdSchema.optional(),
+    }),
+    z.object({
+      scope: z
+        .literal('device')
+        .describe('Forget every signer, the encryption key pair and the device ID'),
+      revokeDevice: z
+        .boolean()
+        .optional()
+        .describe('Also ask Crossmint to revoke the auth shares issued to this device'),
+    }),
+  ]),
+});
+
+const logoutResponseSchema = responseSchema(
+  z.object({
+    scope: z.enum(['signer', 'device']),
+    removed: z
+      .object({
+        signerIds: z
+          .array(z.string())
+          .describe('Signers whose shares and metadata were deleted from this device'),
+        wrappingKey: z.boolean().describe('Whether the device share wrapping key was deleted'),
+        encryptionKeyPair: z
+          .boolean()
+          .describe('Whether the encryption key pair was deleted, and replaced by a fresh one'),
+        deviceId: z.boolean().describe('Whether the device ID was deleted'),
+      })
+      .describe('What was removed from this device, each deletion verified by reading it back'),
+    deviceRevoked: z.boolean().describe('Whether Crossmint revoked the device'),
+  })
+);
+
+export const MAX_SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+const spendLimitSchema = z.object({
+  chain: z.enum(['solana', 'evm']),
+  token: z.string().optional().describe('Token contract or mint. Absent for the native currency'),
+  amount: z
+    .string()
+    .regex(/^\d+$/, 'Amount must be a decimal string')
+    .describe('Maximum total amount the session may transfer or approve, in base units'),
+});
+export type SpendLimit = z.infer<typeof spendLimitSchema>;
+
+const createSessionRequestSchema = authenticatedRequestSchema.extend({
+  data: z.object({
+    signerId: signerIdSchema.optional(),
+    keyTypes: z
+      .array(keyTypeSchema)
+      .min(1)
+      .describe('Key types the session may sign with, each getting its own session key'),
+    expiresInSeconds: z
+      .number()
+      .int()
+      .positive()
+      .max(MAX_SESSION_TTL_SECONDS)
+      .describe('How long the session keys may be used for, at most 24 hours'),
+    spendLimits: z
+      .array(spendLimitSchema)
+      .optional()
+      .describe(
+        'Amounts the session may transfer or approve over its lifetime. Sessions with spend ' +
+          'limits can only sign parsed transactions, and cannot move assets that have no limit'
+      ),
+    allowUnlimited: z
+      .boolean()
+      .optional()
+      .describe(
+        'Must be true to create a session without spend limits, which can sign any payload, ' +
+          'raw digests included, until it expires'
+      ),
+  }),
+});
+
+const createSessionResponseSchema = responseSchema(
+  z.object({
+    sessionId: z.string(),
+    expiresAt: z.number().describe('When the session expires, in ms since epoch'),
+    sessionKeys: z
+      .array(publicKeySchema)
+      .describe('Public keys of the session, one per allowed key type'),
+    delegation: z
+      .object({
+        message: z.string().describe('JSON delegation granted by the signer to the session keys'),
+        signatures: z
+          .array(z.object({ signature: signatureSchema, publicKey: publicKeySchema }))
+          .describe(
+            'Signatures of the SHA-256 digest of the message, by the signer key of each allowed ' +
+              'key type'
+          ),
+      })
+      .describe('Proof that the signer delegated to the session keys'),
+  })
+);
+
+const revokeSessionRequestSchema = authenticatedRequestSchema.extend({
+  data: z.object({
+    sessionId: z.string(),
+  }),
+});
+
+const revokeSessionResponseSchema = responseSchema(
+  z.object({
+    revoked: z.boolean().describe('Whether the session was still active'),
+  })
+);
+
+const setConfirmationModeRequestSchema = authenticatedRequestSchema.extend({
+  data: z.object({
+    mode: confirmationModeSchema,
+    signerId: signerIdSchema.optional(),
+  }),
+});
+
+const setConfirmationModeResponseSchema = responseSchema(
+  z.object({
+    mode: confirmationModeSchema,
+  })
+);
+
+const setPasskeyUnlockRequestSchema = authenticatedRequestSchema.extend({
+  data: z.object({
+    enabled: z
+      .boolean()
+      .describe('Whether reading the device share should require a passkey to verify the user'),
+    signerId: signerIdSchema.optional(),
+  }),
+});
+
+const setPasskeyUnlockResponseSchema = responseSchema(
+  z.object({
+    signerId: signerIdSchema,
+    enabled: z.boolean(),
+  })
+);
+
+const getAttestationReportRequestSchema = z.object({
+  data: z.object({}).optional(),
+});
+
+const collateralDatesSchema = z
+  .object({
+    issueDate: z.string().optional(),
+    nextUpdate: z.string(),
+  })
+  .nullable();
+
+const attestationVerificationSchema = z.object({
+  verifiedAt: z.number().describe('When the attestation was verified, in ms since epoch'),
+  expiresAt: z.number().describe('When the attestation will be verified again, in ms since epoch'),
+  reusedFromCache: z
+    .boolean()
+    .describe('Whether this frame load reused a verification made by an earlier one'),
+  nonceBound: z
+    .boolean()
+    .describe(
+      'Whether the quote committed to a nonce sent by the frame, or used the legacy format'
+    ),
+  tcbStatus: z.string().describe('TCB status of the TEE platform, as verified against collateral'),
+  advisoryIds: z
+    .array(z.string())
+    .describe('Intel security advisories the platform is affected by, accepted by the TCB policy'),
+  tcbGraceEndsAt: z
+    .number()
+    .optional()
+    .describe(
+      'When an out of date platform stops being accepted, in ms since epoch. Absent unless the ' +
+        'TCB status is OutOfDate'
+    ),
+  app: z.object({
+    appId: z.string(),
+    composeHash: z.string(),
+    instanceId: z.string(),
+    keyProvider: z.object({ name: z.string(), id: z.string() }),
+  }),
+  trustPolicyVersion: z.number().describe('Version of the trust policy the app build matched'),
+  measurements: z
+    .object({
+      mrtd: z.string().optional(),
+      rtmr0: z.string().optional(),
+      rtmr1: z.string().optional(),
+      rtmr2: z.string().optional(),
+      rtmr3: z.string(),
+    })
+    .describe('Hex encoded TD measurements. MRTD and RTMR0-2 are absent when not reported'),
+  collateral: z
+    .object({
+      tcbInfo: collateralDatesSchema,
+      qeIdentity: collateralDatesSchema,
+    })
+    .describe('Issue and next update dates of the collateral the quote was verified against'),
+  publicKeyHash: z.string().describe('Hex encoded SHA-256 hash of the attested TEE public key'),
+});
+
+const attestationReportSchema = z.object({
+  status: z
+    .enum(['verified', 'revoked', 'failed', 'skipped'])
+    .describe(
+      'verified while the TEE public key is trusted, revoked once verifying it again failed, ' +
+        'failed when it could not be verified when the frame loaded, and skipped in ' +
+        'development, where the key is not attested'
+    ),
+  error: z.string().optional().describe('Why the attestation was revoked or failed'),
+  verification: attestationVerificationSchema
+    .optional()
+    .describe('What the last successful verification checked. Absent when failed or skipped'),
+});
+export type AttestationReport = z.infer<typeof attestationReportSchema>;
+
+export const signerInboundEvents = {
+  ...baseSignerInboundEvents,
+  'request:get-status': getStatusRequestSchema,
+  'request:sign': signRequestSchema,
+  'request:sign-batch': signBatchRequestSchema,
+  'request:list-signers': listSignersRequestSchema,
+  'request:export-device-share': exportDeviceShareRequestSchema,
+  'request:import-device-share': importDeviceShareRequestSchema,
+  'request:rotate-shares': rotateSharesRequestSchema,
+  'request:logout': logoutRequestSchema,
+  'request:create-session': createSessionRequestSchema,
+  'request:revoke-session': revokeSessionRequestSchema,
+  'request:set-confirmation-mode': setConfirmationModeRequestSchema,
+  'request:set-passkey-unlock': setPasskeyUnlockRequestSchema,
+  'request:get-attestation-report': getAttestationReportRequestSchema,
+} as const;
+
+export const signerOutboundEvents = {
+  ...baseSignerOutboundEvents,
+  'response:start-onboarding': signerStatusResponseSchema,
+  'response:complete-onboarding': responseSchema(readySignerSchema),
+  'response:get-status': signerStatusResponseSchema,
+  'response:sign': signResponseSchema,
+  'response:sign-batch': signBatchResponseSchema,
+  'response:list-signers': listSignersResponseSchema,
+  'response:export-device-share': exportDeviceShareResponseSchema,
+  'response:import-device-share': responseSchema(readySignerSchema),
+  'response:rotate-shares': responseSchema(readySignerSchema),
+  'response:logout': logoutResponseSchema,
+  'response:create-session': createSessionResponseSchema,
+  'response:revoke-session': revokeSessionResponseSchema,
+  'response:set-confirmation-mode': setConfirmationModeResponseSchema,
+  'response:set-passkey-unlock': setPasskeyUnlockResponseSchema,
+  'response:get-attestation-report': responseSchema(z.object({ report: attestationReportSchema })),
+} as const;
+
+type RequestEventName<K> = K extends `request:${infer E}` ? E : never;
+
+export type SignerIFrameEventName = RequestEventName<keyof typeof signerInboundEvents>;
+
+export type SignerInputEvent<E extends SignerIFrameEventName> = z.infer<
+  (typeof signerInboundEvents)[`request:${E}`]
+>;
+
+export type SignerOutputEvent<E extends SignerIFrameEventName> = z.infer<
+  (typeof signerOutboundEvents)[`response:${E}`]
+>;
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+import type { SignerRegistryService } from '../user/signer-registry';
+import type { SignerMetadata } from '../communications/schemas';
+import { ConfirmationService } from './confirmation';
+import { describeSession, describeSigning } from './intent';
+import { registerPasskey, verifyUser } from '../common/webauthn';
+
+vi.mock('../common/webauthn', () => ({
+  registerPasskey: vi.fn(),
+  verifyUser: vi.fn(),
+}));
+
+const SIGNER_ID = 'test-signer-id';
+const INTENT = { title: 'Sign a request', details: ['Send 1 SOL to <img src=x onerror=alert(1)>'] };
+
+const signer = (confirmation?: SignerMetadata['confirmation']): SignerMetadata => ({
+  signerId: SIGNER_ID,
+  createdAt: 0,
+  publicKeys: {},
+  ...(confirmation != null && { confirmation }),
+});
+
+const dialog = () => document.querySelector<HTMLElement>('.confirmation-overlay');
+
+// Waits for the dialog to be rendered, as it is shown once the previous one has settled
+const waitForDialog = async () => {
+  await vi.waitFor(() => expect(dialog()).not.toBeNull());
+  return dialog() as HTMLElement;
+};
+
+const click = async (selector: string) => {
+  (await waitForDialog()).querySelector<HTMLButtonElement>(selector)?.click();
+};
+
+describe('ConfirmationService', () => {
+  const mockSigners = mock<SignerRegistryService>();
+  let service: ConfirmationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new ConfirmationService(mockSigners, 1000, 0);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.useRealTimers();
+  });
+
+  it('should not ask signers that do not require confirmation', async () => {
+    mockSigners.get.mockResolvedValue(signer());
+
+    await expect(service.confirm(SIGNER_ID, INTENT)).resolves.toBeUndefined();
+    expect(dialog()).toBeNull();
+  });
+
+  it('should show the intent as text and continue once the user approves', async () => {
+    mockSigners.get.mockResolvedValue(signer({ mode: 'click' }));
+
+    const confirmed = service.confirm(SIGNER_ID, INTENT);
+    const shown = await waitForDialog();
+    expect(shown.textContent).toContain('Send 1 SOL to <img src=x onerror=alert(1)>');
+    expect(shown.querySelector('img')).toBeNull();
+
+    await click('.confirmation-approve');
+    await expect(confirmed).resolves.toBeUndefined();
+    expect(dialog()).toBeNull();
+  });
+
+  it('should focus Decline and only enable Approve once the countdown ends', async () => {
+    vi.useFakeTimers();
+    mockSigners.get.mockResolvedValue(signer({ mode: 'click' }));
+    const delayed = new ConfirmationService(mockSigners, 10_000, 2000);
+
+    const confirmed = delayed.confirm(SIGNER_ID, INTENT);
+    const shown = await waitForDialog();
+    const approve = shown.querySelector<HTMLButtonElement>('.confirmation-approve');
+    expect(document.activeElement?.className).toBe('confirmation-decline');
+    expect(approve).toMatchObject({ disabled: true, textContent: 'Approve (2)' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(approve).toMatchObject({ disabled: true, textContent: 'Approve (1)' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(approve).toMatchObject({ disabled: false, textContent: 'Approve' });
+    approve?.click();
+    await expect(confirmed).resolves.toBeUndefined();
+  });
+
+  it('should refuse with a user-declined error when the user declines', async () => {
+    mockSigners.get.mockResolvedValue(signer({ mode: 'click' }));
+
+    const confirmed = service.confirm(SIGNER_ID, INTENT);
+    await click('.confirmation-decline');
+
+    await expect(confirmed).rejects.toMatchObject({ code: 'user-declined' });
+    expect(dialog()).toBeNull();
+  });
+
+  it('should refuse when the user does not answer in time', async () => {
+    vi.useFakeTimers();
+    mockSigners.get.mockResolvedValue(signer({ mode: 'click' }));
+
+    const confirmed = service.confirm(SIGNER_ID, INTENT);
+    // Attached before the timeout fires, so that the rejection is handled as soon as it happens
+    const assertion = expect(confirmed).rejects.toMatchObject({ code: 'user-declined' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await assertion;
+  });
+
+  it('should show one dialog at a time', async () => {
+    mockSigners.get.mockResolvedValue(signer({ mode: 'click' }));
+
+    const first = service.confirm(SIGNER_ID, INTENT);
+    const second = service.confirm(SIGNER_ID, { title: 'Second', details: [] });
+    await click('.confirmation-decline');
+    await expect(first).rejects.toMatchObject({ code: 'user-declined' });
+
+    expect((await waitForDialog()).textContent).toContain('Second');
+    expect(document.querySelectorAll('.confirmation-overlay')).toHaveLength(1);
+    await click('.confirmation-approve');
+    await expect(second).resolves.toBeUndefined();
+  });
+
+  it('should require the passkey to verify the user in user-verification mode', async () => {
+    mockSigners.get.mockResolvedValue(
+      signer({ mode: 'user-verification', credentialId: 'credential-id' })
+    );
+    vi.mocked(verifyUser).mockRejectedValueOnce(new Error('NotAllowedError'));
+
+    const refused = service.confirm(SIGNER_ID, INTENT);
+    await click('.confirmation-approve');
+    await expect(refused).rejects.toMatchObject({ code: 'user-declined' });
+
+    vi.mocked(verifyUser).mockResolvedValueOnce();
+    const confirmed = service.confirm(SIGNER_ID, INTENT);
+    await click('.confirmation-approve');
+    await expect(confirmed).resolves.toBeUndefined();
+    expect(verifyUser).toHaveBeenCalledWith('credential-id');
+  });
+
+  describe('setMode', () => {
+    it('should register a passkey when switching to user verification', async () => {
+      mockSigners.get.mockResolvedValue(signer());
+      vi.mocked(registerPasskey).mockResolvedValue('new-credential-id');
+
+      const set = service.setMode(SIGNER_ID, 'user-verification');
+      await click('.confirmation-approve');
+      await set;
+
+      expect(registerPasskey).toHaveBeenCalledWith(SIGNER_ID);
+      expect(mockSigners.setConfirmation).toHaveBeenCalledWith(SIGNER_ID, {
+        mode: 'user-verification',
+        credentialId: 'new-credential-id',
+      });
+    });
+
+    it('should confirm turning confirmation off under the current mode', async () => {
+      mockSigners.get.mockResolvedValue(
+        signer({ mode: 'user-verification', credentialId: 'credential-id' })
+      );
+      vi.mocked(verifyUser).mockRejectedValueOnce(new Error('NotAllowedError'));
+
+      const set = service.setMode(SIGNER_ID, 'none');
+      await click('.confirmation-approve');
+
+      await expect(set).rejects.toMatchObject({ code: 'user-declined' });
+      expect(mockSigners.setConfirmation).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Confirmation intents', () => {
+  it('should describe parsed transactions in native units', () => {
+    expect(
+      describeSigning([
+        {
+          keyType: 'secp256k1',
+          transaction: {
+            chain: 'evm',
+            chainId: '1',
+            calls: [
+              {
+                type: 'native-transfer',
+                to: '0xrecipient',
+                recipient: '0xrecipient',
+                amount: '1500000000000000000',
+              },
+              {
+                type: 'token-approval',
+                to: '0xtoken',
+                token: '0xtoken',
+                recipient: '0xspender',
+                amount: '100',
+              },
+            ],
+          },
+        },
+      ])
+    ).toEqual({
+      title: 'Sign a request',
+      details: [
+        'Send 1.5 native currency to 0xrecipient (EVM chain 1)',
+        'Allow 0xspender to spend 100 base units of token 0xtoken (EVM chain 1)',
+      ],
+    });
+  });
+
+  it('should warn about payloads that cannot be displayed', () => {
+    expect(describeSigning([{ keyType: 'ed25519' }])).toEqual({
+      title: 'Sign a request',
+      details: ['Sign a raw-digest message with your ed25519 key'],
+      warning: expect.stringContaining('cannot be displayed'),
+    });
+  });
+
+  it('should describe session grants with their spend limits', () => {
+    expect(describeSession(['ed25519'], 900, [{ chain: 'solana', amount: '250000000' }])).toEqual({
+      title: 'Grant signing rights to this site',
+      details: [
+        'Sign with your ed25519 keys for 15 minutes, without asking again',
+        'Transfer up to 0.25 SOL on solana',
+      ],
+    });
+  });
+});
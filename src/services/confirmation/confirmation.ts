@@ -0,0 +1,108 @@
+import { CrossmintFrameService } from '../service';
+import { CrossmintFrameCodedError } from '../api/error';
+import type { SignerRegistryService } from '../user/signer-registry';
+import type { ConfirmationMode, ConfirmationSettings } from '../communications/schemas';
+import { describeModeChange, type ConfirmationIntent } from './intent';
+import { showConfirmationPrompt } from './prompt';
+import { registerPasskey, verifyUser } from '../common/webauthn';
+
+const CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+const CONFIRMATION_APPROVE_DELAY_MS = 3 * 1000;
+
+/**
+ * Asks the user, inside the frame, to confirm sensitive requests of signers that require it.
+ *
+ * The frame renders its own dialog showing what is about to happen and which site asked for it,
+ * so that a compromised parent page cannot sign silently. Depending on the signer's settings, the
+ * user approves with a click on the dialog or with a passkey that verifies them. The parent page
+ * must make the frame visible while a request is pending.
+ */
+export class ConfirmationService extends CrossmintFrameService {
+  name = 'Confirmation Service';
+  log_prefix = '[ConfirmationService]';
+
+  private origin = 'an unknown site';
+  // Dialogs are shown one at a time, in the order requests arrive
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly signers: SignerRegistryService,
+    private readonly timeoutMs = CONFIRMATION_TIMEOUT_MS,
+    private readonly approveDelayMs = CONFIRMATION_APPROVE_DELAY_MS
+  ) {
+    super();
+  }
+
+  async init() {
+    this.origin = new URLSearchParams(window.location.search).get('targetOrigin') ?? this.origin;
+  }
+
+  async getSettings(signerId: string): Promise<ConfirmationSettings> {
+    return (await this.signers.get(signerId))?.confirmation ?? { mode: 'none' };
+  }
+
+  /**
+   * Waits for the user to confirm a request, when the signer requires confirmation.
+   *
+   * @throws {CrossmintFrameCodedError} With code `user-declined` when the user declines, or does
+   * not answer in time
+   */
+  async confirm(signerId: string, intent: ConfirmationIntent): Promise<void> {
+    const settings = await this.getSettings(signerId);
+    if (settings.mode === 'none') {
+      return;
+    }
+    await this.prompt(intent, settings, async () => {});
+  }
+
+  /**
+   * Changes the confirmation a signer requires. The change is confirmed under the current mode,
+   * so that it cannot be used to turn confirmation off silently, and switching to user
+   * verification registers the passkey within the same approval.
+   *
+   * @throws {CrossmintFrameCodedError} With code `user-declined` when the user declines
+   */
+  async setMode(signerId: string, mode: ConfirmationMode): Promise<void> {
+    const current = await this.getSettings(signerId);
+    let next: ConfirmationSettings = { mode };
+    await this.prompt(describeModeChange(mode), current, async () => {
+      if (mode === 'user-verification') {
+        next = { mode, credentialId: await registerPasskey(signerId) };
+      }
+    });
+
+    await this.signers.setConfirmation(signerId, next);
+    this.log(`Confirmation mode of signer ${signerId} set to ${mode}`);
+  }
+
+  private async prompt(
+    intent: ConfirmationIntent,
+    settings: ConfirmationSettings,
+    onApproved: () => Promise<void>
+  ): Promise<void> {
+    const { mode, credentialId } = settings;
+    const prompt = this.queue.then(() =>
+      showConfirmationPrompt(intent, {
+        origin: this.origin,
+        approveLabel: mode === 'user-verification' ? 'Approve with passkey' : 'Approve',
+        timeoutMs: this.timeoutMs,
+        approveDelayMs: this.approveDelayMs,
+        onApprove: async () => {
+          if (mode === 'user-verification') {
+            if (credentialId == null) {
+              throw new Error('No passkey is registered for user verification');
+            }
+            await verifyUser(credentialId);
+          }
+          await onApproved();
+        },
+      })
+    );
+    this.queue = prompt;
+
+    if (!(await prompt)) {
+      this.log(`User declined: ${intent.title}`);
+      throw new CrossmintFrameCodedError('User declined the request', 'user-declined');
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { ConfirmationService } from './confirmation';
+export { describeSession, describeSigning } from './intent';
@@ -0,0 +1,127 @@
+import type {
+  ConfirmationMode,
+  KeyType,
+  SigningMode,
+  SpendLimit,
+  TransactionCall,
+  TransactionSummary,
+} from '../communications/schemas';
+
+/**
+ * What the user is asked to confirm, in words they can check before approving.
+ */
+export type ConfirmationIntent = {
+  title: string;
+  details: string[];
+  warning?: string;
+};
+
+export type SigningIntent = {
+  keyType: KeyType;
+  signingMode?: SigningMode;
+  transaction?: TransactionSummary;
+};
+
+// Every EVM chain uses 18 decimals for its native currency, and Solana counts lamports
+const NATIVE_CURRENCIES = {
+  evm: { symbol: 'native currency', decimals: 18 },
+  solana: { symbol: 'SOL', decimals: 9 },
+} as const;
+
+const MODE_DESCRIPTIONS: Record<ConfirmationMode, string> = {
+  none: 'Sign without asking for confirmation',
+  click: 'Ask for confirmation in this window before signing',
+  'user-verification': 'Ask for confirmation with a passkey before signing',
+};
+
+export function describeSigning(items: SigningIntent[]): ConfirmationIntent {
+  const details = items.flatMap(describeItem);
+  const opaque = items.some(item => item.transaction == null);
+  return {
+    title: items.length === 1 ? 'Sign a request' : `Sign ${items.length} requests`,
+    details,
+    ...(opaque && {
+      warning:
+        'The content of some messages cannot be displayed. Only approve if you trust this site.',
+    }),
+  };
+}
+
+export function describeSession(
+  keyTypes: KeyType[],
+  expiresInSeconds: number,
+  spendLimits: SpendLimit[] = []
+): ConfirmationIntent {
+  const details = [
+    `Sign with your ${keyTypes.join(', ')} keys for ${formatDuration(expiresInSeconds)}, without asking again`,
+    ...spendLimits.map(
+      limit =>
+        `Transfer up to ${formatAmount(limit.amount, limit.chain, limit.token)} on ${limit.chain}`
+    ),
+  ];
+  return {
+    title: 'Grant signing rights to this site',
+    details,
+    ...(spendLimits.length === 0 && {
+      warning: 'The amounts this site may transfer are not limited.',
+    }),
+  };
+}
+
+export function describeModeChange(mode: ConfirmationMode): ConfirmationIntent {
+  return {
+    title: 'Change signing confirmation',
+    details: [MODE_DESCRIPTIONS[mode]],
+    ...(mode === 'none' && {
+      warning: 'This site will be able to sign on your behalf without asking you first.',
+    }),
+  };
+}
+
+function describeItem({ keyType, signingMode, transaction }: SigningIntent): string[] {
+  if (transaction == null) {
+    return [`Sign a ${signingMode ?? 'raw-digest'} message with your ${keyType} key`];
+  }
+  const network =
+    transaction.chain === 'evm' ? `EVM chain ${transaction.chainId ?? 'unknown'}` : 'Solana';
+  return transaction.calls.map(call => `${describeCall(call, transaction.chain)} (${network})`);
+}
+
+function describeCall(call: TransactionCall, chain: 'solana' | 'evm'): string {
+  const amount = formatAmount(call.amount ?? '0', chain, call.token);
+  switch (call.type) {
+    case 'native-transfer':
+    case 'token-transfer':
+      return `Send ${amount} to ${call.recipient ?? 'an unknown recipient'}`;
+    case 'token-approval':
+      return `Allow ${call.recipient ?? 'an unknown spender'} to spend ${amount}`;
+    case 'contract-call':
+      return call.amount != null && call.amount !== '0'
+        ? `Call contract ${call.to} sending ${amount}`
+        : `Call contract ${call.to}`;
+    case 'contract-deployment':
+      return 'Deploy a contract';
+  }
+}
+
+// Token decimals are unknown to the frame, so token amounts are shown in base units
+function formatAmount(amount: string, chain: 'solana' | 'evm', token?: string): string {
+  if (token != null) {
+    return `${amount} base units of token ${token}`;
+  }
+  const { symbol, decimals } = NATIVE_CURRENCIES[chain];
+  const padded = amount.padStart(decimals + 1, '0');
+  const whole = padded.slice(0, -decimals);
+  const fraction = padded.slice(-decimals).replace(/0+$/, '');
+  return `${fraction.length > 0 ? `${whole}.${fraction}` : whole} ${symbol}`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds % 3600 === 0) {
+    return `${seconds / 3600} hour${seconds === 3600 ? '' : 's'}`;
+  }
+  if (seconds % 60 === 0) {
+    return `${seconds / 60} minute${seconds === 60 ? '' : 's'}`;
+  }
+  return `${seconds} seconds`;
+}
@@ -0,0 +1,109 @@
+import type { ConfirmationIntent } from './intent';
+
+export type PromptOptions = {
+  origin: string;
+  approveLabel: string;
+  timeoutMs: number;
+  // Approve stays disabled for this long, with a countdown, after the dialog is shown
+  approveDelayMs: number;
+  // Runs within the approve click, e.g. for a WebAuthn ceremony that needs user activation
+  onApprove: () => Promise<void>;
+};
+
+/**
+ * Shows a confirmation dialog over the frame and resolves once the user approves or declines it,
+ * or once it times out.
+ *
+ * The dialog is built from text nodes only, as the intent holds data chosen by the parent page.
+ * Decline is focused, and Approve only enabled once a visible countdown ends, so that a click or
+ * key press meant for the parent page cannot approve the request as the dialog appears.
+ *
+ * @returns Whether the user approved, and `onApprove` succeeded
+ */
+export function showConfirmationPrompt(
+  intent: ConfirmationIntent,
+  { origin, approveLabel, timeoutMs, approveDelayMs, onApprove }: PromptOptions
+): Promise<boolean> {
+  const overlay = element('div', 'confirmation-overlay');
+  overlay.setAttribute('role', 'dialog');
+  overlay.setAttribute('aria-modal', 'true');
+
+  const dialog = element('div', 'confirmation-dialog');
+  dialog.append(element('h2', 'confirmation-title', intent.title));
+
+  const requestedBy = element('p', 'confirmation-origin', 'Requested by ');
+  requestedBy.append(element('strong', undefined, origin));
+  dialog.append(requestedBy);
+
+  const details = element('ul', 'confirmation-details');
+  for (const detail of intent.details) {
+    details.append(element('li', undefined, detail));
+  }
+  dialog.append(details);
+
+  if (intent.warning != null) {
+    dialog.append(element('p', 'confirmation-warning', intent.warning));
+  }
+
+  const declineButton = element('button', 'confirmation-decline', 'Decline');
+  const approveButton = element('button', 'confirmation-approve', approveLabel);
+  const actions = element('div', 'confirmation-actions');
+  actions.append(declineButton, approveButton);
+  dialog.append(actions);
+  overlay.append(dialog);
+
+  let secondsLeft = Math.ceil(approveDelayMs / 1000);
+  const showCountdown = () => {
+    approveButton.disabled = secondsLeft > 0;
+    approveButton.textContent = secondsLeft > 0 ? `${approveLabel} (${secondsLeft})` : approveLabel;
+  };
+  showCountdown();
+
+  return new Promise<boolean>(resolve => {
+    const settle = (approved: boolean) => {
+      clearTimeout(timeout);
+      clearInterval(countdown);
+      overlay.remove();
+      resolve(approved);
+    };
+    const timeout = setTimeout(() => settle(false), timeoutMs);
+    const countdown = setInterval(() => {
+      secondsLeft -= 1;
+      showCountdown();
+      if (secondsLeft <= 0) {
+        clearInterval(countdown);
+      }
+    }, 1000);
+
+    declineButton.addEventListener('click', () => settle(false));
+    approveButton.addEventListener('click', async () => {
+      approveButton.disabled = true;
+      declineButton.disabled = true;
+      try {
+        await onApprove();
+        settle(true);
+      } catch (error) {
+        console.error('[ConfirmationPrompt] Approval failed', error);
+        settle(false);
+      }
+    });
+
+    document.body.append(overlay);
+    declineButton.focus();
+  });
+}
+
+function element<K extends keyof HTMLElementTagNameMap>(
+  tagName: K,
+  className?: string,
+  text?: string
+): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tagName);
+  if (className != null) {
+    node.className = className;
+  }
+  if (text != null) {
+    node.textContent = text;
+  }
+  return node;
+}
@@ -166,6 +166,42 @@ describe('Ed25519Service', () => {
     });
   });
 
+  describe('SLIP-0010 derivation', () => {
+    // SLIP-0010 test vector 2 for ed25519
+    const SEED = Buffer.from(
+      'fffcf9f6f3f0edeae7e4e1dedbd8d5d2cfccc9c6c3c0bdbab7b4b1aeaba8a5a29f9c999693908d8a8784817e7b7875726f6c696663605d5a5754514e4b484542',
+      'hex'
+    );
+
+    it('should derive keys matching the SLIP-0010 test vectors', async () => {
+      const vectors = {
+        m: '171cb88b1b3c1db25add599712e36245d75bc65a1a5c9e18d76f9f2b1eab4012',
+        "m/0'": '1559eb2bbec5790b0c65d8693e4d0875b1747f4970ae8b650486ed7470845635',
+        "m/0'/2147483647'/1'/2147483646'/2'":
+          '551d333177df541ad876a60ea71f00447931c0a9da16f227c11ea080d7391b8d',
+        'm/0h/2147483647h/1h': '3757c7577170179c7868353ada796c839135b3d30554bbb74a4b1e4a5a58505c',
+      };
+
+      for (const [path, privateKey] of Object.entries(vectors)) {
+        const secretKey = await ed25519Service.secretKeyFromSeed(SEED, path);
+        expect(Buffer.from(secretKey.slice(0, 32)).toString('hex')).toBe(privateKey);
+        expect(secretKey.slice(32)).toEqual(await ed.getPublicKeyAsync(secretKey.slice(0, 32)));
+      }
+    });
+
+    it('should reject non-hardened and malformed paths', async () => {
+      await expect(ed25519Service.secretKeyFromSeed(SEED, "m/44'/501'/0")).rejects.toThrow(
+        'ed25519 only supports hardened indexes'
+      );
+      await expect(ed25519Service.secretKeyFromSeed(SEED, "44'/501'")).rejects.toThrow(
+        'Expected it to start with "m"'
+      );
+      await expect(ed25519Service.secretKeyFromSeed(SEED, "m/44'/x'")).rejects.toThrow(
+        'Invalid derivation path segment "x\'"'
+      );
+    });
+  });
+
   it('should initialize without errors', async () => {
     await expect(ed25519Service.init()).resolves.not.toThrow();
   });
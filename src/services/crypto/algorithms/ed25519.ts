@@ -1,6 +1,11 @@
 import * as ed from '../../../lib/noble-ed25519';
 import bs58 from 'bs58';
 import { CrossmintFrameService } from '../../service';
+import { HARDENED_OFFSET, parseDerivationPath } from '../derivation-path';
+import { zeroize } from '../../common/utils';
+
+// SLIP-0010 master key HMAC key for ed25519
+const SLIP10_ED25519_SEED = new TextEncoder().encode('ed25519 seed');
 
 export class Ed25519Service extends CrossmintFrameService {
   name = 'Ed25519 Service';
@@ -40,16 +45,28 @@ export class Ed25519Service extends CrossmintFrameService {
 
   /**
    * Get a secret key from a seed
+   *
+   * Without a derivation path, the first 32 bytes of the seed are used as the private key.
+   * With one, the key is derived following SLIP-0010, which only allows hardened indexes for ed25519.
+   *
    * @param {Uint8Array} seed - Seed
+   * @param {string} [derivationPath] - Optional SLIP-0010 derivation path, e.g. m/44'/501'/0'/0'
    * @returns {Uint8Array} Secret key
    */
-  async secretKeyFromSeed(seed: Uint8Array): Promise<Uint8Array> {
+  async secretKeyFromSeed(seed: Uint8Array, derivationPath?: string): Promise<Uint8Array> {
     if (seed.length < 32) {
       throw new Error(`Invalid seed length: ${seed.length}. Expected at least 32 bytes.`);
     }
-    const trimmedSeed = seed.slice(0, 32);
-    const publicKey = await ed.getPublicKeyAsync(trimmedSeed);
-    return this.concatBytes(trimmedSeed, publicKey);
+    const privateKey =
+      derivationPath != null
+        ? await this.derivePrivateKey(seed, derivationPath)
+        : seed.slice(0, 32);
+    try {
+      const publicKey = await ed.getPublicKeyAsync(privateKey);
+      return this.concatBytes(privateKey, publicKey);
+    } finally {
+      zeroize(privateKey);
+    }
   }
 
   /**
@@ -82,6 +99,46 @@ export class Ed25519Service extends CrossmintFrameService {
     }
   }
 
+  private async derivePrivateKey(seed: Uint8Array, derivationPath: string): Promise<Uint8Array> {
+    const indexes = parseDerivationPath(derivationPath);
+
+    // Each node is the private key (left half) and chain code (right half) of its level
+    let node = await this.hmacSha512(SLIP10_ED25519_SEED, seed);
+    try {
+      for (const index of indexes) {
+        if (index < HARDENED_OFFSET) {
+          throw new Error(
+            `Invalid derivation path: ${derivationPath}. ed25519 only supports hardened indexes`
+          );
+        }
+        const indexBytes = new Uint8Array(4);
+        new DataView(indexBytes.buffer).setUint32(0, index);
+        const data = this.concatBytes(new Uint8Array([0]), node.subarray(0, 32), indexBytes);
+        const parent = node;
+        try {
+          node = await this.hmacSha512(parent.subarray(32), data);
+        } finally {
+          zeroize(parent, data);
+        }
+      }
+
+      return node.slice(0, 32);
+    } finally {
+      zeroize(node);
+    }
+  }
+
+  private async hmacSha512(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+    const hmacKey = await crypto.subtle.importKey(
+      'raw',
+      key,
+      { name: 'HMAC', hash: 'SHA-512' },
+      false,
+      ['sign']
+    );
+    return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, data));
+  }
+
   private concatBytes(...arrays: Uint8Array[]): Uint8Array {
     let totalLength = 0;
     for (const arr of arrays) {
@@ -1,6 +1,14 @@
 import { describe, it, expect, vi } from 'vitest';
 import { type Hex, type PrivKey, Secp256k1Service } from './secp256k1';
-import { concat, ethers, keccak256, toUtf8Bytes, Transaction, type TransactionLike } from 'ethers';
+import {
+  concat,
+  ethers,
+  HDNodeWallet,
+  keccak256,
+  toUtf8Bytes,
+  Transaction,
+  type TransactionLike,
+} from 'ethers';
 
 describe('Secp256k1Service', () => {
   let privKeyString: string;
@@ -73,4 +81,22 @@ describe('Secp256k1Service', () => {
       ])
     );
   });
+
+  it('should derive BIP32 keys from a seed -- should match ethers HD wallet', async () => {
+    const seed = new Uint8Array(64).fill(7);
+    const paths = ["m/44'/60'/0'/0/0", "m/44'/60'/0'/0/1", "m/0'/1/2'/2/1000000000"];
+
+    for (const path of paths) {
+      const privateKey = await service.privateKeyFromSeed(seed, path);
+      const ethersWallet = HDNodeWallet.fromSeed(seed).derivePath(path);
+      expect(`0x${Buffer.from(privateKey).toString('hex')}`).toBe(ethersWallet.privateKey);
+    }
+
+    expect(await service.privateKeyFromSeed(seed, 'm/44h/60h/0h/0/0')).toEqual(
+      await service.privateKeyFromSeed(seed, "m/44'/60'/0'/0/0")
+    );
+    await expect(service.privateKeyFromSeed(seed, 'm/-1')).rejects.toThrow(
+      'Invalid derivation path segment'
+    );
+  });
 });
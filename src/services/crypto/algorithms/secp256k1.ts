@@ -1,7 +1,9 @@
 import { CrossmintFrameService } from '../../service';
 import { secp256k1 } from 'ethereum-cryptography/secp256k1.js';
 import { sha256 } from 'ethereum-cryptography/sha256.js';
-import { decodeBytes } from '../../common/utils';
+import { HDKey } from 'ethereum-cryptography/hdkey.js';
+import { decodeBytes, zeroize } from '../../common/utils';
+import { parseDerivationPath } from '../derivation-path';
 const SECP256K1_DERIVATION_PATH = new Uint8Array([
   0x73, 0x65, 0x63, 0x70, 0x32, 0x35, 0x36, 0x6b, 0x31, 0x2d, 0x64, 0x65, 0x72, 0x69, 0x76, 0x61,
   0x74, 0x69, 0x6f, 0x6e, 0x2d, 0x70, 0x61, 0x74, 0x68,
@@ -13,22 +15,62 @@ export class Secp256k1Service extends CrossmintFrameService {
   name = 'secp256k1';
   log_prefix = 'secp256k1';
 
-  async privateKeyFromSeed(seed: Uint8Array): Promise<PrivKey> {
+  /**
+   * Derives a private key from a seed.
+   *
+   * Without a derivation path, the key is sha256(seed || "secp256k1-derivation-path").
+   * With one, the key is derived following BIP32 using the seed as the master seed.
+   *
+   * @param seed - Seed
+   * @param derivationPath - Optional BIP32 derivation path, e.g. m/44'/60'/0'/0/0
+   */
+  async privateKeyFromSeed(seed: Uint8Array, derivationPath?: string): Promise<PrivKey> {
+    if (derivationPath != null) {
+      return this.derivePrivateKey(seed, derivationPath);
+    }
+
     const secp256k1DerivationSeed = new Uint8Array(seed.length + SECP256K1_DERIVATION_PATH.length);
     secp256k1DerivationSeed.set(seed, 0);
     secp256k1DerivationSeed.set(SECP256K1_DERIVATION_PATH, seed.length);
     const privateKey = sha256(secp256k1DerivationSeed);
+    // Holds a copy of the seed
+    zeroize(secp256k1DerivationSeed);
 
     // An Ethereum private key must be an integer > 0 and < N (the order of the secp256k1 curve ~2^256-2^32-977).
     // The probability of a SHA256 hash being 0 or >= N is astronomically small.
     // Here, we handle that case
     if (!secp256k1.utils.isValidPrivateKey(privateKey)) {
-      return this.privateKeyFromSeed(privateKey);
+      try {
+        return await this.privateKeyFromSeed(privateKey);
+      } finally {
+        zeroize(privateKey);
+      }
     }
 
     return privateKey;
   }
 
+  /**
+   * Every node along the path is wiped once its child is derived. The returned key is a copy, as
+   * wiping a node also zeroes the key it exposes.
+   */
+  private derivePrivateKey(seed: Uint8Array, derivationPath: string): PrivKey {
+    let node = HDKey.fromMasterSeed(seed);
+    try {
+      for (const index of parseDerivationPath(derivationPath)) {
+        const child = node.deriveChild(index);
+        node.wipePrivateData();
+        node = child;
+      }
+      if (node.privateKey == null) {
+        throw new Error(`Could not derive a private key for path ${derivationPath}`);
+      }
+      return node.privateKey.slice();
+    } finally {
+      node.wipePrivateData();
+    }
+  }
+
   async getPublicKey(privateKey: PrivKey): Promise<Uint8Array> {
     return secp256k1.getPublicKey(privateKey, false);
   }
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createECDH, createPublicKey, verify } from 'node:crypto';
+import { p256 } from '@noble/curves/p256';
+import { sha256 } from 'ethereum-cryptography/sha256.js';
+import { Secp256r1Service } from './secp256r1';
+
+describe('Secp256r1Service', () => {
+  // RFC 6979 A.2.5 test key
+  const privKeyString = 'c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6721';
+  const publicKeyString =
+    '0460fed4ba255a9d31c961eb74c6356d68c049b8923b61fa6ce669622e60f29fb67903fe1008b8bc99a41ae9e95628bc64f2f1b20c2d7e9f5177a3c294d4462299';
+  const message = new TextEncoder().encode('sample');
+  let privKey: Uint8Array;
+  let service: Secp256r1Service;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    privKey = new Uint8Array(Buffer.from(privKeyString, 'hex'));
+    service = new Secp256r1Service();
+  });
+
+  it('should derive the uncompressed public key -- should match node crypto', async () => {
+    const publicKey = await service.getPublicKey(privKey);
+
+    const ecdh = createECDH('prime256v1');
+    ecdh.setPrivateKey(Buffer.from(privKeyString, 'hex'));
+
+    expect(Buffer.from(publicKey).toString('hex')).toBe(publicKeyString);
+    expect(Buffer.from(publicKey).toString('hex')).toBe(ecdh.getPublicKey('hex', 'uncompressed'));
+  });
+
+  it('should produce deterministic raw (r || s) signatures -- should match RFC 6979 vector', async () => {
+    const signature = await service.sign(sha256(message), privKey);
+
+    // RFC 6979 A.2.5, SHA-256, message "sample". s is normalized to n - s.
+    const r = 'efd48b2aacb6a8fd1140dd9cd45e81d69d2c877b56aaf991c34d0ea84eaf3716';
+    const highS = BigInt('0xf7cb1c942d657c41d436c7a1b6e29f65f3e900dbb9aff4064dc4ab2f843acda8');
+    const lowS = (p256.CURVE.n - highS).toString(16).padStart(64, '0');
+
+    expect(signature.length).toBe(64);
+    expect(Buffer.from(signature).toString('hex')).toBe(`${r}${lowS}`);
+    expect(await service.sign(sha256(message), privKey)).toEqual(signature);
+  });
+
+  it('should produce low-S raw signatures verifiable with WebCrypto', async () => {
+    const signature = await service.sign(sha256(message), privKey);
+    const s = BigInt(`0x${Buffer.from(signature.slice(32)).toString('hex')}`);
+    expect(s <= p256.CURVE.n / 2n).toBe(true);
+
+    const publicKey = await crypto.subtle.importKey(
+      'raw',
+      await service.getPublicKey(privKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const isValid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      publicKey,
+      signature,
+      message
+    );
+    expect(isValid).toBe(true);
+  });
+
+  it('should produce DER signatures verifiable with node crypto', async () => {
+    const signature = await service.signDer(sha256(message), privKey);
+    const raw = await service.sign(sha256(message), privKey);
+
+    expect(signature[0]).toBe(0x30);
+    expect(p256.Signature.fromDER(signature).toCompactRawBytes()).toEqual(raw);
+
+    const publicKeyBytes = Buffer.from(await service.getPublicKey(privKey));
+    const publicKey = createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: publicKeyBytes.subarray(1, 33).toString('base64url'),
+        y: publicKeyBytes.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    expect(verify('sha256', message, publicKey, Buffer.from(signature))).toBe(true);
+  });
+
+  it('should reject digests that are not 32 bytes', async () => {
+    await expect(service.sign(message, privKey)).rejects.toThrow('Digest must be 32 bytes');
+    await expect(service.signDer(message, privKey)).rejects.toThrow('Digest must be 32 bytes');
+  });
+
+  it('should generate a private key from a seed', async () => {
+    const privateKey = await service.privateKeyFromSeed(new Uint8Array(0));
+    expect(privateKey).toBeDefined();
+    expect(privateKey).toStrictEqual(
+      new Uint8Array([
+        133, 39, 193, 76, 34, 162, 197, 2, 216, 44, 208, 139, 210, 17, 104, 197, 15, 18, 160, 183,
+        122, 38, 100, 249, 111, 74, 24, 157, 76, 218, 41, 88,
+      ])
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { CrossmintFrameService } from '../../service';
+import { p256 } from '@noble/curves/p256';
+import { sha256 } from 'ethereum-cryptography/sha256.js';
+import { decodeBytes, zeroize } from '../../common/utils';
+import type { Hex, PrivKey } from './secp256k1';
+
+// "secp256r1-derivation-path"
+const SECP256R1_DERIVATION_PATH = new Uint8Array([
+  0x73, 0x65, 0x63, 0x70, 0x32, 0x35, 0x36, 0x72, 0x31, 0x2d, 0x64, 0x65, 0x72, 0x69, 0x76, 0x61,
+  0x74, 0x69, 0x6f, 0x6e, 0x2d, 0x70, 0x61, 0x74, 0x68,
+]);
+
+/**
+ * NIST P-256 (secp256r1) keys, as used by WebAuthn/passkey-style smart account validators.
+ *
+ * Signatures are always low-S normalized, since most on-chain P-256 verifiers reject
+ * malleable high-S signatures.
+ */
+export class Secp256r1Service extends CrossmintFrameService {
+  name = 'secp256r1';
+  log_prefix = 'secp256r1';
+
+  async privateKeyFromSeed(seed: Uint8Array): Promise<PrivKey> {
+    const secp256r1DerivationSeed = new Uint8Array(seed.length + SECP256R1_DERIVATION_PATH.length);
+    secp256r1DerivationSeed.set(seed, 0);
+    secp256r1DerivationSeed.set(SECP256R1_DERIVATION_PATH, seed.length);
+    const privateKey = sha256(secp256r1DerivationSeed);
+    zeroize(secp256r1DerivationSeed);
+
+    // Same as secp256k1: re-hash in the astronomically unlikely case the hash is 0 or >= N
+    if (!p256.utils.isValidPrivateKey(privateKey)) {
+      try {
+        return await this.privateKeyFromSeed(privateKey);
+      } finally {
+        zeroize(privateKey);
+      }
+    }
+
+    return privateKey;
+  }
+
+  /**
+   * @returns Uncompressed SEC1 public key (0x04 || x || y, 65 bytes)
+   */
+  async getPublicKey(privateKey: PrivKey): Promise<Uint8Array> {
+    return p256.getPublicKey(privateKey, false);
+  }
+
+  /**
+   * Signs a 32-byte digest and returns the raw (r || s) signature, 64 bytes.
+   */
+  async sign(digest: Hex | Uint8Array, privateKey: PrivKey): Promise<Uint8Array> {
+    return this.signDigest(digest, privateKey).toCompactRawBytes();
+  }
+
+  /**
+   * Signs a 32-byte digest and returns the ASN.1 DER encoded signature.
+   */
+  async signDer(digest: Hex | Uint8Array, privateKey: PrivKey): Promise<Uint8Array> {
+    return this.signDigest(digest, privateKey).toDERRawBytes();
+  }
+
+  private signDigest(digest: Hex | Uint8Array, privateKey: PrivKey) {
+    const digestBytes = typeof digest === 'string' ? decodeBytes(digest.slice(2), 'hex') : digest;
+    if (digestBytes.length !== 32) {
+      throw new Error('Digest must be 32 bytes');
+    }
+    return p256.sign(digestBytes, privateKey, { lowS: true });
+  }
+}
@@ -1,4 +1,5 @@
-import type { Encoding, KeyType } from '@crossmint/client-signers';
+import type { Encoding } from '@crossmint/client-signers';
+import type { KeyType, SignatureFormat, SigningMode } from '../communications/schemas';
 
 export type Signature<T extends KeyType> = {
   bytes: string;
@@ -12,9 +13,11 @@ export type PublicKey<T extends KeyType> = {
   keyType: T;
 };
 
+export type DerivationPaths = Partial<Record<KeyType, string>>;
+
 /**
  * Defines the contract for a cryptographic strategy.
- * Each strategy corresponds to a specific key type (e.g., ed25519, secp256k1)
+ * Each strategy corresponds to a specific key type (e.g., ed25519, secp256k1, secp256r1)
  * and encapsulates the algorithm-specific logic for key derivation,
  * public key extraction, and signing.
  */
@@ -24,10 +27,14 @@ export interface CryptoStrategy<T extends KeyType> {
   /**
    * Derives a private key from a given seed.
    *
+   * When no derivation path is given, the strategy's default derivation is used, so keys
+   * derived before derivation paths were supported remain unchanged.
+   *
    * @param seed The seed to derive the private key from.
+   * @param derivationPath Optional hierarchical derivation path (e.g. BIP32 or SLIP-0010).
    * @returns A promise that resolves to the derived private key as a Uint8Array.
    */
-  getPrivateKeyFromSeed(seed: Uint8Array): Promise<Uint8Array>;
+  getPrivateKeyFromSeed(seed: Uint8Array, derivationPath?: string): Promise<Uint8Array>;
 
   /**
    * Derives a public key from a given private key.
@@ -43,9 +50,16 @@ export interface CryptoStrategy<T extends KeyType> {
    *
    * @param privateKey The private key to sign with.
    * @param message The message to sign.
-   * @returns A promise that resolves to the raw signature as a Uint8Array.
+   * @param signingMode How the message is hashed before signing. Defaults to `raw-digest`.
+   * @param signatureFormat How the signature is encoded. Defaults to `raw`.
+   * @returns A promise that resolves to the signature as a Uint8Array.
    */
-  sign(privateKey: Uint8Array, payload: Uint8Array): Promise<Uint8Array>;
+  sign(
+    privateKey: Uint8Array,
+    payload: Uint8Array,
+    signingMode?: SigningMode,
+    signatureFormat?: SignatureFormat
+  ): Promise<Uint8Array>;
 
   /**
    * Formats a public key into its standard string representation.
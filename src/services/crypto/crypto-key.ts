@@ -1,12 +1,15 @@
 import { CrossmintFrameService } from '../service';
-import type { Encoding, KeyType } from '@crossmint/client-signers';
-import type { CryptoStrategy, PublicKey, Signature } from './crypto-key-strategy';
+import type { KeyType, SignatureFormat, SigningMode } from '../communications/schemas';
+import type { CryptoStrategy, DerivationPaths, PublicKey, Signature } from './crypto-key-strategy';
+import { useSecret } from '../common/utils';
 
 // Import the concrete strategy classes and the base services they depend on
 import { Ed25519Service } from './algorithms/ed25519';
 import { Secp256k1Service } from './algorithms/secp256k1';
+import { Secp256r1Service } from './algorithms/secp256r1';
 import { Ed25519Strategy } from './strategies/ed25519';
 import { Secp256k1Strategy } from './strategies/secp256k1';
+import { Secp256r1Strategy } from './strategies/secp256r1';
 
 export class CryptoKeyService extends CrossmintFrameService {
   name = 'Crypto Key Service';
@@ -14,12 +17,17 @@ export class CryptoKeyService extends CrossmintFrameService {
 
   private strategies: Map<KeyType, CryptoStrategy<KeyType>>;
 
-  constructor(ed25519Service: Ed25519Service, secp256k1Service: Secp256k1Service) {
+  constructor(
+    ed25519Service: Ed25519Service,
+    secp256k1Service: Secp256k1Service,
+    secp256r1Service: Secp256r1Service
+  ) {
     super();
     this.strategies = new Map();
 
     this.registerStrategy(new Ed25519Strategy(ed25519Service));
     this.registerStrategy(new Secp256k1Strategy(secp256k1Service));
+    this.registerStrategy(new Secp256r1Strategy(secp256r1Service));
   }
 
   private registerStrategy<K extends KeyType>(strategy: CryptoStrategy<K>): void {
@@ -36,29 +44,57 @@ export class CryptoKeyService extends CrossmintFrameService {
 
   async getPrivateKeyFromSeed<K extends KeyType>(
     keyType: K,
-    seed: Uint8Array
+    seed: Uint8Array,
+    derivationPath?: string
   ): Promise<Uint8Array> {
     const strategy = this.getStrategy(keyType);
-    return strategy.getPrivateKeyFromSeed(seed);
+    return strategy.getPrivateKeyFromSeed(seed, derivationPath);
+  }
+
+  /**
+   * Derives a private key and runs `fn` with it, zeroing the key once `fn` settles.
+   */
+  async withPrivateKey<K extends KeyType, T>(
+    keyType: K,
+    seed: Uint8Array,
+    derivationPath: string | undefined,
+    fn: (privateKey: Uint8Array) => Promise<T>
+  ): Promise<T> {
+    return useSecret(await this.getPrivateKeyFromSeed(keyType, seed, derivationPath), fn);
   }
 
   async getPublicKeyFromSeed<K extends KeyType>(
     keyType: K,
-    seed: Uint8Array
+    seed: Uint8Array,
+    derivationPath?: string
   ): Promise<PublicKey<K>> {
     const strategy = this.getStrategy(keyType);
-    const privateKey = await strategy.getPrivateKeyFromSeed(seed);
-    const publicKey = await strategy.getPublicKey(privateKey);
+    const privateKey = await strategy.getPrivateKeyFromSeed(seed, derivationPath);
+    const publicKey = await useSecret(privateKey, key => strategy.getPublicKey(key));
     return {
       ...strategy.formatPublicKey(publicKey),
       keyType,
     };
   }
 
-  async getAllPublicKeysFromSeed(seed: Uint8Array): Promise<Record<KeyType, PublicKey<KeyType>>> {
+  /**
+   * Derives the public key of every registered key type.
+   *
+   * @param seed The master seed.
+   * @param derivationPaths Optional derivation path per key type. Key types without one use
+   * their default derivation.
+   */
+  async getAllPublicKeysFromSeed(
+    seed: Uint8Array,
+    derivationPaths: DerivationPaths = {}
+  ): Promise<Record<KeyType, PublicKey<KeyType>>> {
     const publicKeys: Partial<Record<KeyType, PublicKey<KeyType>>> = {};
     for (const keyType of this.strategies.keys()) {
-      publicKeys[keyType] = await this.getPublicKeyFromSeed(keyType, seed);
+      publicKeys[keyType] = await this.getPublicKeyFromSeed(
+        keyType,
+        seed,
+        derivationPaths[keyType]
+      );
     }
     return publicKeys as Record<KeyType, PublicKey<KeyType>>;
   }
@@ -66,10 +102,12 @@ export class CryptoKeyService extends CrossmintFrameService {
   async sign<K extends KeyType>(
     keyType: K,
     privateKey: Uint8Array,
-    message: Uint8Array
+    message: Uint8Array,
+    signingMode?: SigningMode,
+    signatureFormat?: SignatureFormat
   ): Promise<{ signature: Signature<K>; publicKey: PublicKey<K> }> {
     const strategy = this.getStrategy(keyType);
-    const signature = await strategy.sign(privateKey, message);
+    const signature = await strategy.sign(privateKey, message, signingMode, signatureFormat);
     const publicKey = await strategy.getPublicKey(privateKey);
     return {
       signature: strategy.formatSignature(signature),
@@ -0,0 +1,32 @@
+export const HARDENED_OFFSET = 0x80000000;
+
+const DERIVATION_PATH_SEGMENT = /^(\d+)(['hH])?$/;
+
+/**
+ * Parses a BIP32-style derivation path (e.g. `m/44'/501'/0'/0'`) into its child indexes.
+ * Hardened segments (suffixed with `'` or `h`) are returned with HARDENED_OFFSET added.
+ *
+ * @param path - Derivation path starting at the master node `m`
+ * @returns Child indexes, in derivation order
+ * @throws {Error} When the path is malformed or an index is out of range
+ */
+export function parseDerivationPath(path: string): number[] {
+  const [root, ...segments] = path.split('/');
+  if (root !== 'm') {
+    throw new Error(`Invalid derivation path: ${path}. Expected it to start with "m"`);
+  }
+
+  return segments.map(segment => {
+    const match = DERIVATION_PATH_SEGMENT.exec(segment);
+    if (match == null) {
+      throw new Error(`Invalid derivation path segment "${segment}" in ${path}`);
+    }
+
+    const index = Number(match[1]);
+    if (index >= HARDENED_OFFSET) {
+      throw new Error(`Invalid derivation path index ${index} in ${path}`);
+    }
+
+    return match[2] != null ? index + HARDENED_OFFSET : index;
+  });
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { ethers, hashMessage, TypedDataEncoder } from 'ethers';
+import { hashPersonalMessage, hashTypedData, type TypedData } from './ethereum-hashing';
+import { Secp256k1Service } from './algorithms/secp256k1';
+import { Secp256k1Strategy } from './strategies/secp256k1';
+
+const toHex = (bytes: Uint8Array) => `0x${Buffer.from(bytes).toString('hex')}`;
+
+// EIP-712 reference example, extended with arrays, fixed bytes and signed integers
+const TYPED_DATA = {
+  types: {
+    Person: [
+      { name: 'name', type: 'string' },
+      { name: 'wallets', type: 'address[]' },
+    ],
+    Mail: [
+      { name: 'from', type: 'Person' },
+      { name: 'to', type: 'Person[]' },
+      { name: 'contents', type: 'string' },
+      { name: 'attachment', type: 'bytes' },
+      { name: 'tag', type: 'bytes4' },
+      { name: 'delta', type: 'int64' },
+      { name: 'urgent', type: 'bool' },
+      { name: 'scores', type: 'uint8[2]' },
+    ],
+  },
+  primaryType: 'Mail',
+  domain: {
+    name: 'Ether Mail',
+    version: '1',
+    chainId: 1,
+    verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC',
+  },
+  message: {
+    from: {
+      name: 'Cow',
+      wallets: [
+        '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826',
+        '0xDeaDbeefdEAdbeefdEadbEEFdeadbeEFdEaDbeeF',
+      ],
+    },
+    to: [
+      {
+        name: 'Bob',
+        wallets: ['0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB'],
+      },
+    ],
+    contents: 'Hello, Bob!',
+    attachment: '0xdeadbeef',
+    tag: '0x01020304',
+    delta: -42,
+    urgent: true,
+    scores: [7, 255],
+  },
+} satisfies TypedData;
+
+describe('hashPersonalMessage', () => {
+  it('should hash messages following EIP-191 -- should match ethers', () => {
+    for (const message of ['Hello world', '', 'ünïcödé ✓']) {
+      const bytes = new TextEncoder().encode(message);
+      expect(toHex(hashPersonalMessage(bytes))).toBe(hashMessage(bytes));
+    }
+  });
+});
+
+describe('hashTypedData', () => {
+  it('should hash typed data following EIP-712 -- should match ethers', () => {
+    expect(toHex(hashTypedData(TYPED_DATA))).toBe(
+      TypedDataEncoder.hash(TYPED_DATA.domain, TYPED_DATA.types, TYPED_DATA.message)
+    );
+  });
+
+  it('should use an explicitly declared EIP712Domain type', () => {
+    const typedData = {
+      ...TYPED_DATA,
+      types: {
+        ...TYPED_DATA.types,
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+        ],
+      },
+    };
+
+    expect(toHex(hashTypedData(typedData))).toBe(
+      TypedDataEncoder.hash(
+        { name: TYPED_DATA.domain.name, chainId: TYPED_DATA.domain.chainId },
+        TYPED_DATA.types,
+        TYPED_DATA.message
+      )
+    );
+  });
+
+  it('should reject values that do not match their declared types', () => {
+    const withMessage = (message: Record<string, unknown>) => ({
+      ...TYPED_DATA,
+      message: { ...TYPED_DATA.message, ...message },
+    });
+
+    expect(() => hashTypedData(withMessage({ contents: undefined }))).toThrow(
+      'Missing EIP-712 value for Mail.contents'
+    );
+    expect(() => hashTypedData(withMessage({ tag: '0x0102' }))).toThrow(
+      'Invalid EIP-712 value for bytes4'
+    );
+    expect(() => hashTypedData(withMessage({ scores: [1, 256] }))).toThrow(
+      'out of range for uint8'
+    );
+    expect(() => hashTypedData(withMessage({ scores: [1] }))).toThrow(
+      'Invalid EIP-712 value for uint8[2]'
+    );
+    expect(() => hashTypedData({ ...TYPED_DATA, primaryType: 'Unknown' })).toThrow(
+      'Unknown EIP-712 type: Unknown'
+    );
+  });
+});
+
+describe('Secp256k1Strategy signing modes', () => {
+  const privKeyString = '00ba4b67fbb7efd511188eba491c39aa49e9362df4fdce6eda8765801ad54cbf';
+  const privKey = new Uint8Array(Buffer.from(privKeyString, 'hex'));
+  const strategy = new Secp256k1Strategy(new Secp256k1Service());
+  const ethersWallet = new ethers.Wallet(privKeyString);
+
+  it('should sign personal messages -- should match ethers signMessage', async () => {
+    const message = new TextEncoder().encode('Hello world');
+    const signature = await strategy.sign(privKey, message, 'personal-message');
+
+    expect(toHex(signature)).toBe(await ethersWallet.signMessage(message));
+  });
+
+  it('should sign typed data -- should match ethers signTypedData', async () => {
+    const payload = new TextEncoder().encode(JSON.stringify(TYPED_DATA));
+    const signature = await strategy.sign(privKey, payload, 'typed-data-v4');
+
+    expect(toHex(signature)).toBe(
+      await ethersWallet.signTypedData(TYPED_DATA.domain, TYPED_DATA.types, TYPED_DATA.message)
+    );
+  });
+
+  it('should keep signing raw digests by default', async () => {
+    const digest = hashPersonalMessage(new TextEncoder().encode('Hello world'));
+
+    expect(await strategy.sign(privKey, digest)).toEqual(
+      await strategy.sign(privKey, digest, 'raw-digest')
+    );
+    await expect(
+      strategy.sign(privKey, new TextEncoder().encode('not json'), 'typed-data-v4')
+    ).rejects.toThrow('Typed data payload must be UTF-8 encoded JSON');
+  });
+});
@@ -0,0 +1,198 @@
+import { z } from 'zod';
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+import { concatBytes, hexToBytes, utf8ToBytes } from 'ethereum-cryptography/utils';
+
+const PERSONAL_MESSAGE_PREFIX = '\x19Ethereum Signed Message:\n';
+
+/**
+ * Hashes a message following EIP-191 (version 0x45), as done by `personal_sign`.
+ *
+ * @param message - Raw message bytes
+ * @returns keccak256("\x19Ethereum Signed Message:\n" || len(message) || message)
+ */
+export function hashPersonalMessage(message: Uint8Array): Uint8Array {
+  return keccak256(
+    concatBytes(utf8ToBytes(`${PERSONAL_MESSAGE_PREFIX}${message.length}`), message)
+  );
+}
+
+const typedDataFieldSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+});
+
+export const typedDataSchema = z.object({
+  types: z.record(z.string(), z.array(typedDataFieldSchema)),
+  primaryType: z.string(),
+  domain: z.record(z.string(), z.unknown()),
+  message: z.record(z.string(), z.unknown()),
+});
+
+export type TypedData = z.infer<typeof typedDataSchema>;
+type TypedDataTypes = TypedData['types'];
+
+// Fields of the EIP712Domain struct, in the order they are encoded when the type is not given
+const DOMAIN_FIELDS = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+  { name: 'salt', type: 'bytes32' },
+];
+
+const ARRAY_TYPE = /^(.+)\[(\d*)\]$/;
+const INTEGER_TYPE = /^(u?)int(\d*)$/;
+const FIXED_BYTES_TYPE = /^bytes(\d+)$/;
+
+/**
+ * Hashes typed structured data following EIP-712, as done by `eth_signTypedData_v4`
+ * (arrays and nested structs are supported).
+ *
+ * When `types` does not declare `EIP712Domain`, it is inferred from the fields present in `domain`.
+ *
+ * @param typedData - Typed data, as passed to `eth_signTypedData_v4`
+ * @returns keccak256("\x19\x01" || domainSeparator || hashStruct(message))
+ * @throws {Error} When the typed data does not match its declared types
+ */
+export function hashTypedData(typedData: TypedData): Uint8Array {
+  const types: TypedDataTypes = {
+    EIP712Domain: DOMAIN_FIELDS.filter(({ name }) => typedData.domain[name] != null),
+    ...typedData.types,
+  };
+
+  const parts = [new Uint8Array([0x19, 0x01]), hashStruct('EIP712Domain', typedData.domain, types)];
+  if (typedData.primaryType !== 'EIP712Domain') {
+    parts.push(hashStruct(typedData.primaryType, typedData.message, types));
+  }
+  return keccak256(concatBytes(...parts));
+}
+
+function hashStruct(type: string, data: unknown, types: TypedDataTypes): Uint8Array {
+  const fields = types[type];
+  if (fields == null) {
+    throw new Error(`Unknown EIP-712 type: ${type}`);
+  }
+  if (typeof data !== 'object' || data == null || Array.isArray(data)) {
+    throw new Error(`Invalid EIP-712 value for struct ${type}`);
+  }
+
+  const values = data as Record<string, unknown>;
+  return keccak256(
+    concatBytes(
+      keccak256(utf8ToBytes(encodeType(type, types))),
+      ...fields.map(({ name, type: fieldType }) => {
+        if (values[name] == null) {
+          throw new Error(`Missing EIP-712 value for ${type}.${name}`);
+        }
+        return encodeValue(fieldType, values[name], types);
+      })
+    )
+  );
+}
+
+function encodeType(primaryType: string, types: TypedDataTypes): string {
+  const [primary, ...dependencies] = [...findDependencies(primaryType, types)];
+  return [primary, ...dependencies.sort()]
+    .map(type => `${type}(${types[type].map(({ name, type }) => `${type} ${name}`).join(',')})`)
+    .join('');
+}
+
+function findDependencies(
+  type: string,
+  types: TypedDataTypes,
+  found: Set<string> = new Set()
+): Set<string> {
+  const baseType = type.replace(/(\[\d*\])+$/, '');
+  if (found.has(baseType) || types[baseType] == null) {
+    return found;
+  }
+  found.add(baseType);
+  for (const field of types[baseType]) {
+    findDependencies(field.type, types, found);
+  }
+  return found;
+}
+
+function encodeValue(type: string, value: unknown, types: TypedDataTypes): Uint8Array {
+  if (types[type] != null) {
+    return hashStruct(type, value, types);
+  }
+
+  const arrayMatch = ARRAY_TYPE.exec(type);
+  if (arrayMatch != null) {
+    const [, itemType, length] = arrayMatch;
+    if (!Array.isArray(value) || (length !== '' && value.length !== Number(length))) {
+      throw new Error(`Invalid EIP-712 value for ${type}`);
+    }
+    return keccak256(concatBytes(...value.map(item => encodeValue(itemType, item, types))));
+  }
+
+  switch (type) {
+    case 'string':
+      return keccak256(utf8ToBytes(String(value)));
+    case 'bytes':
+      return keccak256(parseHex(value, type));
+    case 'bool':
+      return encodeInteger(value === true || value === 'true' ? 1n : 0n, 256, false);
+    case 'address': {
+      const address = parseHex(value, type);
+      if (address.length !== 20) {
+        throw new Error(`Invalid EIP-712 address: ${value}`);
+      }
+      return concatBytes(new Uint8Array(12), address);
+    }
+  }
+
+  const fixedBytesMatch = FIXED_BYTES_TYPE.exec(type);
+  if (fixedBytesMatch != null) {
+    const bytes = parseHex(value, type);
+    const size = Number(fixedBytesMatch[1]);
+    if (size < 1 || size > 32 || bytes.length !== size) {
+      throw new Error(`Invalid EIP-712 value for ${type}`);
+    }
+    return concatBytes(bytes, new Uint8Array(32 - size));
+  }
+
+  const integerMatch = INTEGER_TYPE.exec(type);
+  if (integerMatch != null) {
+    const bits = integerMatch[2] === '' ? 256 : Number(integerMatch[2]);
+    if (bits % 8 !== 0 || bits < 8 || bits > 256) {
+      throw new Error(`Unsupported EIP-712 type: ${type}`);
+    }
+    return encodeInteger(parseInteger(value, type), bits, integerMatch[1] !== 'u');
+  }
+
+  throw new Error(`Unsupported EIP-712 type: ${type}`);
+}
+
+function encodeInteger(value: bigint, bits: number, signed: boolean): Uint8Array {
+  const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+  const max = signed ? (1n << BigInt(bits - 1)) - 1n : (1n << BigInt(bits)) - 1n;
+  if (value < min || value > max) {
+    throw new Error(`EIP-712 value ${value} out of range for ${signed ? '' : 'u'}int${bits}`);
+  }
+  // Negative values are encoded as their 256-bit two's complement
+  const word = value < 0n ? (1n << 256n) + value : value;
+  return hexToBytes(word.toString(16).padStart(64, '0'));
+}
+
+function parseInteger(value: unknown, type: string): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if ((typeof value === 'number' && Number.isInteger(value)) || typeof value === 'string') {
+    try {
+      return BigInt(value);
+    } catch {
+      // Falls through to the error below
+    }
+  }
+  throw new Error(`Invalid EIP-712 value for ${type}: ${value}`);
+}
+
+function parseHex(value: unknown, type: string): Uint8Array {
+  if (typeof value !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+    throw new Error(`Invalid EIP-712 value for ${type}: expected a 0x-prefixed hex string`);
+  }
+  return hexToBytes(value);
+}
@@ -1,15 +1,21 @@
 import type { CryptoStrategy, PublicKey, Signature } from '../crypto-key-strategy';
+import type { SignatureFormat, SigningMode } from '../../communications/schemas';
 import type { Ed25519Service } from '../algorithms/ed25519';
 import bs58 from 'bs58';
+import { zeroize } from '../../common/utils';
 
 export class Ed25519Strategy implements CryptoStrategy<'ed25519'> {
   readonly keyType = 'ed25519' as const;
 
   constructor(private readonly ed25519Service: Ed25519Service) {}
 
-  async getPrivateKeyFromSeed(seed: Uint8Array): Promise<Uint8Array> {
-    const fullSecretKey = await this.ed25519Service.secretKeyFromSeed(seed);
-    return fullSecretKey.slice(0, 32);
+  async getPrivateKeyFromSeed(seed: Uint8Array, derivationPath?: string): Promise<Uint8Array> {
+    const fullSecretKey = await this.ed25519Service.secretKeyFromSeed(seed, derivationPath);
+    try {
+      return fullSecretKey.slice(0, 32);
+    } finally {
+      zeroize(fullSecretKey);
+    }
   }
 
   async getPublicKey(privateKey: Uint8Array): Promise<Uint8Array> {
@@ -17,7 +23,18 @@ export class Ed25519Strategy implements CryptoStrategy<'ed25519'> {
     return bs58.decode(publicKeyBase58);
   }
 
-  sign(privateKey: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+  async sign(
+    privateKey: Uint8Array,
+    message: Uint8Array,
+    signingMode: SigningMode = 'raw-digest',
+    signatureFormat: SignatureFormat = 'raw'
+  ): Promise<Uint8Array> {
+    if (signingMode !== 'raw-digest') {
+      throw new Error(`Signing mode ${signingMode} is not supported for ed25519 keys`);
+    }
+    if (signatureFormat !== 'raw') {
+      throw new Error(`Signature format ${signatureFormat} is not supported for ed25519 keys`);
+    }
     return this.ed25519Service.sign(message, privateKey);
   }
 
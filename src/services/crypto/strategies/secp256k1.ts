@@ -2,26 +2,60 @@ import type { CryptoStrategy, PublicKey, Signature } from '../crypto-key-strateg
 import type { Secp256k1Service } from '../algorithms/secp256k1';
 import type { Encoding } from '@crossmint/client-signers';
 import { toHex, hexToBytes } from 'ethereum-cryptography/utils';
+import type { SignatureFormat, SigningMode } from '../../communications/schemas';
+import { hashPersonalMessage, hashTypedData, typedDataSchema } from '../ethereum-hashing';
 
 export class Secp256k1Strategy implements CryptoStrategy<'secp256k1'> {
   readonly keyType = 'secp256k1' as const;
 
   constructor(private readonly secp256k1Service: Secp256k1Service) {}
 
-  getPrivateKeyFromSeed(seed: Uint8Array): Promise<Uint8Array> {
-    return this.secp256k1Service.privateKeyFromSeed(seed);
+  getPrivateKeyFromSeed(seed: Uint8Array, derivationPath?: string): Promise<Uint8Array> {
+    return this.secp256k1Service.privateKeyFromSeed(seed, derivationPath);
   }
 
   getPublicKey(privateKey: Uint8Array): Promise<Uint8Array> {
     return this.secp256k1Service.getPublicKey(privateKey);
   }
 
-  // This strategy expects a 32-byte digest, which it passes to the service.
-  async sign(privateKey: Uint8Array, digest: Uint8Array): Promise<Uint8Array> {
-    const hexSignature = await this.secp256k1Service.sign(digest, privateKey);
+  // In raw-digest mode, this strategy expects a 32-byte digest, which it passes to the service.
+  // Otherwise, the payload is hashed here following EIP-191 or EIP-712 first.
+  async sign(
+    privateKey: Uint8Array,
+    payload: Uint8Array,
+    signingMode: SigningMode = 'raw-digest',
+    signatureFormat: SignatureFormat = 'raw'
+  ): Promise<Uint8Array> {
+    if (signatureFormat !== 'raw') {
+      throw new Error(`Signature format ${signatureFormat} is not supported for secp256k1 keys`);
+    }
+    const hexSignature = await this.secp256k1Service.sign(
+      this.digest(payload, signingMode),
+      privateKey
+    );
     return hexToBytes(hexSignature);
   }
 
+  private digest(payload: Uint8Array, signingMode: SigningMode): Uint8Array {
+    switch (signingMode) {
+      case 'raw-digest':
+        return payload;
+      case 'personal-message':
+        return hashPersonalMessage(payload);
+      case 'typed-data-v4': {
+        let json: unknown;
+        try {
+          json = JSON.parse(new TextDecoder().decode(payload));
+        } catch {
+          throw new Error('Typed data payload must be UTF-8 encoded JSON');
+        }
+        return hashTypedData(typedDataSchema.parse(json));
+      }
+      default:
+        throw new Error(`Unsupported signing mode: ${signingMode}`);
+    }
+  }
+
   formatPublicKey(publicKey: Uint8Array): PublicKey<'secp256k1'> {
     return { bytes: `0x${toHex(publicKey)}`, encoding: 'hex', keyType: 'secp256k1' };
   }
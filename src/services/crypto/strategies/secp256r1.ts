@@ -0,0 +1,45 @@
+import type { CryptoStrategy, PublicKey, Signature } from '../crypto-key-strategy';
+import type { Secp256r1Service } from '../algorithms/secp256r1';
+import type { SignatureFormat, SigningMode } from '../../communications/schemas';
+import { toHex } from 'ethereum-cryptography/utils';
+
+export class Secp256r1Strategy implements CryptoStrategy<'secp256r1'> {
+  readonly keyType = 'secp256r1' as const;
+
+  constructor(private readonly secp256r1Service: Secp256r1Service) {}
+
+  async getPrivateKeyFromSeed(seed: Uint8Array, derivationPath?: string): Promise<Uint8Array> {
+    if (derivationPath != null) {
+      throw new Error('Derivation paths are not supported for secp256r1 keys');
+    }
+    return this.secp256r1Service.privateKeyFromSeed(seed);
+  }
+
+  getPublicKey(privateKey: Uint8Array): Promise<Uint8Array> {
+    return this.secp256r1Service.getPublicKey(privateKey);
+  }
+
+  // Like secp256k1, this strategy expects a 32-byte digest. It returns a raw (r || s) signature,
+  // or an ASN.1 DER one for verifiers that expect it, such as OpenSSL and Java.
+  async sign(
+    privateKey: Uint8Array,
+    digest: Uint8Array,
+    signingMode: SigningMode = 'raw-digest',
+    signatureFormat: SignatureFormat = 'raw'
+  ): Promise<Uint8Array> {
+    if (signingMode !== 'raw-digest') {
+      throw new Error(`Signing mode ${signingMode} is not supported for secp256r1 keys`);
+    }
+    return signatureFormat === 'der'
+      ? this.secp256r1Service.signDer(digest, privateKey)
+      : this.secp256r1Service.sign(digest, privateKey);
+  }
+
+  formatPublicKey(publicKey: Uint8Array): PublicKey<'secp256r1'> {
+    return { bytes: `0x${toHex(publicKey)}`, encoding: 'hex', keyType: 'secp256r1' };
+  }
+
+  formatSignature(signature: Uint8Array): Signature<'secp256r1'> {
+    return { bytes: `0x${toHex(signature)}`, encoding: 'hex', keyType: 'secp256r1' };
+  }
+}
@@ -1,5 +1,7 @@
 import { expect, describe, it, beforeEach, vi } from 'vitest';
+import { CipherSuite } from '@hpke/core';
 import { EncryptionService } from './encryption';
+import { InMemoryStore } from '../storage/in-memory-store';
 import type { AttestationService } from './attestation';
 import { IDENTITY_STORAGE_KEY } from './encryption-consts';
 
@@ -352,4 +354,56 @@ describe('EncryptionService', () => {
       }
     });
   });
+
+  describe('attested TEE public key changes', () => {
+    let attestedPublicKey: string | null;
+    let service: EncryptionService;
+    const suite = () => vi.mocked(CipherSuite).mock.results.at(-1)?.value;
+
+    beforeEach(async () => {
+      attestedPublicKey = 'AAAA';
+      const attestation = {
+        getAttestedPublicKey: async () => {
+          if (attestedPublicKey == null) {
+            throw new Error('Attestation service has not been initialized!');
+          }
+          return attestedPublicKey;
+        },
+      } as unknown as AttestationService;
+      vi.spyOn(globalThis.crypto.subtle, 'deriveKey').mockImplementation(async () =>
+        globalThis.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['decrypt'])
+      );
+      service = new EncryptionService(new InMemoryStore(), attestation);
+      await service.init();
+    });
+
+    it('should seal to the new key once the attested key is replaced', async () => {
+      await service.encrypt({ message: 'first' });
+      const aesKey = await service.getAES256EncryptionKey();
+      expect(suite().createSenderContext).toHaveBeenCalledTimes(1);
+
+      attestedPublicKey = 'BBBB';
+      await service.encrypt({ message: 'second' });
+
+      expect(suite().createSenderContext).toHaveBeenCalledTimes(2);
+      expect(await service.getAES256EncryptionKey()).not.toEqual(aesKey);
+    });
+
+    it('should refuse to encrypt once the attested key is revoked', async () => {
+      await service.encrypt({ message: 'first' });
+
+      attestedPublicKey = null;
+
+      await expect(service.encrypt({ message: 'second' })).rejects.toThrow(
+        'Attestation service has not been initialized!'
+      );
+      await expect(service.encryptBase64({ message: 'second' })).rejects.toThrow(
+        'Attestation service has not been initialized!'
+      );
+      await expect(service.getAES256EncryptionKey()).rejects.toThrow(
+        'Attestation service has not been initialized!'
+      );
+      expect(() => service.assertInitialized()).toThrow('EncryptionService not initialized');
+    });
+  });
 });
@@ -17,7 +17,7 @@ import {
 } from './encryption-consts';
 
 import { encodeBytes, decodeBytes } from '../common/utils';
-import { ENCRYPTION_KEYS_STORE_NAME, type IndexedDBAdapter } from '../storage';
+import { ENCRYPTION_KEYS_STORE_NAME, wipeItem, type KeyValueStore } from '../storage';
 
 export class EncryptionService extends CrossmintFrameService {
   name = 'Encryption service';
@@ -25,7 +25,7 @@ export class EncryptionService extends CrossmintFrameService {
   private attestationService: AttestationService | null = null;
 
   constructor(
-    private readonly indexedDB: IndexedDBAdapter,
+    private readonly storage: KeyValueStore,
     attestationService?: AttestationService,
     private readonly suite = new CipherSuite({
       kem: new DhkemP256HkdfSha256(),
@@ -34,7 +34,9 @@ export class EncryptionService extends CrossmintFrameService {
     }),
     private ephemeralKeyPair: CryptoKeyPair | null = null,
     private senderContext: SenderContext | null = null,
-    private aes256EncryptionKey: CryptoKey | null = null
+    private aes256EncryptionKey: CryptoKey | null = null,
+    // Attested TEE public key the sender context and AES256 key were derived for
+    private teePublicKey: string | null = null
   ) {
     super();
     if (attestationService) {
@@ -57,8 +59,7 @@ export class EncryptionService extends CrossmintFrameService {
     try {
       this.assertAttestationService();
       await this.initEphemeralKeyPair();
-      await this.initSenderContext();
-      await this.initSymmetricEncryptionKey();
+      await this.syncWithAttestedKey();
     } catch (error) {
       throw new Error('Encryption initialization failed');
     }
@@ -71,47 +72,96 @@ export class EncryptionService extends CrossmintFrameService {
   }
 
   async initEphemeralKeyPair(): Promise<void> {
-    const existingKeyPair = await this.initFromIndexedDB();
+    const existingKeyPair = await this.initFromStorage();
     if (existingKeyPair) {
       this.ephemeralKeyPair = existingKeyPair;
     } else {
       this.ephemeralKeyPair = await this.generateKeyPair();
-      await this.saveKeyPairToIndexedDB();
+      await this.saveKeyPairToStorage();
     }
   }
 
-  private async initFromIndexedDB(): Promise<CryptoKeyPair | null> {
+  /**
+   * Deletes the persisted key pair and replaces it with a fresh one, so that the frame can onboard
+   * again without being linked to the previous identity.
+   *
+   * @returns Whether a key pair was stored
+   * @throws {Error} When the key pair could not be deleted from storage
+   */
+  async resetKeyPair(): Promise<boolean> {
+    const existed = await wipeItem(this.storage, ENCRYPTION_KEYS_STORE_NAME, IDENTITY_STORAGE_KEY);
+    this.ephemeralKeyPair = null;
+    this.clearTeeContexts();
+
+    await this.initEphemeralKeyPair();
+    await this.syncWithAttestedKey();
+    return existed;
+  }
+
+  private async initFromStorage(): Promise<CryptoKeyPair | null> {
     try {
-      return await this.indexedDB.getItem<CryptoKeyPair>(
+      return await this.storage.getItem<CryptoKeyPair>(
         ENCRYPTION_KEYS_STORE_NAME,
         IDENTITY_STORAGE_KEY
       );
     } catch (error: unknown) {
-      this.logError(`Error initializing from IndexedDB: ${error}`);
+      this.logError(`Error initializing from storage: ${error}`);
       return null;
     }
   }
 
-  private async initSenderContext() {
-    const recipientPublicKey = await this.getTeePublicKey();
-    this.senderContext = await this.suite.createSenderContext({
+  /**
+   * Derives the sender context and AES256 key again when the attested TEE public key changed, as
+   * verifying the attestation again may replace or revoke it.
+   *
+   * @throws {Error} When no TEE public key is attested, after clearing both
+   */
+  private async syncWithAttestedKey(): Promise<void> {
+    if (!this.ephemeralKeyPair) {
+      throw new Error('EncryptionService not initialized');
+    }
+    let attestedPublicKey: string;
+    try {
+      attestedPublicKey = await this.assertAttestationService().getAttestedPublicKey();
+    } catch (error) {
+      this.clearTeeContexts();
+      throw error;
+    }
+    if (attestedPublicKey === this.teePublicKey) {
+      return;
+    }
+
+    const recipientPublicKey = await this.suite.kem.deserializePublicKey(
+      this.base64ToBuffer(attestedPublicKey)
+    );
+    const senderContext = await this.suite.createSenderContext({
       recipientPublicKey,
     });
+    const aes256EncryptionKey = await this.deriveAES256EncryptionKey(recipientPublicKey);
+    this.senderContext = senderContext;
+    this.aes256EncryptionKey = aes256EncryptionKey;
+    this.teePublicKey = attestedPublicKey;
+  }
+
+  private clearTeeContexts() {
+    this.senderContext = null;
+    this.aes256EncryptionKey = null;
+    this.teePublicKey = null;
   }
 
-  private async saveKeyPairToIndexedDB(): Promise<void> {
+  private async saveKeyPairToStorage(): Promise<void> {
     if (!this.ephemeralKeyPair) {
       throw new Error('Encryption key pair not initialized');
     }
 
     try {
-      await this.indexedDB.setItem(
+      await this.storage.setItem(
         ENCRYPTION_KEYS_STORE_NAME,
         IDENTITY_STORAGE_KEY,
         this.ephemeralKeyPair
       );
     } catch (error) {
-      this.logError(`Failed to save key pair to IndexedDB: ${error}`);
+      this.logError(`Failed to save key pair to storage: ${error}`);
       throw new Error('Failed to persist encryption keys');
     }
   }
@@ -135,11 +185,13 @@ export class EncryptionService extends CrossmintFrameService {
    * @param data - Data object to encrypt
    * @returns Promise resolving to encryption result with ciphertext and encapsulated key
    * @throws {Error} When encryption service is not initialized
+   * @throws {Error} When no TEE public key is attested
    * @throws {Error} When encryption operation fails
    */
   async encrypt<T extends Record<string, unknown>>(
     data: T
   ): Promise<EncryptionResult<ArrayBuffer>> {
+    await this.syncWithAttestedKey();
     this.assertInitialized();
     const { ephemeralKeyPair, senderContext } = {
       ephemeralKeyPair: this.ephemeralKeyPair as NonNullable<typeof this.ephemeralKeyPair>,
@@ -232,16 +284,10 @@ export class EncryptionService extends CrossmintFrameService {
 
   // Key derivation
 
-  private async deriveAES256EncryptionKey(): Promise<CryptoKey> {
-    this.assertInitialized();
+  private async deriveAES256EncryptionKey(recipientPublicKey: CryptoKey): Promise<CryptoKey> {
     const { ephemeralKeyPair } = {
       ephemeralKeyPair: this.ephemeralKeyPair as NonNullable<typeof this.ephemeralKeyPair>,
     };
-    const attestationService = this.assertAttestationService();
-    const recipientPublicKeyBuffer = await attestationService
-      .getAttestedPublicKey()
-      .then(this.base64ToBuffer);
-    const recipientPublicKey = await this.suite.kem.deserializePublicKey(recipientPublicKeyBuffer);
     return crypto.subtle.deriveKey(
       {
         name: 'ECDH',
@@ -273,29 +319,21 @@ export class EncryptionService extends CrossmintFrameService {
    *
    * @returns Promise resolving to Uint8Array containing the raw AES256 key bytes (32 bytes)
    * @throws {Error} When AES256 encryption key has not been initialized
+   * @throws {Error} When no TEE public key is attested
    * @throws {Error} When key export operation fails
    */
   async getAES256EncryptionKey(): Promise<Uint8Array> {
+    await this.syncWithAttestedKey();
     if (!this.aes256EncryptionKey) {
       throw new Error('AES256 encryption key not initialized');
     }
     return new Uint8Array(await crypto.subtle.exportKey('raw', this.aes256EncryptionKey));
   }
 
-  private async getTeePublicKey() {
-    const attestationService = this.assertAttestationService();
-    const recipientPublicKeyString = await attestationService.getAttestedPublicKey();
-    return await this.suite.kem.deserializePublicKey(this.base64ToBuffer(recipientPublicKeyString));
-  }
-
   private async generateKeyPair(): Promise<CryptoKeyPair> {
     return crypto.subtle.generateKey(ECDH_KEY_SPEC, true, IDENTITY_KEY_PERMISSIONS);
   }
 
-  private async initSymmetricEncryptionKey() {
-    this.aes256EncryptionKey = await this.deriveAES256EncryptionKey();
-  }
-
   // Serialization
 
   private serialize<T extends Record<string, unknown>>(data: T): ArrayBuffer {
@@ -1,6 +1,7 @@
 import { CrossmintFrameService } from '../service';
 import { FF1 } from '@noble/ciphers/ff1';
 import type { EncryptionService } from './encryption';
+import { constantTimeEqual } from '../common/utils';
 type FPEEncryptionOptions = {
   radix: number;
   tweak?: Uint8Array;
@@ -35,8 +36,7 @@ export class FPEService extends CrossmintFrameService {
     if (data.some(d => d >= this.options.radix)) {
       throw new Error('Data contains values greater than the radix');
     }
-    this.assertInitialized();
-    const ff1 = this.ff1 as NonNullable<typeof this.ff1>;
+    const ff1 = await this.getFF1();
     return ff1.encrypt(data);
   }
 
@@ -44,11 +44,22 @@ export class FPEService extends CrossmintFrameService {
     if (data.some(d => d >= this.options.radix)) {
       throw new Error('Data contains values greater than the radix');
     }
-    this.assertInitialized();
-    const ff1 = this.ff1 as NonNullable<typeof this.ff1>;
+    const ff1 = await this.getFF1();
     return ff1.decrypt(data);
   }
 
+  // The AES256 key follows the attested TEE public key, which verifying the attestation again may
+  // replace after init
+  private async getFF1(): Promise<ReturnType<typeof FF1>> {
+    this.assertInitialized();
+    const encryptionKey = await this.encryptionService.getAES256EncryptionKey();
+    if (this.encryptionKey == null || !constantTimeEqual(encryptionKey, this.encryptionKey)) {
+      this.encryptionKey = encryptionKey;
+      this.ff1 = FF1(this.options.radix, encryptionKey, this.options.tweak);
+    }
+    return this.ff1 as NonNullable<typeof this.ff1>;
+  }
+
   private assertInitialized() {
     if (!this.ff1) {
       throw new Error('FPEService not initialized');
@@ -1,16 +1,26 @@
 import { CrossmintApiService } from './api';
 import { EventsService } from './communications/events';
 import { AttestationService } from './tee/attestation';
+import type { CollateralSource } from './tee/collateral';
+import type { TrustPolicy } from './tee/trust-policy';
+import type { OsImageMeasurements } from './tee/measurements';
+import type { TcbPolicy } from './tee/tcb-policy';
 import { EncryptionService } from './encryption';
 import { Ed25519Service } from './crypto/algorithms/ed25519';
 import { ShardingService } from './user/sharding';
 import type { CrossmintFrameService } from './service';
 import { FPEService } from './encryption/fpe';
 import { Secp256k1Service } from './crypto/algorithms/secp256k1';
+import { Secp256r1Service } from './crypto/algorithms/secp256r1';
 import { CryptoKeyService } from './crypto/crypto-key';
 import { AuthShareCache } from './storage/auth-share-cache';
 import { DeviceService } from './user/device';
-import { IndexedDBAdapter } from './storage';
+import { SignerRegistryService } from './user/signer-registry';
+import { createKeyValueStore, type KeyValueStore } from './storage';
+import { TransactionService } from './transactions';
+import { PolicyService } from './policy';
+import { SessionKeyService } from './session';
+import { ConfirmationService } from './confirmation';
 
 /**
  * Services index - Export all services
@@ -26,30 +36,84 @@ export type CrossmintFrameServices = {
   attestation: AttestationService;
   ed25519: Ed25519Service;
   secp256k1: Secp256k1Service;
+  secp256r1: Secp256r1Service;
   fpe: FPEService;
   cryptoKey: CryptoKeyService;
   device: DeviceService;
-  storage: IndexedDBAdapter;
+  storage: KeyValueStore;
+  transactions: TransactionService;
+  policy: PolicyService;
+  signers: SignerRegistryService;
+  sessions: SessionKeyService;
+  confirmation: ConfirmationService;
 };
 
-const EXPECTED_PHALA_APP_ID = 'df4f0ec61f92a8eec754593da9ea9cd939985e9c';
+// TEE builds trusted by this frame release. Signed policies served with the attestation can add
+// or retire builds in between, when a signing key is configured.
+const TEE_TRUST_POLICY: TrustPolicy = {
+  version: 1,
+  builds: [{ appId: 'df4f0ec61f92a8eec754593da9ea9cd939985e9c' }],
+};
 
-export const createCrossmintFrameServices = () => {
+/**
+ * @param options.storage - Storage backend for all persisted state. Defaults to the most durable
+ * backend available in this browsing context.
+ * @param options.attestationMaxAgeMs - How long a verified TEE attestation is reused before being
+ * verified again, at most. Defaults to a day.
+ * @param options.collateralSources - Where to get the collateral TEE quotes are verified against,
+ * in order of preference. Defaults to the collateral Crossmint serves, then Phala's PCCS.
+ * @param options.trustPolicySigningKey - Hex encoded P-256 public key that signs TEE trust policy
+ * updates. Without it, only the trust policy pinned in the frame is used.
+ * @param options.osImageMeasurements - Known-good MRTD and RTMR0-2 values of the DStack OS images
+ * the TEE may boot. Without them, only the application measured in RTMR3 is verified.
+ * @param options.tcbPolicy - TCB statuses and Intel advisories accepted besides `UpToDate`, and the
+ * grace period of `OutOfDate` platforms. Defaults to accepting `UpToDate` platforms only.
+ * @param options.allowLegacyReportData - Accept TEE quotes whose report data commits to the public
+ * key only, not to the nonce the frame requested the attestation with, for relays that do not
+ * support nonces yet.
+ */
+export const createCrossmintFrameServices = (
+  options: {
+    storage?: KeyValueStore;
+    attestationMaxAgeMs?: number;
+    collateralSources?: CollateralSource[];
+    trustPolicySigningKey?: string;
+    osImageMeasurements?: OsImageMeasurements[];
+    tcbPolicy?: TcbPolicy;
+    allowLegacyReportData?: boolean;
+  } = {}
+) => {
   const eventsService = new EventsService();
   const ed25519Service = new Ed25519Service();
-  const storageService = new IndexedDBAdapter();
+  const storageService = options.storage ?? createKeyValueStore();
   const encryptionService = new EncryptionService(storageService);
   const secp256k1Service = new Secp256k1Service();
+  const secp256r1Service = new Secp256r1Service();
   const crossmintApiService = new CrossmintApiService(encryptionService);
-  const attestationService = new AttestationService(crossmintApiService, EXPECTED_PHALA_APP_ID);
-  const deviceService = new DeviceService();
+  const attestationService = new AttestationService(
+    crossmintApiService,
+    TEE_TRUST_POLICY,
+    storageService,
+    {
+      maxAgeMs: options.attestationMaxAgeMs,
+      collateralSources: options.collateralSources,
+      trustPolicySigningKey: options.trustPolicySigningKey,
+      osImageMeasurements: options.osImageMeasurements,
+      tcbPolicy: options.tcbPolicy,
+      allowLegacyReportData: options.allowLegacyReportData,
+    }
+  );
+  const deviceService = new DeviceService(storageService);
+  const signerRegistryService = new SignerRegistryService(storageService);
   const shardingService = new ShardingService(
     new AuthShareCache(crossmintApiService),
     deviceService,
-    storageService
+    storageService,
+    signerRegistryService
   );
   const fpeService = new FPEService(encryptionService);
-  const cryptoKeyService = new CryptoKeyService(ed25519Service, secp256k1Service);
+  const policyService = new PolicyService(crossmintApiService, deviceService);
+  const cryptoKeyService = new CryptoKeyService(ed25519Service, secp256k1Service, secp256r1Service);
 
   encryptionService.setAttestationService(attestationService);
 
@@ -59,12 +123,18 @@ export const createCrossmintFrameServices = () => {
     attestation: attestationService,
     ed25519: ed25519Service,
     secp256k1: secp256k1Service,
+    secp256r1: secp256r1Service,
     encrypt: encryptionService,
     api: crossmintApiService,
     sharding: shardingService,
     fpe: fpeService,
     cryptoKey: cryptoKeyService,
     device: deviceService,
+    transactions: new TransactionService(),
+    policy: policyService,
+    signers: signerRegistryService,
+    sessions: new SessionKeyService(cryptoKeyService),
+    confirmation: new ConfirmationService(signerRegistryService),
   } satisfies Record<string, CrossmintFrameService>;
   return services;
 };
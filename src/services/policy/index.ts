@@ -0,0 +1 @@
+export { PolicyService } from './policy';
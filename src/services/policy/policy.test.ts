@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+import type { CrossmintApiService } from '../api';
+import { CrossmintHttpError } from '../api/request';
+import { CrossmintFrameCodedError } from '../api/error';
+import type { DeviceService } from '../user/device';
+import type { TransactionSummary } from '../communications/schemas';
+import { PolicyService } from './policy';
+import type { SigningPolicy, SigningRequest } from './rules';
+
+const TEST_AUTH_DATA = { jwt: 'test-jwt', apiKey: 'test-api-key' };
+const RECIPIENT = '0x8dBcdFE43b9a6326e71378DfCA5e10e25F2C11A4';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+
+const evmTransaction = (...calls: TransactionSummary['calls']): SigningRequest => ({
+  keyType: 'secp256k1',
+  signingMode: 'transaction',
+  transaction: { chain: 'evm', chainId: '1', calls },
+});
+
+const rawDigest: SigningRequest = { keyType: 'secp256k1', signingMode: 'raw-digest' };
+
+describe('PolicyService', () => {
+  const mockApi = mock<CrossmintApiService>();
+  const mockDevice = mock<DeviceService>();
+  let service: PolicyService;
+
+  const withPolicy = (policy: SigningPolicy) => mockApi.getSigningPolicy.mockResolvedValue(policy);
+
+  const expectViolation = async (request: SigningRequest, message: string) => {
+    const result = service.enforce(TEST_AUTH_DATA, request);
+    await expect(result).rejects.toThrow(message);
+    await expect(result).rejects.toBeInstanceOf(CrossmintFrameCodedError);
+    await expect(result).rejects.toHaveProperty('code', 'policy-violation');
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockDevice.getId.mockResolvedValue('test-device-id');
+    service = new PolicyService(mockApi, mockDevice);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow everything when the signer is served an empty policy', async () => {
+    withPolicy({ rules: [] });
+
+    await expect(service.enforce(TEST_AUTH_DATA, rawDigest)).resolves.toBeUndefined();
+    await expect(
+      service.enforce(TEST_AUTH_DATA, evmTransaction({ type: 'contract-deployment' }))
+    ).resolves.toBeUndefined();
+  });
+
+  it('should refuse to sign when no policy is served', async () => {
+    mockApi.getSigningPolicy.mockRejectedValue(new CrossmintHttpError(404, 'Not Found', 'url'));
+
+    await expectViolation(rawDigest, 'No signing policy was served for this signer');
+    await expectViolation(
+      evmTransaction({ type: 'contract-deployment' }),
+      'No signing policy was served for this signer'
+    );
+    expect(mockApi.getSigningPolicy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should propagate API errors other than 404', async () => {
+    mockApi.getSigningPolicy.mockRejectedValue(new CrossmintHttpError(500, 'Error', 'url'));
+
+    await expect(service.enforce(TEST_AUTH_DATA, rawDigest)).rejects.toThrow('HTTP 500');
+  });
+
+  it('should cache policies per device and credentials', async () => {
+    withPolicy({ rules: [] });
+
+    await service.enforce(TEST_AUTH_DATA, rawDigest);
+    await service.enforce(TEST_AUTH_DATA, rawDigest);
+    await service.enforce({ ...TEST_AUTH_DATA, jwt: 'other-jwt' }, rawDigest);
+
+    expect(mockApi.getSigningPolicy).toHaveBeenCalledTimes(2);
+    expect(mockApi.getSigningPolicy).toHaveBeenCalledWith(
+      { deviceId: 'test-device-id' },
+      TEST_AUTH_DATA
+    );
+  });
+
+  it('should refuse opaque payloads when the policy inspects transactions', async () => {
+    withPolicy({ rules: [{ type: 'deny-approvals' }] });
+    await expectViolation(rawDigest, 'Signing mode raw-digest is not allowed');
+
+    service.clearCache();
+    withPolicy({ rules: [{ type: 'deny-approvals' }], allowOpaqueSigning: true });
+    await expect(service.enforce(TEST_AUTH_DATA, rawDigest)).resolves.toBeUndefined();
+  });
+
+  it('should enforce maximum transfer amounts per asset', async () => {
+    withPolicy({
+      rules: [
+        { type: 'max-transfer-amount', chain: 'evm', amount: '100' },
+        { type: 'max-transfer-amount', chain: 'evm', token: TOKEN.toLowerCase(), amount: '50' },
+      ],
+    });
+    const nativeTransfer = (amount: string) => ({
+      type: 'native-transfer' as const,
+      to: RECIPIENT,
+      recipient: RECIPIENT,
+      amount,
+    });
+    const tokenTransfer = (amount: string) => ({
+      type: 'token-transfer' as const,
+      to: TOKEN,
+      token: TOKEN,
+      recipient: RECIPIENT,
+      amount,
+    });
+
+    await expect(
+      service.enforce(TEST_AUTH_DATA, evmTransaction(nativeTransfer('100'), tokenTransfer('50')))
+    ).resolves.toBeUndefined();
+    await expectViolation(
+      evmTransaction(nativeTransfer('60'), nativeTransfer('41')),
+      'Transfer amount 101 exceeds the maximum of 100'
+    );
+    await expectViolation(
+      evmTransaction(tokenTransfer('51')),
+      'Transfer amount 51 exceeds the maximum of 50'
+    );
+    await expectViolation(
+      evmTransaction({ type: 'contract-call', to: TOKEN, amount: '101' }),
+      'Transfer amount 101 exceeds the maximum of 100'
+    );
+    // e.g. increaseAllowance or permit, which the frame does not decode
+    await expectViolation(
+      evmTransaction({ type: 'contract-call', to: TOKEN }),
+      `Calls to token ${TOKEN.toLowerCase()} that could not be decoded are not allowed`
+    );
+  });
+
+  it('should count token transfers of an unknown mint towards every token limit', async () => {
+    const MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+    withPolicy({
+      rules: [{ type: 'max-transfer-amount', chain: 'solana', token: MINT, amount: '50' }],
+    });
+    const solanaTransaction = (...calls: TransactionSummary['calls']): SigningRequest => ({
+      keyType: 'ed25519',
+      signingMode: 'transaction',
+      transaction: { chain: 'solana', feePayer: 'payer', calls },
+    });
+
+    // A plain SPL Transfer does not name its mint, unlike TransferChecked
+    await expectViolation(
+      solanaTransaction({
+        type: 'token-transfer',
+        to: 'TokenProgram',
+        recipient: 'ata',
+        amount: '51',
+      }),
+      'Transfer amount 51 exceeds the maximum of 50'
+    );
+    await expectViolation(
+      solanaTransaction(
+        { type: 'token-transfer', to: 'TokenProgram', recipient: 'ata', amount: '30', token: MINT },
+        { type: 'token-transfer', to: 'TokenProgram', recipient: 'ata', amount: '30' }
+      ),
+      'Transfer amount 60 exceeds the maximum of 50'
+    );
+    await expect(
+      service.enforce(
+        TEST_AUTH_DATA,
+        solanaTransaction({
+          type: 'token-transfer',
+          to: 'TokenProgram',
+          recipient: 'ata',
+          amount: '51',
+          token: 'OtherMint',
+        })
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it('should only allow listed destinations and programs', async () => {
+    withPolicy({
+      rules: [
+        { type: 'allowed-destinations', chain: 'evm', addresses: [TOKEN, RECIPIENT.toLowerCase()] },
+        { type: 'allowed-programs', programIds: [SYSTEM_PROGRAM_ID] },
+      ],
+    });
+
+    await expect(
+      service.enforce(
+        TEST_AUTH_DATA,
+        evmTransaction({ type: 'token-transfer', to: TOKEN, recipient: RECIPIENT, amount: '1' })
+      )
+    ).resolves.toBeUndefined();
+    await expectViolation(
+      evmTransaction({ type: 'contract-call', to: SYSTEM_PROGRAM_ID }),
+      `Destination ${SYSTEM_PROGRAM_ID} is not allowed`
+    );
+    await expectViolation(
+      evmTransaction({ type: 'contract-deployment' }),
+      'Contract deployments are not allowed'
+    );
+    await expectViolation(
+      {
+        keyType: 'ed25519',
+        signingMode: 'transaction',
+        transaction: {
+          chain: 'solana',
+          feePayer: 'payer',
+          calls: [
+            { type: 'native-transfer', to: SYSTEM_PROGRAM_ID, recipient: 'recipient', amount: '1' },
+            { type: 'contract-call', to: 'UnknownProgram' },
+          ],
+        },
+      },
+      'Program UnknownProgram is not allowed'
+    );
+  });
+
+  it('should refuse token approvals when denied', async () => {
+    withPolicy({ rules: [{ type: 'deny-approvals' }] });
+
+    await expectViolation(
+      evmTransaction({ type: 'token-approval', to: TOKEN, token: TOKEN, recipient: RECIPIENT }),
+      'Token approvals are not allowed'
+    );
+  });
+
+  it('should rate limit signatures per origin over a sliding window', async () => {
+    vi.useFakeTimers();
+    withPolicy({ rules: [{ type: 'rate-limit', maxRequests: 2, windowSeconds: 60 }] });
+
+    await service.enforce(TEST_AUTH_DATA, rawDigest);
+    await service.enforce(TEST_AUTH_DATA, rawDigest);
+    await expectViolation(rawDigest, 'Rate limit of 2 signatures per 60s exceeded');
+
+    vi.advanceTimersByTime(60_000);
+    await expect(service.enforce(TEST_AUTH_DATA, rawDigest)).resolves.toBeUndefined();
+  });
+});
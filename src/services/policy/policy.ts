@@ -0,0 +1,139 @@
+import { CrossmintFrameService } from '../service';
+import type { CrossmintApiService } from '../api';
+import type { AuthData } from '../api/request';
+import { CrossmintHttpError } from '../api/request';
+import { CrossmintFrameCodedError } from '../api/error';
+import type { DeviceService } from '../user/device';
+import {
+  evaluateRule,
+  inspectsTransactions,
+  type RateLimitRule,
+  type SigningPolicy,
+  type SigningRequest,
+} from './rules';
+
+interface SigningPolicyCacheEntry {
+  policy: SigningPolicy;
+  timestamp: number;
+}
+
+/**
+ * Enforces the signing policy of the authenticated signer before any key is used.
+ *
+ * Policies are fetched from the Crossmint API and cached in memory for 5 minutes, isolated by
+ * device ID, API key and JWT like the auth share cache. Signers without a configured policy are
+ * served an empty one, so that "no policy" is as authenticated as any other policy: a missing
+ * policy refuses every request instead of allowing everything. Rate limits are counted per parent
+ * origin, as given by the `targetOrigin` URL parameter.
+ */
+export class PolicyService extends CrossmintFrameService {
+  name = 'Policy Service';
+  log_prefix = '[PolicyService]';
+
+  private policyCache = new Map<string, SigningPolicyCacheEntry>();
+  private requestTimestamps = new Map<string, number[]>();
+  private origin = '*';
+
+  constructor(
+    private readonly api: CrossmintApiService,
+    private readonly deviceService: DeviceService,
+    private readonly CACHE_TTL_MS = 5 * 60 * 1000
+  ) {
+    super();
+  }
+
+  async init() {
+    this.origin = new URLSearchParams(window.location.search).get('targetOrigin') ?? '*';
+  }
+
+  /**
+   * Checks a signing request against the signer's policy.
+   *
+   * @param authData - Authentication credentials of the signer
+   * @param request - What is about to be signed
+   * @throws {CrossmintFrameCodedError} With code `policy-violation` when the request is refused
+   */
+  async enforce(authData: AuthData, request: SigningRequest): Promise<void> {
+    const policy = await this.getPolicy(authData);
+
+    if (request.transaction == null) {
+      const allowOpaqueSigning =
+        policy.allowOpaqueSigning ?? !policy.rules.some(inspectsTransactions);
+      if (!allowOpaqueSigning) {
+        this.violation(
+          `Signing mode ${request.signingMode} is not allowed, only parsed transactions can be signed`
+        );
+      }
+    }
+
+    for (const rule of policy.rules) {
+      const violation = evaluateRule(rule, request);
+      if (violation != null) {
+        this.violation(violation);
+      }
+    }
+
+    // Rate limits are only counted once every other rule has passed
+    const rateLimits = policy.rules.filter(
+      (rule): rule is RateLimitRule => rule.type === 'rate-limit'
+    );
+    if (rateLimits.length > 0) {
+      this.consumeRateLimits(rateLimits);
+    }
+  }
+
+  public clearCache(): void {
+    this.policyCache.clear();
+  }
+
+  private async getPolicy(authData: AuthData): Promise<SigningPolicy> {
+    const deviceId = await this.deviceService.getId();
+    const cacheKey = `${deviceId}-${authData.apiKey}-${authData.jwt}`;
+
+    const cached = this.policyCache.get(cacheKey);
+    if (cached != null && Date.now() - cached.timestamp < this.CACHE_TTL_MS) {
+      return cached.policy;
+    }
+
+    let policy: SigningPolicy;
+    try {
+      this.log('Fetching signing policy from API');
+      policy = await this.api.getSigningPolicy({ deviceId }, authData);
+    } catch (e) {
+      // Anything between the frame and the TEE can answer 404, so it must not lift every rule
+      if (e instanceof CrossmintHttpError && e.status === 404) {
+        this.violation('No signing policy was served for this signer');
+      }
+      throw e;
+    }
+
+    this.policyCache.set(cacheKey, { policy, timestamp: Date.now() });
+    return policy;
+  }
+
+  private consumeRateLimits(rules: RateLimitRule[]): void {
+    const now = Date.now();
+    const longestWindowMs = Math.max(...rules.map(rule => rule.windowSeconds * 1000));
+    const timestamps = (this.requestTimestamps.get(this.origin) ?? []).filter(
+      timestamp => now - timestamp < longestWindowMs
+    );
+
+    for (const rule of rules) {
+      const count = timestamps.filter(t => now - t < rule.windowSeconds * 1000).length;
+      if (count >= rule.maxRequests) {
+        this.requestTimestamps.set(this.origin, timestamps);
+        this.violation(
+          `Rate limit of ${rule.maxRequests} signatures per ${rule.windowSeconds}s exceeded for ${this.origin}`
+        );
+      }
+    }
+
+    timestamps.push(now);
+    this.requestTimestamps.set(this.origin, timestamps);
+  }
+
+  private violation(message: string): never {
+    this.logError(`Signing request refused: ${message}`);
+    throw new CrossmintFrameCodedError(message, 'policy-violation');
+  }
+}
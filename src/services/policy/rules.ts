@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import type {
+  KeyType,
+  SigningMode,
+  TransactionCall,
+  TransactionSummary,
+} from '../communications/schemas';
+
+const chainSchema = z.enum(['solana', 'evm']);
+const amountSchema = z.string().regex(/^\d+$/, 'Amount must be a decimal string');
+
+const maxTransferAmountRuleSchema = z.object({
+  type: z.literal('max-transfer-amount'),
+  chain: chainSchema,
+  token: z
+    .string()
+    .optional()
+    .describe(
+      'Token contract or mint. Absent for the native currency. Calls to the token contract that ' +
+        'could not be decoded are refused'
+    ),
+  amount: amountSchema.describe('Maximum amount per transaction, in base units'),
+});
+
+const allowedDestinationsRuleSchema = z.object({
+  type: z.literal('allowed-destinations'),
+  chain: chainSchema,
+  addresses: z
+    .array(z.string())
+    .describe(
+      'Recipients, and for EVM contracts, that transactions may interact with. Solana token ' +
+        'transfers are checked on their destination token account'
+    ),
+});
+
+const allowedProgramsRuleSchema = z.object({
+  type: z.literal('allowed-programs'),
+  programIds: z.array(z.string()).describe('Solana programs that transactions may invoke'),
+});
+
+const denyApprovalsRuleSchema = z.object({
+  type: z.literal('deny-approvals'),
+});
+
+const rateLimitRuleSchema = z.object({
+  type: z.literal('rate-limit'),
+  maxRequests: z.number().int().positive(),
+  windowSeconds: z.number().int().positive(),
+});
+
+export const signingPolicyRuleSchema = z.discriminatedUnion('type', [
+  maxTransferAmountRuleSchema,
+  allowedDestinationsRuleSchema,
+  allowedProgramsRuleSchema,
+  denyApprovalsRuleSchema,
+  rateLimitRuleSchema,
+]);
+
+export const signingPolicySchema = z.object({
+  rules: z.array(signingPolicyRuleSchema),
+  allowOpaqueSigning: z
+    .boolean()
+    .optional()
+    .describe(
+      'Whether payloads that are not parsed transactions may be signed. Defaults to true unless ' +
+        'the policy has rules that inspect transactions'
+    ),
+});
+
+export type SigningPolicy = z.infer<typeof signingPolicySchema>;
+export type SigningPolicyRule = z.infer<typeof signingPolicyRuleSchema>;
+export type RateLimitRule = z.infer<typeof rateLimitRuleSchema>;
+
+export type SigningRequest = {
+  keyType: KeyType;
+  signingMode: SigningMode;
+  transaction?: TransactionSummary;
+};
+
+/**
+ * Checks a signing request against a stateless policy rule. Rate limits are stateful and are
+ * enforced by the PolicyService instead.
+ *
+ * @returns A description of the violation, or null when the request complies with the rule
+ */
+export function evaluateRule(rule: SigningPolicyRule, request: SigningRequest): string | null {
+  const { transaction } = request;
+  if (rule.type === 'rate-limit' || transaction == null) {
+    return null;
+  }
+
+  switch (rule.type) {
+    case 'max-transfer-amount': {
+      if (transaction.chain !== rule.chain) {
+        return null;
+      }
+      const { token } = rule;
+      // Calls to the token that could not be decoded, like increaseAllowance or permit, may move
+      // any amount of it
+      if (
+        token != null &&
+        transaction.calls.some(
+          call => call.type === 'contract-call' && sameAddress(token, call.to, rule.chain)
+        )
+      ) {
+        return `Calls to token ${token} that could not be decoded are not allowed`;
+      }
+      const total = transferredAmount(transaction, rule.chain, token);
+      return total > BigInt(rule.amount)
+        ? `Transfer amount ${total} exceeds the maximum of ${rule.amount}`
+        : null;
+    }
+    case 'allowed-destinations': {
+      if (transaction.chain !== rule.chain) {
+        return null;
+      }
+      for (const call of transaction.calls) {
+        if (call.type === 'contract-deployment') {
+          return 'Contract deployments are not allowed';
+        }
+        if (call.type !== 'contract-call' && call.recipient == null) {
+          return 'Transaction destination could not be resolved';
+        }
+        // Solana programs are covered by the allowed-programs rule
+        const destinations = rule.chain === 'evm' ? [call.to, call.recipient] : [call.recipient];
+        const disallowed = destinations.find(
+          address =>
+            address != null &&
+            !rule.addresses.some(allowed => sameAddress(allowed, address, rule.chain))
+        );
+        if (disallowed != null) {
+          return `Destination ${disallowed} is not allowed`;
+        }
+      }
+      return null;
+    }
+    case 'allowed-programs': {
+      if (transaction.chain !== 'solana') {
+        return null;
+      }
+      const call = transaction.calls.find(
+        call => call.to == null || !rule.programIds.includes(call.to)
+      );
+      return call != null ? `Program ${call.to} is not allowed` : null;
+    }
+    case 'deny-approvals':
+      return transaction.calls.some(call => call.type === 'token-approval')
+        ? 'Token approvals are not allowed'
+        : null;
+  }
+}
+
+/**
+ * Whether the rule can only be enforced on parsed transactions.
+ */
+export function inspectsTransactions(rule: SigningPolicyRule): boolean {
+  return rule.type !== 'rate-limit';
+}
+
+/**
+ * Total amount of a token, or of the native currency when no token is given, moved by a
+ * transaction on the given chain. Token transfers whose mint is unknown, like plain SPL
+ * `Transfer` instructions, count towards every token.
+ */
+export function transferredAmount(
+  transaction: TransactionSummary,
+  chain: 'solana' | 'evm',
+  token?: string
+): bigint {
+  if (transaction.chain !== chain) {
+    return 0n;
+  }
+  return transaction.calls
+    .filter(call => isTransferOf(call, token, chain))
+    .reduce((sum, call) => sum + BigInt(call.amount ?? 0), 0n);
+}
+
+/**
+ * Total amount of a token approved to spenders by a transaction on the given chain, which they can
+ * transfer once it is signed. Approvals whose mint is unknown, like plain SPL `Approve`
+ * instructions, count towards every token.
+ *
+ * @returns The amount, or null when a matching approval has no amount, like `setApprovalForAll`
+ */
+export function approvedAmount(
+  transaction: TransactionSummary,
+  chain: 'solana' | 'evm',
+  token?: string
+): bigint | null {
+  if (transaction.chain !== chain || token == null) {
+    return 0n;
+  }
+  let total = 0n;
+  for (const call of transaction.calls) {
+    if (call.type !== 'token-approval' || !isOfToken(call, token, chain)) {
+      continue;
+    }
+    if (call.amount == null) {
+      return null;
+    }
+    total += BigInt(call.amount);
+  }
+  return total;
+}
+
+/**
+ * Whether a call transfers or approves a token, or moves the native currency when no token is
+ * given. Calls whose token could not be decoded match every token.
+ */
+export function movesAsset(
+  call: TransactionCall,
+  chain: 'solana' | 'evm',
+  token?: string
+): boolean {
+  return (
+    isTransferOf(call, token, chain) ||
+    (token != null && call.type === 'token-approval' && isOfToken(call, token, chain))
+  );
+}
+
+// Native value is moved by transfers, and on EVM by any call or deployment carrying value
+function isTransferOf(call: TransactionCall, token: string | undefined, chain: 'solana' | 'evm') {
+  return token == null
+    ? call.type === 'native-transfer' ||
+        call.type === 'contract-call' ||
+        call.type === 'contract-deployment'
+    : call.type === 'token-transfer' && isOfToken(call, token, chain);
+}
+
+// Calls whose token could not be decoded may move any token, so they match every one
+function isOfToken(call: TransactionCall, token: string, chain: 'solana' | 'evm') {
+  return call.token == null || sameAddress(token, call.token, chain);
+}
+
+// EVM addresses are compared case-insensitively, since checksum casing is optional
+function sameAddress(a: string, b: string | undefined, chain: 'solana' | 'evm'): boolean {
+  return chain === 'evm' ? a.toLowerCase() === b?.toLowerCase() : a === b;
+}
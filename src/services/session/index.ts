@@ -0,0 +1 @@
+export { SessionKeyService } from './session-keys';
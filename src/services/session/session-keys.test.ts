@@ -0,0 +1,343 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+import { sha256 } from 'ethereum-cryptography/sha256.js';
+import { CryptoKeyService } from '../crypto/crypto-key';
+import type { TransactionSummary } from '../communications/schemas';
+import { SessionKeyService, type SessionDelegation } from './session-keys';
+
+const SIGNER_ID = 'test-signer-id';
+const MASTER_SECRET = new Uint8Array(32).fill(7);
+
+const transfer = (amount: string): TransactionSummary => ({
+  chain: 'evm',
+  chainId: '1',
+  calls: [{ type: 'native-transfer', to: '0xrecipient', recipient: '0xrecipient', amount }],
+});
+
+const isZeroed = (bytes: Uint8Array) => bytes.every(byte => byte === 0);
+
+describe('SessionKeyService', () => {
+  const mockCryptoKey = mock<CryptoKeyService>();
+  let service: SessionKeyService;
+  // Session keys handed out by the mocked derivation
+  let sessionKeys: Uint8Array[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    sessionKeys = [];
+    mockCryptoKey.getPrivateKeyFromSeed.mockImplementation(async (_keyType, seed) => {
+      const privateKey = seed.slice();
+      sessionKeys.push(privateKey);
+      return privateKey;
+    });
+    mockCryptoKey.getPublicKeyFromSeed.mockImplementation(async keyType => ({
+      bytes: `session-${keyType}`,
+      encoding: 'hex',
+      keyType,
+    }));
+    mockCryptoKey.withPrivateKey.mockImplementation(
+      CryptoKeyService.prototype.withPrivateKey.bind(mockCryptoKey)
+    );
+    mockCryptoKey.sign.mockImplementation(async keyType => ({
+      signature: { bytes: `signature-${keyType}`, encoding: 'hex', keyType },
+      publicKey: { bytes: `signer-${keyType}`, encoding: 'hex', keyType },
+    }));
+
+    service = new SessionKeyService(mockCryptoKey);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createSession = (options: Partial<Parameters<SessionKeyService['create']>[2]> = {}) =>
+    service.create(SIGNER_ID, MASTER_SECRET, {
+      keyTypes: ['secp256k1'],
+      expiresInSeconds: 60,
+      allowUnlimited: true,
+      ...options,
+    });
+
+  const signWith = (
+    sessionId: string,
+    request: Partial<Parameters<SessionKeyService['withSessionKey']>[1]> = {}
+  ) =>
+    service.withSessionKey(sessionId, { keyType: 'secp256k1', ...request }, async privateKey =>
+      privateKey.slice()
+    );
+
+  describe('create', () => {
+    it('should have the signer sign the delegation of a new key per key type', async () => {
+      const grant = await createSession({ keyTypes: ['secp256k1', 'ed25519'] });
+
+      expect(grant.sessionKeys).toEqual([
+        { bytes: 'session-secp256k1', encoding: 'hex', keyType: 'secp256k1' },
+        { bytes: 'session-ed25519', encoding: 'hex', keyType: 'ed25519' },
+      ]);
+      expect(grant.expiresAt).toBe(Date.now() + 60_000);
+
+      const delegation: SessionDelegation = JSON.parse(grant.delegation.message);
+      expect(delegation).toEqual({
+        version: 1,
+        sessionId: grant.sessionId,
+        signerId: SIGNER_ID,
+        sessionKeys: grant.sessionKeys,
+        spendLimits: [],
+        expiresAt: grant.expiresAt,
+      });
+
+      const digest = sha256(new TextEncoder().encode(grant.delegation.message));
+      for (const keyType of ['secp256k1', 'ed25519'] as const) {
+        expect(mockCryptoKey.getPrivateKeyFromSeed).toHaveBeenCalledWith(
+          keyType,
+          MASTER_SECRET,
+          undefined
+        );
+        expect(mockCryptoKey.sign).toHaveBeenCalledWith(
+          keyType,
+          expect.any(Uint8Array),
+          digest,
+          'raw-digest'
+        );
+      }
+      expect(grant.delegation.signatures.map(({ publicKey }) => publicKey.bytes)).toEqual([
+        'signer-secp256k1',
+        'signer-ed25519',
+      ]);
+    });
+
+    it('should only create sessions without spend limits when explicitly allowed', async () => {
+      await expect(createSession({ allowUnlimited: undefined })).rejects.toMatchObject({
+        code: 'policy-violation',
+        message: 'Sessions without spend limits must be created with allowUnlimited',
+      });
+      expect(mockCryptoKey.sign).not.toHaveBeenCalled();
+
+      const { sessionId } = await createSession({ allowUnlimited: true });
+      await expect(signWith(sessionId)).resolves.toBeDefined();
+    });
+
+    it('should zero the signer keys but keep the session keys', async () => {
+      await createSession();
+
+      // The session key is derived first, then the signer key that signs the delegation
+      const [sessionKey, signerKey] = sessionKeys;
+      expect(isZeroed(signerKey)).toBe(true);
+      expect(isZeroed(sessionKey)).toBe(false);
+      expect(MASTER_SECRET.every(byte => byte === 7)).toBe(true);
+    });
+
+    it('should zero the session keys when the delegation cannot be signed', async () => {
+      mockCryptoKey.sign.mockRejectedValueOnce(new Error('Signing failed'));
+
+      await expect(createSession()).rejects.toThrow('Signing failed');
+      expect(sessionKeys.every(isZeroed)).toBe(true);
+    });
+  });
+
+  describe('withSessionKey', () => {
+    it('should sign with the session key instead of the signer key', async () => {
+      const { sessionId } = await createSession();
+
+      await expect(signWith(sessionId)).resolves.toEqual(sessionKeys[0]);
+      expect(mockCryptoKey.getPrivateKeyFromSeed).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse unknown sessions', async () => {
+      await expect(signWith('unknown-session')).rejects.toMatchObject({
+        code: 'invalid-session',
+      });
+    });
+
+    it('should refuse sessions of another signer', async () => {
+      const { sessionId } = await createSession();
+
+      await expect(signWith(sessionId, { signerId: 'other-signer' })).rejects.toMatchObject({
+        code: 'invalid-session',
+      });
+      await expect(signWith(sessionId, { signerId: SIGNER_ID })).resolves.toBeDefined();
+    });
+
+    it('should refuse key types and derivation paths outside the session scope', async () => {
+      const { sessionId } = await createSession();
+
+      await expect(signWith(sessionId, { keyType: 'ed25519' })).rejects.toMatchObject({
+        code: 'policy-violation',
+        message: `Session ${sessionId} cannot sign with ed25519 keys`,
+      });
+      await expect(
+        signWith(sessionId, { derivationPath: "m/44'/60'/0'/0/1" })
+      ).rejects.toMatchObject({ code: 'policy-violation' });
+    });
+
+    it('should enforce spend limits over the lifetime of the session', async () => {
+      const { sessionId } = await createSession({
+        spendLimits: [{ chain: 'evm', amount: '100' }],
+      });
+
+      await signWith(sessionId, { transaction: transfer('60') });
+      await expect(signWith(sessionId, { transaction: transfer('50') })).rejects.toMatchObject({
+        code: 'policy-violation',
+        message: 'Transfer amount 50 exceeds the remaining session allowance of 40',
+      });
+      await expect(signWith(sessionId, { transaction: transfer('40') })).resolves.toBeDefined();
+    });
+
+    it('should count token transfers of an unknown mint towards every token limit', async () => {
+      const MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+      const { sessionId } = await createSession({
+        keyTypes: ['ed25519'],
+        spendLimits: [{ chain: 'solana', token: MINT, amount: '100' }],
+      });
+      const splTransfer = (amount: string, token?: string): TransactionSummary => ({
+        chain: 'solana',
+        feePayer: 'payer',
+        calls: [{ type: 'token-transfer', to: 'TokenProgram', recipient: 'ata', amount, token }],
+      });
+
+      await signWith(sessionId, { keyType: 'ed25519', transaction: splTransfer('60', MINT) });
+      // A plain SPL Transfer does not name its mint, unlike TransferChecked
+      await expect(
+        signWith(sessionId, { keyType: 'ed25519', transaction: splTransfer('50') })
+      ).rejects.toMatchObject({
+        code: 'policy-violation',
+        message: 'Transfer amount 50 exceeds the remaining session allowance of 40',
+      });
+    });
+
+    it('should count token approvals towards spend limits', async () => {
+      const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+      const { sessionId } = await createSession({
+        spendLimits: [{ chain: 'evm', token: TOKEN, amount: '100' }],
+      });
+      const approval = (amount?: string): TransactionSummary => ({
+        chain: 'evm',
+        chainId: '1',
+        calls: [
+          { type: 'token-approval', to: TOKEN, token: TOKEN, recipient: '0xspender', amount },
+        ],
+      });
+
+      await signWith(sessionId, { transaction: approval('60') });
+      await expect(signWith(sessionId, { transaction: approval('50') })).rejects.toMatchObject({
+        code: 'policy-violation',
+        message: 'Transfer amount 50 exceeds the remaining session allowance of 40',
+      });
+      await expect(signWith(sessionId, { transaction: approval() })).rejects.toMatchObject({
+        code: 'policy-violation',
+        message: 'Approvals without an amount exceed any session allowance',
+      });
+      await expect(signWith(sessionId, { transaction: approval('40') })).resolves.toBeDefined();
+    });
+
+    it('should refuse assets without a spend limit once any limit is given', async () => {
+      const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+      const OTHER_TOKEN = '0xdAC17F958D2ee523a2206206994597C13D831ec7';
+      const { sessionId } = await createSession({
+        spendLimits: [{ chain: 'evm', token: TOKEN, amount: '100' }],
+      });
+      const tokenTransfer = (token: string): TransactionSummary => ({
+        chain: 'evm',
+        chainId: '1',
+        calls: [
+          { type: 'token-transfer', to: token, token, recipient: '0xrecipient', amount: '1' },
+        ],
+      });
+
+      await expect(signWith(sessionId, { transaction: transfer('1') })).rejects.toMatchObject({
+        code: 'policy-violation',
+        message: 'Session has no spend limit for the native currency, whose allowance is 0',
+      });
+      await expect(
+        signWith(sessionId, { transaction: tokenTransfer(OTHER_TOKEN) })
+      ).rejects.toMatchObject({
+        code: 'policy-violation',
+        message: `Session has no spend limit for ${OTHER_TOKEN}, whose allowance is 0`,
+      });
+      await expect(
+        signWith(sessionId, { transaction: { ...transfer('1'), chain: 'solana' } })
+      ).rejects.toMatchObject({ code: 'policy-violation' });
+      // Calls that move no value are not limited
+      await expect(signWith(sessionId, { transaction: transfer('0') })).resolves.toBeDefined();
+      await expect(
+        signWith(sessionId, { transaction: tokenTransfer(TOKEN) })
+      ).resolves.toBeDefined();
+    });
+
+    it('should give back the allowance when signing fails', async () => {
+      const { sessionId } = await createSession({
+        spendLimits: [{ chain: 'evm', amount: '100' }],
+      });
+
+      await expect(
+        service.withSessionKey(
+          sessionId,
+          { keyType: 'secp256k1', transaction: transfer('100') },
+          async () => {
+            throw new Error('Signing failed');
+          }
+        )
+      ).rejects.toThrow('Signing failed');
+      await expect(signWith(sessionId, { transaction: transfer('100') })).resolves.toBeDefined();
+    });
+
+    it('should only sign parsed transactions when the session has spend limits', async () => {
+      const { sessionId } = await createSession({
+        spendLimits: [{ chain: 'evm', amount: '100' }],
+      });
+
+      await expect(signWith(sessionId)).rejects.toMatchObject({
+        code: 'policy-violation',
+        message: 'Sessions with spend limits can only sign parsed transactions',
+      });
+    });
+  });
+
+  describe('expiry and revocation', () => {
+    it('should end sessions and zero their keys once they expire', async () => {
+      const { sessionId } = await createSession();
+      const [sessionKey] = sessionKeys;
+
+      vi.advanceTimersByTime(60_000);
+
+      expect(isZeroed(sessionKey)).toBe(true);
+      await expect(signWith(sessionId)).rejects.toMatchObject({ code: 'invalid-session' });
+    });
+
+    it('should refuse expired sessions even if the expiry timer has not fired', async () => {
+      const { sessionId } = await createSession();
+
+      vi.setSystemTime(Date.now() + 60_000);
+
+      await expect(signWith(sessionId)).rejects.toMatchObject({ code: 'invalid-session' });
+      expect(isZeroed(sessionKeys[0])).toBe(true);
+    });
+
+    it('should zero the keys of revoked sessions', async () => {
+      const { sessionId } = await createSession();
+
+      expect(service.revoke(sessionId)).toBe(true);
+      expect(service.revoke(sessionId)).toBe(false);
+      expect(isZeroed(sessionKeys[0])).toBe(true);
+      await expect(signWith(sessionId)).rejects.toMatchObject({ code: 'invalid-session' });
+    });
+
+    it('should revoke every session of a signer', async () => {
+      const first = await createSession();
+      const second = await createSession();
+      const other = await service.create('other-signer', MASTER_SECRET, {
+        keyTypes: ['secp256k1'],
+        expiresInSeconds: 60,
+        allowUnlimited: true,
+      });
+
+      expect(service.revokeAll(SIGNER_ID)).toEqual([first.sessionId, second.sessionId]);
+      await expect(signWith(other.sessionId)).resolves.toBeDefined();
+      expect(service.revokeAll()).toEqual([other.sessionId]);
+    });
+  });
+});
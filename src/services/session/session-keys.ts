@@ -0,0 +1,292 @@
+import { sha256 } from 'ethereum-cryptography/sha256.js';
+import { CrossmintFrameService } from '../service';
+import { CrossmintFrameCodedError } from '../api/error';
+import { zeroize } from '../common/utils';
+import type { CryptoKeyService } from '../crypto/crypto-key';
+import type { PublicKey, Signature } from '../crypto/crypto-key-strategy';
+import { approvedAmount, movesAsset, transferredAmount } from '../policy/rules';
+import type { KeyType, SpendLimit, TransactionSummary } from '../communications/schemas';
+
+const SESSION_KEY_SEED_LENGTH = 32;
+
+export type SessionOptions = {
+  keyTypes: KeyType[];
+  expiresInSeconds: number;
+  spendLimits?: SpendLimit[];
+  // Required to create a session without spend limits
+  allowUnlimited?: boolean;
+};
+
+/**
+ * What the signer grants to the session keys. Serialized as JSON, its SHA-256 digest is signed by
+ * the signer key of each allowed key type, so that anyone holding the signer public keys can
+ * check that a session signature was authorized.
+ */
+export type SessionDelegation = {
+  version: 1;
+  sessionId: string;
+  signerId: string;
+  sessionKeys: PublicKey<KeyType>[];
+  spendLimits: SpendLimit[];
+  expiresAt: number;
+};
+
+export type SessionGrant = {
+  sessionId: string;
+  expiresAt: number;
+  sessionKeys: PublicKey<KeyType>[];
+  delegation: {
+    message: string;
+    signatures: { signature: Signature<KeyType>; publicKey: PublicKey<KeyType> }[];
+  };
+};
+
+export type SessionSigningRequest = {
+  keyType: KeyType;
+  signerId?: string;
+  derivationPath?: string;
+  transaction?: TransactionSummary;
+};
+
+type Session = {
+  signerId: string;
+  expiresAt: number;
+  privateKeys: Map<KeyType, Uint8Array>;
+  spendLimits: SpendLimit[];
+  // Amount already transferred or approved, per spend limit
+  spent: bigint[];
+  expiryTimer: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Holds short-lived session keys that sign on behalf of a signer.
+ *
+ * Session keys are random keypairs that only ever live in the memory of this frame. The signer's
+ * master key signs a delegation for them, scoped by key type, expiry and spend limits, after which
+ * sign requests can use them without reconstructing the master secret. Sessions end when they
+ * expire, when they are revoked, or when the frame is unloaded, and their keys are zeroed then.
+ */
+export class SessionKeyService extends CrossmintFrameService {
+  name = 'Session Key Service';
+  log_prefix = '[SessionKeyService]';
+
+  private sessions = new Map<string, Session>();
+
+  constructor(private readonly cryptoKey: CryptoKeyService) {
+    super();
+  }
+
+  /**
+   * Checks that a session may be created with the given scope, before the user is asked to grant
+   * it. Sessions without spend limits can sign any payload, raw digests included, until they
+   * expire, so they must be requested explicitly with `allowUnlimited`.
+   *
+   * @throws {CrossmintFrameCodedError} With code `policy-violation` when the session has no spend
+   * limits and does not allow unlimited signing
+   */
+  assertScope({ spendLimits = [], allowUnlimited = false }: SessionOptions): void {
+    if (spendLimits.length === 0 && !allowUnlimited) {
+      this.violation('Sessions without spend limits must be created with allowUnlimited');
+    }
+  }
+
+  /**
+   * Creates session keys for a signer and signs their delegation with the signer's keys.
+   *
+   * @param signerId - Signer the session acts for
+   * @param masterSecret - Master secret of the signer, used to sign the delegation. Not kept
+   * @throws {CrossmintFrameCodedError} With code `policy-violation` when the session has no spend
+   * limits and does not allow unlimited signing
+   */
+  async create(
+    signerId: string,
+    masterSecret: Uint8Array,
+    options: SessionOptions
+  ): Promise<SessionGrant> {
+    this.assertScope(options);
+    const { keyTypes, expiresInSeconds, spendLimits = [] } = options;
+    const sessionId = crypto.randomUUID();
+    const expiresAt = Date.now() + expiresInSeconds * 1000;
+
+    const privateKeys = new Map<KeyType, Uint8Array>();
+    const sessionKeys: PublicKey<KeyType>[] = [];
+    try {
+      for (const keyType of new Set(keyTypes)) {
+        const seed = crypto.getRandomValues(new Uint8Array(SESSION_KEY_SEED_LENGTH));
+        try {
+          privateKeys.set(keyType, await this.cryptoKey.getPrivateKeyFromSeed(keyType, seed));
+          sessionKeys.push(await this.cryptoKey.getPublicKeyFromSeed(keyType, seed));
+        } finally {
+          zeroize(seed);
+        }
+      }
+
+      const delegation: SessionDelegation = {
+        version: 1,
+        sessionId,
+        signerId,
+        sessionKeys,
+        spendLimits,
+        expiresAt,
+      };
+      const message = JSON.stringify(delegation);
+      const digest = sha256(new TextEncoder().encode(message));
+      const signatures = [];
+      for (const keyType of privateKeys.keys()) {
+        signatures.push(
+          await this.cryptoKey.withPrivateKey(keyType, masterSecret, undefined, privateKey =>
+            this.cryptoKey.sign(keyType, privateKey, digest, 'raw-digest')
+          )
+        );
+      }
+
+      this.sessions.set(sessionId, {
+        signerId,
+        expiresAt,
+        privateKeys,
+        spendLimits,
+        spent: spendLimits.map(() => 0n),
+        expiryTimer: setTimeout(() => this.revoke(sessionId), expiresAt - Date.now()),
+      });
+      this.log(`Created session ${sessionId} for signer ${signerId}`);
+
+      return { sessionId, expiresAt, sessionKeys, delegation: { message, signatures } };
+    } catch (error) {
+      zeroize(...privateKeys.values());
+      throw error;
+    }
+  }
+
+  /**
+   * Runs `fn` with the session key of the requested key type, once the request is checked against
+   * the session's scope. The key stays owned by the session and must not be kept.
+   *
+   * Transfers and approvals count towards the session's spend limits as soon as the request is
+   * accepted, and are given back if `fn` throws.
+   *
+   * @throws {CrossmintFrameCodedError} With code `invalid-session` when the session does not exist,
+   * has expired, or belongs to another signer, and `policy-violation` when the request is out of
+   * the session's scope
+   */
+  async withSessionKey<T>(
+    sessionId: string,
+    request: SessionSigningRequest,
+    fn: (privateKey: Uint8Array) => Promise<T>
+  ): Promise<T> {
+    const session = this.getSession(sessionId);
+    if (request.signerId != null && request.signerId !== session.signerId) {
+      throw new CrossmintFrameCodedError(
+        `Session ${sessionId} does not belong to signer ${request.signerId}`,
+        'invalid-session'
+      );
+    }
+    const privateKey = session.privateKeys.get(request.keyType);
+    if (privateKey == null) {
+      this.violation(`Session ${sessionId} cannot sign with ${request.keyType} keys`);
+    }
+    if (request.derivationPath != null) {
+      this.violation('Session keys cannot sign with a derivation path');
+    }
+
+    const amounts = this.spendAmounts(session, request.transaction);
+    amounts.forEach((amount, i) => (session.spent[i] += amount));
+    try {
+      return await fn(privateKey);
+    } catch (error) {
+      amounts.forEach((amount, i) => (session.spent[i] -= amount));
+      throw error;
+    }
+  }
+
+  /**
+   * Ends a session and zeroes its keys.
+   *
+   * @returns Whether the session was still active
+   */
+  revoke(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (session == null) {
+      return false;
+    }
+    clearTimeout(session.expiryTimer);
+    zeroize(...session.privateKeys.values());
+    this.sessions.delete(sessionId);
+    this.log(`Ended session ${sessionId}`);
+    return session.expiresAt > Date.now();
+  }
+
+  /**
+   * Ends every session of a signer, or every session when no signer is given.
+   *
+   * @returns IDs of the sessions that were ended
+   */
+  revokeAll(signerId?: string): string[] {
+    const sessionIds = [...this.sessions.entries()]
+      .filter(([, session]) => signerId == null || session.signerId === signerId)
+      .map(([sessionId]) => sessionId);
+    for (const sessionId of sessionIds) {
+      this.revoke(sessionId);
+    }
+    return sessionIds;
+  }
+
+  private getSession(sessionId: string): Session {
+    const session = this.sessions.get(sessionId);
+    if (session != null && session.expiresAt <= Date.now()) {
+      // The expiry timer may not have fired yet, e.g. when the frame was throttled
+      this.revoke(sessionId);
+    } else if (session != null) {
+      return session;
+    }
+    throw new CrossmintFrameCodedError(
+      `Session ${sessionId} does not exist or has expired`,
+      'invalid-session'
+    );
+  }
+
+  // Amount a request moves against each spend limit, refusing it if any limit would be exceeded
+  private spendAmounts(session: Session, transaction?: TransactionSummary): bigint[] {
+    if (session.spendLimits.length === 0) {
+      return [];
+    }
+    if (transaction == null) {
+      this.violation('Sessions with spend limits can only sign parsed transactions');
+    }
+    const parsed = transaction;
+    // Assets without a spend limit have an allowance of zero
+    const unlisted = parsed.calls.find(
+      call =>
+        (call.amount == null ? call.type === 'token-approval' : BigInt(call.amount) > 0n) &&
+        !session.spendLimits.some(
+          limit => limit.chain === parsed.chain && movesAsset(call, limit.chain, limit.token)
+        )
+    );
+    if (unlisted != null) {
+      const asset = unlisted.type.startsWith('token-')
+        ? (unlisted.token ?? 'an unknown token')
+        : 'the native currency';
+      this.violation(`Session has no spend limit for ${asset}, whose allowance is 0`);
+    }
+
+    return session.spendLimits.map((limit, i) => {
+      // Approved amounts are spent as far as the session is concerned: the spender can move them
+      const approved = approvedAmount(parsed, limit.chain, limit.token);
+      if (approved == null) {
+        this.violation('Approvals without an amount exceed any session allowance');
+      }
+      const amount = transferredAmount(parsed, limit.chain, limit.token) + approved;
+      if (session.spent[i] + amount > BigInt(limit.amount)) {
+        this.violation(
+          `Transfer amount ${amount} exceeds the remaining session allowance of ` +
+            `${BigInt(limit.amount) - session.spent[i]}`
+        );
+      }
+      return amount;
+    });
+  }
+
+  private violation(message: string): never {
+    this.logError(`Session signing request refused: ${message}`);
+    throw new CrossmintFrameCodedError(message, 'policy-violation');
+  }
+}
@@ -217,6 +217,23 @@ describe('AuthShareCache - Security Critical Tests', () => {
       expect(mockServices.api.getAuthShard).toHaveBeenCalledTimes(4);
     });
 
+    it('SECURITY: Should isolate caches by requested signer', async () => {
+      // SECURITY PROPERTY: A share cached for one signer is never returned for another
+      await service.get(TEST_DEVICE_ID, CREDENTIAL_SCENARIOS.originalUser.authData);
+      await service.get(TEST_DEVICE_ID, CREDENTIAL_SCENARIOS.originalUser.authData, 'signer-1');
+      await service.get(TEST_DEVICE_ID, CREDENTIAL_SCENARIOS.originalUser.authData, 'signer-2');
+      expect(mockServices.api.getAuthShard).toHaveBeenCalledTimes(3);
+      expect(mockServices.api.getAuthShard).toHaveBeenLastCalledWith(
+        TEST_DEVICE_ID,
+        undefined,
+        CREDENTIAL_SCENARIOS.originalUser.authData,
+        'signer-2'
+      );
+
+      await service.get(TEST_DEVICE_ID, CREDENTIAL_SCENARIOS.originalUser.authData, 'signer-1');
+      expect(mockServices.api.getAuthShard).toHaveBeenCalledTimes(3);
+    });
+
     it('SECURITY: Should prevent access to cached shares after JWT refresh', async () => {
       // SECURITY PROPERTY: JWT refresh creates new authentication context
       const expiredJwtAuthData = { jwt: 'expired-jwt-v1', apiKey: 'app-api-key' };
@@ -253,13 +270,15 @@ describe('AuthShareCache - Security Critical Tests', () => {
         1,
         TEST_DEVICE_ID,
         undefined,
-        expiredJwtAuthData
+        expiredJwtAuthData,
+        undefined
       );
       expect(mockServices.api.getAuthShard).toHaveBeenNthCalledWith(
         2,
         TEST_DEVICE_ID,
         undefined,
-        refreshedJwtAuthData
+        refreshedJwtAuthData,
+        undefined
       );
     });
   });
@@ -1,20 +1,15 @@
 import { CrossmintFrameService } from '../service';
+import type { z } from 'zod';
 import type { CrossmintApiService } from '../api';
 import { CrossmintHttpError } from '../api/request';
 
+type AuthShardData = z.infer<typeof CrossmintApiService.getAuthShardOutputSchema>;
+
 interface AuthShardCacheEntry {
-  authKeyShare: string;
-  deviceKeyShareHash: string;
-  signerId: string;
+  data: AuthShardData;
   timestamp: number;
 }
 
-interface AuthShardData {
-  authKeyShare: string;
-  deviceKeyShareHash: string;
-  signerId: string;
-}
-
 /**
  * In-memory cache for authentication shares used in Shamir Secret Sharing.
  *
@@ -31,7 +26,7 @@ interface AuthShardData {
  *
  * The cache uses a 5-minute TTL (time-to-live) to automatically expire entries
  * and ensure auth shares don't remain in memory indefinitely. Each cache entry
- * is isolated by device ID, API key, and JWT to prevent cross-contamination
+ * is isolated by device ID, API key, JWT and signer ID to prevent cross-contamination
  * between different authentication contexts.
  *
  * Since this cache exists in iframe memory, it provides no persistence across
@@ -62,7 +57,7 @@ export class AuthShareCache extends CrossmintFrameService {
    * 4. **Automatic Caching**: Stores successful API responses for future requests
    *
    * Cache isolation is maintained through a composite key that includes device ID, API key,
-   * and JWT, ensuring that different users, applications, or authentication contexts cannot
+   * JWT and requested signer ID, ensuring that different users, applications, or authentication contexts cannot
    * access each other's cached authentication shares.
    *
    * The method gracefully handles missing authentication shares by returning null (e.g., when
@@ -73,40 +68,28 @@ export class AuthShareCache extends CrossmintFrameService {
    * @param authData - Authentication credentials for API access
    * @param authData.jwt - JSON Web Token for user authentication
    * @param authData.apiKey - API key for application authentication
+   * @param signerId - Signer to get the share of. Defaults to the one associated with the credentials
    * @returns Promise resolving to auth share data if available, null if not found (404)
    * @throws {Error} For API errors other than 404 (network issues, invalid credentials, etc.)
    */
   public async get(
     deviceId: string,
-    authData: { jwt: string; apiKey: string }
+    authData: { jwt: string; apiKey: string },
+    signerId?: string
   ): Promise<AuthShardData | null> {
-    const cacheKey = this.buildCacheKey(deviceId, authData);
+    const cacheKey = this.buildCacheKey(deviceId, authData, signerId);
 
     const cached = this.authShardCache.get(cacheKey);
     if (cached != null && this.isCacheEntryValid(cached)) {
       this.log('Using cached auth share');
-      return {
-        authKeyShare: cached.authKeyShare,
-        deviceKeyShareHash: cached.deviceKeyShareHash,
-        signerId: cached.signerId,
-      };
+      return cached.data;
     }
 
     try {
       this.log('Fetching auth share from API');
-      const result = await this.api.getAuthShard(deviceId, undefined, authData);
-      this.authShardCache.set(cacheKey, {
-        authKeyShare: result.authKeyShare,
-        deviceKeyShareHash: result.deviceKeyShareHash,
-        signerId: result.signerId,
-        timestamp: Date.now(),
-      });
-
-      return {
-        authKeyShare: result.authKeyShare,
-        deviceKeyShareHash: result.deviceKeyShareHash,
-        signerId: result.signerId,
-      };
+      const result = await this.api.getAuthShard(deviceId, undefined, authData, signerId);
+      this.authShardCache.set(cacheKey, { data: result, timestamp: Date.now() });
+      return result;
     } catch (e) {
       if (e instanceof CrossmintHttpError && e.status === 404) {
         return null;
@@ -120,8 +103,12 @@ export class AuthShareCache extends CrossmintFrameService {
     this.authShardCache.clear();
   }
 
-  private buildCacheKey(deviceId: string, authData: { jwt: string; apiKey: string }): string {
-    return `${deviceId}-${authData.apiKey}-${authData.jwt}`;
+  private buildCacheKey(
+    deviceId: string,
+    authData: { jwt: string; apiKey: string },
+    signerId?: string
+  ): string {
+    return `${deviceId}-${authData.apiKey}-${authData.jwt}-${signerId ?? ''}`;
   }
 
   private isCacheEntryValid(cached: AuthShardCacheEntry): boolean {
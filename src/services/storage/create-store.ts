@@ -0,0 +1,20 @@
+import { IndexedDBAdapter } from './indexed-db';
+import { InMemoryStore } from './in-memory-store';
+import type { KeyValueStore } from './key-value-store';
+import { LocalStorageStore } from './local-storage-store';
+
+/**
+ * Picks the most durable storage backend available: IndexedDB, then localStorage, then memory.
+ * With the in-memory store nothing outlives the page, so the device has to onboard again.
+ */
+export function createKeyValueStore(): KeyValueStore {
+  if (IndexedDBAdapter.isAvailable()) {
+    return new IndexedDBAdapter();
+  }
+  if (LocalStorageStore.isAvailable()) {
+    console.warn('[Storage] IndexedDB unavailable, falling back to localStorage');
+    return new LocalStorageStore();
+  }
+  console.warn('[Storage] No persistent storage available, falling back to in-memory storage');
+  return new InMemoryStore();
+}
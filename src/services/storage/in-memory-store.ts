@@ -0,0 +1,39 @@
+import { CrossmintFrameService } from '../service';
+import type { KeyValueStore } from './key-value-store';
+
+/**
+ * Non-persistent store, for contexts where no browser storage is available and for tests.
+ * Everything is lost when the frame is unloaded.
+ */
+export class InMemoryStore extends CrossmintFrameService implements KeyValueStore {
+  name = 'In-memory store';
+  log_prefix = '[InMemoryStore]';
+  // Keys are lost with everything else, never on their own
+  readonly storesCryptoKeys = true;
+  private stores = new Map<string, Map<string, unknown>>();
+
+  public async getItem<T>(storeName: string, key: string): Promise<T | null> {
+    return (this.stores.get(storeName)?.get(key) as T | undefined) ?? null;
+  }
+
+  public async setItem<T>(storeName: string, key: string, value: T): Promise<void> {
+    let store = this.stores.get(storeName);
+    if (store == null) {
+      store = new Map();
+      this.stores.set(storeName, store);
+    }
+    store.set(key, value);
+  }
+
+  public async removeItem(storeName: string, key: string): Promise<void> {
+    this.stores.get(storeName)?.delete(key);
+  }
+
+  public async getAllItems<T>(storeName: string): Promise<T[]> {
+    return [...(this.stores.get(storeName)?.values() ?? [])] as T[];
+  }
+
+  public async getAllKeys(storeName: string): Promise<string[]> {
+    return [...(this.stores.get(storeName)?.keys() ?? [])];
+  }
+}
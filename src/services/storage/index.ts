@@ -1,2 +1,6 @@
 export * from './auth-share-cache';
+export * from './key-value-store';
 export * from './indexed-db';
+export * from './in-memory-store';
+export * from './local-storage-store';
+export * from './create-store';
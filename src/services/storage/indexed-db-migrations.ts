@@ -0,0 +1,105 @@
+import {
+  ATTESTATION_STORE_NAME,
+  DEVICE_STORE_NAME,
+  ENCRYPTION_KEYS_STORE_NAME,
+  SHARDS_STORE_NAME,
+  SIGNERS_STORE_NAME,
+} from './key-value-store';
+
+/**
+ * A step of the IndexedDB schema history. The schema version is the IndexedDB database version:
+ * opening the database at a higher version runs every migration above the stored one, in order,
+ * within the single `versionchange` transaction of `onupgradeneeded`.
+ *
+ * Migrations are synchronous because the upgrade transaction commits as soon as no request is
+ * pending: data migrations must issue their requests on `transaction` and must not await anything
+ * else. Throwing aborts the upgrade, which leaves the database exactly as it was.
+ *
+ * Migrations marked `idempotent` only create what is missing, and run on every upgrade whatever
+ * the stored version: versions used to be bumped ad hoc, so databases from before the migration
+ * history may be at a version whose stores they do not have.
+ *
+ * Never edit or remove a migration once released, add a new one instead.
+ */
+export type IndexedDBMigration = {
+  version: number;
+  description: string;
+  idempotent?: boolean;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+};
+
+export const MIGRATIONS: IndexedDBMigration[] = [
+  {
+    version: 1,
+    description: 'Create the shards and encryption keys stores',
+    idempotent: true,
+    migrate: db => {
+      createStoreIfMissing(db, SHARDS_STORE_NAME);
+      createStoreIfMissing(db, ENCRYPTION_KEYS_STORE_NAME);
+    },
+  },
+  {
+    version: 2,
+    description: 'Create the device store',
+    idempotent: true,
+    migrate: db => {
+      createStoreIfMissing(db, DEVICE_STORE_NAME);
+    },
+  },
+  {
+    version: 3,
+    description: 'Create the signers store',
+    idempotent: true,
+    migrate: db => {
+      createStoreIfMissing(db, SIGNERS_STORE_NAME);
+    },
+  },
+  {
+    version: 4,
+    description: 'Create the attestation store',
+    idempotent: true,
+    migrate: db => {
+      createStoreIfMissing(db, ATTESTATION_STORE_NAME);
+    },
+  },
+];
+
+/**
+ * Runs the migrations needed to bring a database from `oldVersion` to the latest version, along
+ * with every idempotent one. Must be called from `onupgradeneeded`.
+ */
+export function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  migrations: IndexedDBMigration[] = MIGRATIONS
+): void {
+  for (const migration of migrations) {
+    if (migration.version > oldVersion || migration.idempotent) {
+      migration.migrate(db, transaction);
+    }
+  }
+}
+
+/**
+ * Returns the schema version reached once all migrations have run.
+ *
+ * @throws {Error} When versions do not strictly increase from 1, which would skip or repeat steps
+ */
+export function getLatestVersion(migrations: IndexedDBMigration[] = MIGRATIONS): number {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Invalid IndexedDB migration list: expected version ${index + 1}, got ${migration.version}`
+      );
+    }
+  });
+  return migrations.length;
+}
+
+// Databases may already have stores that a migration creates, as idempotent ones run again
+function createStoreIfMissing(db: IDBDatabase, storeName: string) {
+  if (!db.objectStoreNames.contains(storeName)) {
+    db.createObjectStore(storeName);
+  }
+}
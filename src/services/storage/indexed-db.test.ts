@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBAdapter } from './indexed-db';
+import { MIGRATIONS, getLatestVersion, runMigrations } from './indexed-db-migrations';
+import { ALL_STORES, ENCRYPTION_KEYS_STORE_NAME, SHARDS_STORE_NAME } from './key-value-store';
+
+const DB_NAME = 'CrossmintFrameDB';
+const SHARE_KEY = 'device-share-test-signer';
+const SHARE = { version: 1, iv: 'aXY=', ciphertext: 'Y2lwaGVydGV4dA==' };
+
+function openRaw(
+  version?: number,
+  onUpgrade?: (request: IDBOpenDBRequest, oldVersion: number) => void
+) {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = event => onUpgrade?.(request, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Creates a database as left by the given migration, holding a device share
+async function createDatabaseAt(version: number) {
+  const db = await openRaw(version, (request, oldVersion) =>
+    runMigrations(
+      request.result,
+      request.transaction as IDBTransaction,
+      oldVersion,
+      MIGRATIONS.slice(0, version)
+    )
+  );
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(SHARDS_STORE_NAME, 'readwrite');
+    transaction.objectStore(SHARDS_STORE_NAME).put(SHARE, SHARE_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  db.close();
+}
+
+async function readShareDirectly() {
+  const db = await openRaw();
+  const share = await new Promise(resolve => {
+    const request = db.transaction(SHARDS_STORE_NAME).objectStore(SHARDS_STORE_NAME).get(SHARE_KEY);
+    request.onsuccess = () => resolve(request.result);
+  });
+  db.close();
+  return share;
+}
+
+describe('IndexedDBAdapter', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should create every store in a new database', async () => {
+    const adapter = new IndexedDBAdapter();
+    await adapter.init();
+
+    for (const storeName of ALL_STORES) {
+      await adapter.setItem(storeName, 'key', 'value');
+      expect(await adapter.getItem(storeName, 'key')).toBe('value');
+    }
+  });
+
+  it.each(MIGRATIONS.slice(0, -1).map(({ version }) => version))(
+    'should upgrade from version %i and keep existing shares',
+    async version => {
+      await createDatabaseAt(version);
+
+      const adapter = new IndexedDBAdapter();
+      await adapter.init();
+
+      expect(await adapter.getItem(SHARDS_STORE_NAME, SHARE_KEY)).toEqual(SHARE);
+      for (const storeName of ALL_STORES) {
+        await expect(adapter.getItem(storeName, 'missing')).resolves.toBeNull();
+      }
+    }
+  );
+
+  it.each([2, 3])(
+    'should add missing stores to databases bumped to version %i by the previous ad hoc upgrade',
+    async version => {
+      // Frames used to re-open the database at version + 1 when a store was missing, and only
+      // ever created the shards and encryption keys stores
+      await openRaw(version, request =>
+        [SHARDS_STORE_NAME, ENCRYPTION_KEYS_STORE_NAME].forEach(store =>
+          request.result.createObjectStore(store)
+        )
+      ).then(db => db.close());
+
+      const adapter = new IndexedDBAdapter();
+      await adapter.init();
+
+      for (const storeName of ALL_STORES) {
+        await adapter.setItem(storeName, 'key', 'value');
+        expect(await adapter.getItem(storeName, 'key')).toBe('value');
+      }
+    }
+  );
+
+  it('SECURITY: should refuse databases missing stores without touching them', async () => {
+    await openRaw(getLatestVersion(), request =>
+      request.result.createObjectStore(SHARDS_STORE_NAME)
+    ).then(db => db.close());
+
+    const adapter = new IndexedDBAdapter();
+
+    await expect(adapter.init()).rejects.toThrow(
+      `IndexedDB schema version ${getLatestVersion()} is missing stores`
+    );
+  });
+
+  it('SECURITY: should roll back a failed migration without losing shares', async () => {
+    await createDatabaseAt(getLatestVersion());
+    const failingMigrations = [
+      ...MIGRATIONS,
+      {
+        version: MIGRATIONS.length + 1,
+        description: 'Broken migration',
+        migrate: (db: IDBDatabase, transaction: IDBTransaction) => {
+          transaction.objectStore(SHARDS_STORE_NAME).clear();
+          db.createObjectStore('newStore');
+          throw new Error('Unexpected layout');
+        },
+      },
+    ];
+
+    const adapter = new IndexedDBAdapter(failingMigrations);
+
+    await expect(adapter.init()).rejects.toThrow(
+      `IndexedDB migration to version ${MIGRATIONS.length + 1} failed, database left unchanged: Unexpected layout`
+    );
+    expect(await readShareDirectly()).toEqual(SHARE);
+  });
+
+  it('SECURITY: should refuse databases written by a newer frame without touching them', async () => {
+    await createDatabaseAt(getLatestVersion());
+    await openRaw(getLatestVersion() + 1).then(db => db.close());
+
+    const adapter = new IndexedDBAdapter();
+
+    await expect(adapter.init()).rejects.toThrow('IndexedDB was written by a newer version');
+    expect(await readShareDirectly()).toEqual(SHARE);
+  });
+
+  it('should reject migration lists that skip versions', () => {
+    expect(() => new IndexedDBAdapter([MIGRATIONS[1]])).toThrow(
+      'Invalid IndexedDB migration list: expected version 1, got 2'
+    );
+  });
+});
@@ -1,93 +1,115 @@
 import { CrossmintFrameService } from '../service';
+import { ALL_STORES, type KeyValueStore } from './key-value-store';
+import {
+  MIGRATIONS,
+  getLatestVersion,
+  runMigrations,
+  type IndexedDBMigration,
+} from './indexed-db-migrations';
 
 const DB_NAME = 'CrossmintFrameDB';
-const DB_VERSION = 1;
 
-export const SHARDS_STORE_NAME = 'shardsStore';
-export const ENCRYPTION_KEYS_STORE_NAME = 'encryptionKeysStore';
-const ALL_STORES = [SHARDS_STORE_NAME, ENCRYPTION_KEYS_STORE_NAME];
-
-export class IndexedDBAdapter extends CrossmintFrameService {
+export class IndexedDBAdapter extends CrossmintFrameService implements KeyValueStore {
   name = 'IndexedDB service';
   log_prefix = '[IndexedDB]';
-  private db: IDBDatabase | null = null;
+  // Values are stored as structured clones, which CryptoKey objects support
+  readonly storesCryptoKeys = true;
   private openPromise: Promise<IDBDatabase> | null = null;
+  private readonly version: number;
+
+  /**
+   * @param migrations - Schema history, oldest first. Overridable for tests
+   */
+  constructor(
+    private readonly migrations: IndexedDBMigration[] = MIGRATIONS,
+    private readonly dbName: string = DB_NAME
+  ) {
+    super();
+    this.version = getLatestVersion(migrations);
+  }
+
+  public static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined' && indexedDB != null;
+  }
 
   public async init(): Promise<void> {
     await this.openDB();
   }
 
+  /**
+   * Opens the database, migrating it to the latest schema version first if needed.
+   *
+   * Nothing is ever deleted to recover from a failure: when a migration throws the upgrade is
+   * rolled back, and when the database was written by a newer version of the frame it is left
+   * untouched. In both cases opening fails, and is retried on the next call.
+   */
   private openDB(): Promise<IDBDatabase> {
     if (this.openPromise) {
       return this.openPromise;
     }
-    this.openPromise = new Promise((resolve, reject) => {
-      if (this.db) {
-        const missingStores = ALL_STORES.filter(
-          store => !this.db!.objectStoreNames.contains(store)
-        );
-        if (missingStores.length === 0) {
-          resolve(this.db);
-          return;
-        }
-
-        // If stores are missing, we need to re-open with a new version
-        this.db.close();
-        this.db = null;
-      }
-
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+    this.openPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.version);
+      let migrationError: unknown = null;
 
       request.onupgradeneeded = event => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        for (const storeName of ALL_STORES) {
-          this.createStore(db, storeName);
+        const db = request.result;
+        const transaction = request.transaction as IDBTransaction;
+        this.log(`Migrating database from version ${event.oldVersion} to ${this.version}`);
+        try {
+          runMigrations(db, transaction, event.oldVersion, this.migrations);
+        } catch (error) {
+          migrationError = error;
+          transaction.abort();
         }
       };
 
-      request.onsuccess = event => {
-        const db = (event.target as IDBOpenDBRequest).result;
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let other frames upgrade the database, instead of blocking them until this one unloads
+        db.onversionchange = () => {
+          db.close();
+          this.openPromise = null;
+        };
         const missingStores = ALL_STORES.filter(store => !db.objectStoreNames.contains(store));
-
         if (missingStores.length > 0) {
           db.close();
-          const newVersion = db.version + 1;
-          const reopenRequest = indexedDB.open(DB_NAME, newVersion);
-
-          reopenRequest.onupgradeneeded = e => {
-            const upgradedDb = (e.target as IDBOpenDBRequest).result;
-            for (const storeName of ALL_STORES) {
-              this.createStore(upgradedDb, storeName);
-            }
-          };
-
-          reopenRequest.onsuccess = e => {
-            this.db = (e.target as IDBOpenDBRequest).result;
-            resolve(this.db);
-          };
-
-          reopenRequest.onerror = e => {
-            reject(`IndexedDB error on re-open: ${(e.target as IDBOpenDBRequest).error}`);
-          };
-        } else {
-          this.db = db;
-          resolve(this.db);
+          reject(
+            new Error(
+              `IndexedDB schema version ${db.version} is missing stores: ${missingStores.join(', ')}`
+            )
+          );
+          return;
         }
+        resolve(db);
       };
 
-      request.onerror = event => {
-        reject(`IndexedDB error: ${(event.target as IDBOpenDBRequest).error}`);
+      request.onerror = () => {
+        if (migrationError != null) {
+          reject(
+            new Error(
+              `IndexedDB migration to version ${this.version} failed, database left unchanged: ${
+                migrationError instanceof Error ? migrationError.message : String(migrationError)
+              }`
+            )
+          );
+        } else if (request.error?.name === 'VersionError') {
+          reject(
+            new Error(
+              `IndexedDB was written by a newer version of the frame (expected schema version ${this.version} or lower)`
+            )
+          );
+        } else {
+          reject(new Error(`IndexedDB error: ${request.error?.message}`));
+        }
       };
+    }).catch(error => {
+      this.openPromise = null;
+      this.logError(String(error));
+      throw error;
     });
     return this.openPromise;
   }
 
-  private createStore(db: IDBDatabase, storeName: string) {
-    if (!db.objectStoreNames.contains(storeName)) {
-      db.createObjectStore(storeName);
-    }
-  }
-
   public async getItem<T>(storeName: string, key: IDBValidKey): Promise<T | null> {
     const db = await this.openDB();
     return new Promise((resolve, reject) => {
@@ -122,6 +144,40 @@ export class IndexedDBAdapter extends CrossmintFrameService {
     });
   }
 
+  public async getAllItems<T>(storeName: string): Promise<T[]> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, 'readonly');
+      const store = transaction.objectStore(storeName);
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        resolve(request.result as T[]);
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Error getting all items from ${storeName}: ${request.error?.message}`));
+      };
+    });
+  }
+
+  public async getAllKeys(storeName: string): Promise<string[]> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, 'readonly');
+      const store = transaction.objectStore(storeName);
+      const request = store.getAllKeys();
+
+      request.onsuccess = () => {
+        resolve(request.result.map(String));
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Error getting all keys from ${storeName}: ${request.error?.message}`));
+      };
+    });
+  }
+
   public async removeItem(storeName: string, key: IDBValidKey): Promise<void> {
     const db = await this.openDB();
     return new Promise((resolve, reject) => {
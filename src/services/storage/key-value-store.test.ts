@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InMemoryStore } from './in-memory-store';
+import { LocalStorageStore } from './local-storage-store';
+import {
+  SHARDS_STORE_NAME,
+  ENCRYPTION_KEYS_STORE_NAME,
+  SIGNERS_STORE_NAME,
+  wipeItem,
+  type KeyValueStore,
+} from './key-value-store';
+
+class FakeStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+  clear() {
+    this.items.clear();
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+const backends: [string, () => KeyValueStore][] = [
+  ['InMemoryStore', () => new InMemoryStore()],
+  ['LocalStorageStore', () => new LocalStorageStore(new FakeStorage())],
+];
+
+describe.each(backends)('%s', (_name, createStore) => {
+  let store: KeyValueStore;
+
+  beforeEach(() => {
+    store = createStore();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should return null for missing keys', async () => {
+    expect(await store.getItem(SHARDS_STORE_NAME, 'missing')).toBeNull();
+  });
+
+  it('should store, overwrite and remove values', async () => {
+    await store.setItem(SHARDS_STORE_NAME, 'key', { share: 'a', version: 1 });
+    expect(await store.getItem(SHARDS_STORE_NAME, 'key')).toEqual({ share: 'a', version: 1 });
+
+    await store.setItem(SHARDS_STORE_NAME, 'key', { share: 'b', version: 2 });
+    expect(await store.getItem(SHARDS_STORE_NAME, 'key')).toEqual({ share: 'b', version: 2 });
+
+    await store.removeItem(SHARDS_STORE_NAME, 'key');
+    expect(await store.getItem(SHARDS_STORE_NAME, 'key')).toBeNull();
+  });
+
+  it('should namespace keys by store name', async () => {
+    await store.setItem(SHARDS_STORE_NAME, 'key', 'shard');
+    await store.setItem(ENCRYPTION_KEYS_STORE_NAME, 'key', 'encryption');
+
+    expect(await store.getItem(SHARDS_STORE_NAME, 'key')).toBe('shard');
+    expect(await store.getItem(ENCRYPTION_KEYS_STORE_NAME, 'key')).toBe('encryption');
+  });
+
+  it('should list every value of a store', async () => {
+    await store.setItem(SIGNERS_STORE_NAME, 'signer-1', { signerId: 'signer-1' });
+    await store.setItem(SIGNERS_STORE_NAME, 'signer-2', { signerId: 'signer-2' });
+    await store.setItem(SHARDS_STORE_NAME, 'signer-3', { signerId: 'signer-3' });
+    await store.removeItem(SIGNERS_STORE_NAME, 'signer-2');
+
+    expect(await store.getAllItems(SIGNERS_STORE_NAME)).toEqual([{ signerId: 'signer-1' }]);
+    expect(await store.getAllItems(ENCRYPTION_KEYS_STORE_NAME)).toEqual([]);
+  });
+
+  it('should list every key of a store', async () => {
+    await store.setItem(SIGNERS_STORE_NAME, 'signer-1', { signerId: 'signer-1' });
+    await store.setItem(SIGNERS_STORE_NAME, 'signer-2', { signerId: 'signer-2' });
+    await store.setItem(SHARDS_STORE_NAME, 'signer-3', { signerId: 'signer-3' });
+    await store.removeItem(SIGNERS_STORE_NAME, 'signer-2');
+
+    expect(await store.getAllKeys(SIGNERS_STORE_NAME)).toEqual(['signer-1']);
+    expect(await store.getAllKeys(ENCRYPTION_KEYS_STORE_NAME)).toEqual([]);
+  });
+
+  it('should wipe items and report whether they existed', async () => {
+    await store.setItem(SHARDS_STORE_NAME, 'key', 'shard');
+
+    expect(await wipeItem(store, SHARDS_STORE_NAME, 'key')).toBe(true);
+    expect(await store.getItem(SHARDS_STORE_NAME, 'key')).toBeNull();
+    expect(await wipeItem(store, SHARDS_STORE_NAME, 'key')).toBe(false);
+  });
+
+  it('SECURITY: should fail when a wiped item is still present', async () => {
+    await store.setItem(SHARDS_STORE_NAME, 'key', 'shard');
+    vi.spyOn(store, 'removeItem').mockResolvedValue();
+
+    await expect(wipeItem(store, SHARDS_STORE_NAME, 'key')).rejects.toThrow(
+      `Failed to wipe ${SHARDS_STORE_NAME}/key`
+    );
+  });
+
+  it('should keep values that cannot be serialized', async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, [
+      'deriveBits',
+    ]);
+
+    await store.setItem(ENCRYPTION_KEYS_STORE_NAME, 'keyPair', keyPair);
+
+    expect(await store.getItem(ENCRYPTION_KEYS_STORE_NAME, 'keyPair')).toBe(keyPair);
+  });
+});
+
+describe('LocalStorageStore', () => {
+  it('should persist JSON values across instances', async () => {
+    const storage = new FakeStorage();
+    await new LocalStorageStore(storage).setItem(SHARDS_STORE_NAME, 'key', { share: 'a' });
+
+    expect(await new LocalStorageStore(storage).getItem(SHARDS_STORE_NAME, 'key')).toEqual({
+      share: 'a',
+    });
+  });
+
+  it('should report whether storage can be written to', () => {
+    const blocked = new FakeStorage();
+    vi.spyOn(blocked, 'setItem').mockImplementation(() => {
+      throw new DOMException('Access denied', 'SecurityError');
+    });
+
+    expect(LocalStorageStore.isAvailable(new FakeStorage())).toBe(true);
+    expect(LocalStorageStore.isAvailable(blocked)).toBe(false);
+  });
+});
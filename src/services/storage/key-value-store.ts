@@ -0,0 +1,54 @@
+import type { CrossmintFrameService } from '../service';
+
+export const SHARDS_STORE_NAME = 'shardsStore';
+export const ENCRYPTION_KEYS_STORE_NAME = 'encryptionKeysStore';
+export const DEVICE_STORE_NAME = 'deviceStore';
+export const SIGNERS_STORE_NAME = 'signersStore';
+export const ATTESTATION_STORE_NAME = 'attestationStore';
+export const ALL_STORES = [
+  SHARDS_STORE_NAME,
+  ENCRYPTION_KEYS_STORE_NAME,
+  DEVICE_STORE_NAME,
+  SIGNERS_STORE_NAME,
+  ATTESTATION_STORE_NAME,
+];
+
+/**
+ * Persistent key-value storage used for every piece of state the frame keeps across page loads.
+ *
+ * Values are namespaced by store name. Implementations return null for missing keys.
+ */
+export interface KeyValueStore extends CrossmintFrameService {
+  /**
+   * Whether CryptoKey objects are kept like any other value. Backends that serialize values to
+   * strings cannot hold non-extractable keys, which are then lost when the page is unloaded.
+   */
+  readonly storesCryptoKeys: boolean;
+  getItem<T>(storeName: string, key: string): Promise<T | null>;
+  setItem<T>(storeName: string, key: string, value: T): Promise<void>;
+  removeItem(storeName: string, key: string): Promise<void>;
+  /** Returns every value of a store, in no particular order. */
+  getAllItems<T>(storeName: string): Promise<T[]>;
+  /** Returns every key of a store, in no particular order. */
+  getAllKeys(storeName: string): Promise<string[]>;
+}
+
+/**
+ * Removes an item and reads it back to make sure it is gone, for data that must not survive a
+ * logout.
+ *
+ * @returns Whether the item existed
+ * @throws {Error} When the item is still present after removal
+ */
+export async function wipeItem(
+  store: KeyValueStore,
+  storeName: string,
+  key: string
+): Promise<boolean> {
+  const existed = (await store.getItem(storeName, key)) != null;
+  await store.removeItem(storeName, key);
+  if ((await store.getItem(storeName, key)) != null) {
+    throw new Error(`Failed to wipe ${storeName}/${key}`);
+  }
+  return existed;
+}
@@ -0,0 +1,115 @@
+import { CrossmintFrameService } from '../service';
+import { InMemoryStore } from './in-memory-store';
+import type { KeyValueStore } from './key-value-store';
+
+const KEY_PREFIX = 'crossmint-frame';
+const AVAILABILITY_CHECK_KEY = `${KEY_PREFIX}:availability-check`;
+
+/**
+ * Fallback store for contexts where IndexedDB is unavailable, backed by localStorage.
+ *
+ * localStorage only holds strings, so values are serialized to JSON. Values that cannot be
+ * represented in JSON, such as CryptoKey objects, are kept in memory only and do not survive a
+ * page reload. Devices cannot onboard on this backend, as device shares are only stored encrypted
+ * under a CryptoKey.
+ */
+export class LocalStorageStore extends CrossmintFrameService implements KeyValueStore {
+  name = 'LocalStorage store';
+  log_prefix = '[LocalStorageStore]';
+  readonly storesCryptoKeys = false;
+  private memoryStore = new InMemoryStore();
+
+  constructor(private readonly storage: Storage = localStorage) {
+    super();
+  }
+
+  /**
+   * Whether localStorage can be written to. Access throws when storage is blocked, e.g. in
+   * partitioned third-party frames or when the user disabled site data.
+   */
+  public static isAvailable(storage?: Storage): boolean {
+    try {
+      const target = storage ?? localStorage;
+      target.setItem(AVAILABILITY_CHECK_KEY, '1');
+      target.removeItem(AVAILABILITY_CHECK_KEY);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public async getItem<T>(storeName: string, key: string): Promise<T | null> {
+    const inMemory = await this.memoryStore.getItem<T>(storeName, key);
+    if (inMemory != null) {
+      return inMemory;
+    }
+
+    const serialized = this.storage.getItem(this.storageKey(storeName, key));
+    return serialized != null ? (JSON.parse(serialized) as T) : null;
+  }
+
+  public async setItem<T>(storeName: string, key: string, value: T): Promise<void> {
+    if (isJsonValue(value)) {
+      this.storage.setItem(this.storageKey(storeName, key), JSON.stringify(value));
+      await this.memoryStore.removeItem(storeName, key);
+    } else {
+      this.log(`Value for ${storeName}/${key} cannot be serialized, keeping it in memory only`);
+      await this.memoryStore.setItem(storeName, key, value);
+      this.storage.removeItem(this.storageKey(storeName, key));
+    }
+  }
+
+  public async removeItem(storeName: string, key: string): Promise<void> {
+    await this.memoryStore.removeItem(storeName, key);
+    this.storage.removeItem(this.storageKey(storeName, key));
+  }
+
+  public async getAllItems<T>(storeName: string): Promise<T[]> {
+    const prefix = this.storageKey(storeName, '');
+    const serializedItems: T[] = [];
+    for (let index = 0; index < this.storage.length; index++) {
+      const storageKey = this.storage.key(index);
+      const serialized = storageKey?.startsWith(prefix) ? this.storage.getItem(storageKey) : null;
+      if (serialized != null) {
+        serializedItems.push(JSON.parse(serialized) as T);
+      }
+    }
+    return [...serializedItems, ...(await this.memoryStore.getAllItems<T>(storeName))];
+  }
+
+  public async getAllKeys(storeName: string): Promise<string[]> {
+    const prefix = this.storageKey(storeName, '');
+    const keys = new Set(await this.memoryStore.getAllKeys(storeName));
+    for (let index = 0; index < this.storage.length; index++) {
+      const storageKey = this.storage.key(index);
+      if (storageKey?.startsWith(prefix)) {
+        keys.add(storageKey.slice(prefix.length));
+      }
+    }
+    return [...keys];
+  }
+
+  private storageKey(storeName: string, key: string): string {
+    return `${KEY_PREFIX}:${storeName}:${key}`;
+  }
+}
+
+function isJsonValue(value: unknown): boolean {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return true;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value);
+  }
+  if (Array.isArray(value)) {
+    return value.every(isJsonValue);
+  }
+  if (typeof value === 'object') {
+    const prototype = Object.getPrototypeOf(value);
+    return (
+      (prototype === Object.prototype || prototype === null) &&
+      Object.values(value as Record<string, unknown>).every(isJsonValue)
+    );
+  }
+  return false;
+}
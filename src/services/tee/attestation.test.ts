@@ -3,13 +3,22 @@
  *
  * Tests validation of Intel TDX TEE attestations for cryptographic key access.
  * Security properties: TEE authenticity, public key attestation integrity,
- * RTMR3 measurement verification, application identity enforcement, secure failure modes.
+ * RTMR3 measurement verification, application identity enforcement, secure failure modes,
+ * expiry and invalidation of cached verification results, collateral sources, trust policy
+ * rollovers, OS image measurements, verification reports, TCB policy, freshness nonces.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { mock, type MockProxy } from 'vitest-mock-extended';
+import { p256 } from '@noble/curves/p256';
+import { sha256 } from 'ethereum-cryptography/sha256.js';
 import { AttestationService } from './attestation';
 import type { CrossmintApiService } from '../api';
+import { ATTESTATION_STORE_NAME, InMemoryStore } from '../storage';
+import { PHALA_PCCS_URL, type CollateralSource, type QuoteCollateral } from './collateral';
+import type { SignedTrustPolicy, TrustPolicy } from './trust-policy';
+import type { OsImageMeasurements } from './measurements';
+import type { TcbPolicy } from './tcb-policy';
 
 vi.mock('@phala/dcap-qvl-web', () => ({
   default: vi.fn(),
@@ -32,6 +41,9 @@ vi.mock('../api', async () => {
 const VALID_PUBLIC_KEY =
   'BMbRE3oZ8rxCzkPYntr/gApxZO2nO1T44HCwLDokZOy/y3/3NW/VhVFLrUSKjohgAQFk6wckzs50HGmn+IAwVEk=';
 const VALID_APP_ID = 'df4f0ec61f92a8eec754593da9ea9cd939985e9c';
+const VALID_COMPOSE_HASH = '1b41d549eeb909955c5753df9064b2db28b99b70c1adc00a14c49825f104ea75';
+const TRUST_POLICY: TrustPolicy = { version: 1, builds: [{ appId: VALID_APP_ID }] };
+const OTHER_APP_POLICY: TrustPolicy = { version: 1, builds: [{ appId: 'different-app-id' }] };
 
 const VALID_EVENT_LOG = [
   {
@@ -56,7 +68,7 @@ const VALID_EVENT_LOG = [
     digest:
       'ba99db40bbcf5a0c855ee6233f2bb0581d408cf430a98cea5233daf8e21e6483419c1bb9d2c0057f5e9185a5a2bc0e2f',
     event: 'compose-hash',
-    event_payload: '1b41d549eeb909955c5753df9064b2db28b99b70c1adc00a14c49825f104ea75',
+    event_payload: VALID_COMPOSE_HASH,
   },
   {
     imr: 3,
@@ -109,12 +121,50 @@ const VALID_EVENT_LOG = [
   },
 ];
 
+const COLLATERAL: QuoteCollateral = {
+  pck_crl_issuer_chain: 'pck-crl-issuer-chain',
+  root_ca_crl: '0102',
+  pck_crl: '0304',
+  tcb_info_issuer_chain: 'tcb-info-issuer-chain',
+  tcb_info: '{"nextUpdate":"2026-02-01T00:00:00Z"}',
+  tcb_info_signature: '0506',
+  qe_identity_issuer_chain: 'qe-identity-issuer-chain',
+  qe_identity: '{"nextUpdate":"2026-02-01T00:00:00Z"}',
+  qe_identity_signature: '0708',
+};
+
 const VALID_RTMR3 =
   'edfa1b4966b651678509dd241ab2be85caceeb8be663f79bfc27b5a189a9fe403522c39a080d8f3f750aa037a37d606d';
 
+// Report data in the nonce-bound format when given a nonce, and in the legacy one otherwise
+const reportDataFor = async (publicKey: string, nonce?: string) => {
+  const prefixBytes = new TextEncoder().encode(nonce != null ? 'app-data-v2:' : 'app-data:');
+  const nonceBytes = nonce != null ? new Uint8Array(Buffer.from(nonce, 'hex')) : new Uint8Array();
+  const publicKeyBytes = new Uint8Array(Buffer.from(publicKey, 'base64'));
+  const hash = await crypto.subtle.digest(
+    'SHA-512',
+    new Uint8Array([...prefixBytes, ...nonceBytes, ...publicKeyBytes])
+  );
+  return Buffer.from(hash).toString('hex');
+};
+
+const attestationFor = (publicKey: string, quote = 'abcdef') => ({
+  quote,
+  publicKey,
+  event_log: JSON.stringify(VALID_EVENT_LOG),
+  hash_algorithm: 'sha512' as const,
+  prefix: 'app-data-v2' as const,
+});
+
+const legacyAttestationFor = (publicKey: string, quote = 'abcdef') => ({
+  ...attestationFor(publicKey, quote),
+  prefix: 'app-data' as const,
+});
+
 describe('AttestationService - Security Critical Tests', () => {
   let service: AttestationService;
   let mockApiService: MockProxy<CrossmintApiService>;
+  let storage: InMemoryStore;
   // biome-ignore lint/suspicious/noExplicitAny: WASM mocks require any type
   let mockWasmInit: any;
   // biome-ignore lint/suspicious/noExplicitAny: WASM mocks require any type
@@ -125,7 +175,8 @@ describe('AttestationService - Security Critical Tests', () => {
   beforeEach(async () => {
     vi.clearAllMocks();
     mockApiService = mock<CrossmintApiService>();
-    service = new AttestationService(mockApiService, VALID_APP_ID);
+    storage = new InMemoryStore();
+    service = new AttestationService(mockApiService, TRUST_POLICY, storage);
 
     const wasmModule = await import('@phala/dcap-qvl-web');
     mockWasmInit = vi.mocked(wasmModule.default);
@@ -138,6 +189,28 @@ describe('AttestationService - Security Critical Tests', () => {
     mockJsVerify.mockRejectedValue(new Error('Mock not configured'));
   });
 
+  // The mocked TEE attests VALID_PUBLIC_KEY, committing to the nonce of the last attestation
+  // request when the attestation it served is nonce-bound
+  const mockTeeReport = (td: object = {}, status = 'UpToDate', advisory_ids?: string[]) =>
+    mockJsVerify.mockImplementation(async () => {
+      const [nonce] = mockApiService.getAttestation.mock.lastCall ?? [];
+      const { prefix } = await mockApiService.getAttestation.mock.results.at(-1)?.value;
+      return {
+        status,
+        advisory_ids,
+        report: {
+          TD10: {
+            report_data: await reportDataFor(
+              VALID_PUBLIC_KEY,
+              prefix === 'app-data-v2' ? nonce : undefined
+            ),
+            rt_mr3: VALID_RTMR3,
+            ...td,
+          },
+        },
+      };
+    });
+
   describe('TEE Authenticity Validation', () => {
     beforeEach(() => {
       mockJsGetCollateral.mockResolvedValue('mock-collateral');
@@ -189,7 +262,137 @@ describe('AttestationService - Security Critical Tests', () => {
     });
   });
 
+  describe('Collateral Sources', () => {
+    const QUOTE = 'abcdef';
+    const verifierCollateral = {
+      ...COLLATERAL,
+      root_ca_crl: new Uint8Array([1, 2]),
+      pck_crl: new Uint8Array([3, 4]),
+      tcb_info_signature: new Uint8Array([5, 6]),
+      qe_identity_signature: new Uint8Array([7, 8]),
+    };
+
+    const serviceWith = (collateralSources: CollateralSource[]) =>
+      new AttestationService(mockApiService, TRUST_POLICY, storage, { collateralSources });
+
+    beforeEach(() => {
+      mockJsGetCollateral.mockResolvedValue('pccs-collateral');
+      mockJsVerify.mockResolvedValue({
+        status: 'UpToDate',
+        report: { TD10: { report_data: 'a'.repeat(128), rt_mr3: 'b'.repeat(96) } },
+      });
+    });
+
+    it('SECURITY: Should verify against the collateral served with the quote by default', async () => {
+      await service.verifyTEEReport(QUOTE, COLLATERAL);
+
+      expect(mockJsGetCollateral).not.toHaveBeenCalled();
+      expect(mockJsVerify).toHaveBeenCalledWith(
+        new Uint8Array([0xab, 0xcd, 0xef]),
+        verifierCollateral,
+        expect.any(BigInt)
+      );
+    });
+
+    it("Should fall back to Phala's PCCS when no collateral is served", async () => {
+      await service.verifyTEEReport(QUOTE);
+
+      expect(mockJsGetCollateral).toHaveBeenCalledWith(
+        PHALA_PCCS_URL,
+        new Uint8Array([0xab, 0xcd, 0xef])
+      );
+      expect(mockJsVerify).toHaveBeenCalledWith(
+        expect.any(Uint8Array),
+        'pccs-collateral',
+        expect.any(BigInt)
+      );
+    });
+
+    it('Should download collateral from a configured PCCS', async () => {
+      const url = 'https://pccs.example.com/tdx/certification/v4';
+
+      await serviceWith([{ type: 'pccs', url }]).verifyTEEReport(QUOTE, COLLATERAL);
+
+      expect(mockJsGetCollateral).toHaveBeenCalledWith(url, expect.any(Uint8Array));
+      expect(mockJsVerify).toHaveBeenCalledWith(
+        expect.any(Uint8Array),
+        'pccs-collateral',
+        expect.any(BigInt)
+      );
+    });
+
+    it('Should verify against a pinned bundle without network access', async () => {
+      await serviceWith([{ type: 'bundle', collateral: COLLATERAL }]).verifyTEEReport(QUOTE);
+
+      expect(mockJsGetCollateral).not.toHaveBeenCalled();
+      expect(mockJsVerify).toHaveBeenCalledWith(
+        expect.any(Uint8Array),
+        verifierCollateral,
+        expect.any(BigInt)
+      );
+    });
+
+    it('Should try the next source when one fails', async () => {
+      mockJsGetCollateral.mockRejectedValue(new Error('PCCS unreachable'));
+
+      await serviceWith([
+        { type: 'pccs', url: PHALA_PCCS_URL },
+        { type: 'bundle', collateral: COLLATERAL },
+      ]).verifyTEEReport(QUOTE);
+
+      expect(mockJsVerify).toHaveBeenCalledWith(
+        expect.any(Uint8Array),
+        verifierCollateral,
+        expect.any(BigInt)
+      );
+    });
+
+    it('SECURITY: Should fail when no source provides collateral', async () => {
+      mockJsGetCollateral.mockRejectedValue(new Error('PCCS unreachable'));
+
+      await expect(
+        serviceWith([
+          { type: 'attestation' },
+          { type: 'pccs', url: PHALA_PCCS_URL },
+        ]).verifyTEEReport(QUOTE)
+      ).rejects.toThrow(
+        'No collateral available to verify the TEE quote (attestation: no collateral served, pccs: Error: PCCS unreachable)'
+      );
+      expect(mockJsVerify).not.toHaveBeenCalled();
+    });
+
+    it('SECURITY: Should reject collateral whose signatures do not verify', async () => {
+      mockJsVerify.mockRejectedValue(new Error('Invalid TCB info signature'));
+
+      await expect(service.verifyTEEReport(QUOTE, COLLATERAL)).rejects.toThrow(
+        'Invalid TCB info signature'
+      );
+      // Rejected collateral is not replaced by another source's
+      expect(mockJsGetCollateral).not.toHaveBeenCalled();
+    });
+
+    it('Should pass the served collateral through a full attestation', async () => {
+      mockApiService.getAttestation.mockResolvedValue({
+        quote: QUOTE,
+        publicKey: VALID_PUBLIC_KEY,
+        event_log: JSON.stringify(VALID_EVENT_LOG),
+        hash_algorithm: 'sha512',
+        prefix: 'app-data',
+        collateral: COLLATERAL,
+      });
+
+      await expect(service.init()).rejects.toThrow('RTMR3 mismatch');
+      expect(mockJsVerify).toHaveBeenCalledWith(
+        expect.any(Uint8Array),
+        verifierCollateral,
+        expect.any(BigInt)
+      );
+    });
+  });
+
   describe('Public Key Attestation Integrity', () => {
+    const NONCE = 'ab'.repeat(32);
+
     it('SECURITY: Should validate authentic public key attestation', async () => {
       const prefixBytes = new TextEncoder().encode('app-data:');
       const publicKeyBytes = new Uint8Array(Buffer.from(VALID_PUBLIC_KEY, 'base64'));
@@ -205,6 +408,30 @@ describe('AttestationService - Security Critical Tests', () => {
       await expect(service.verifyTEEPublicKey(reportData, VALID_PUBLIC_KEY)).resolves.not.toThrow();
     });
 
+    it('SECURITY: Should validate report data committing to the nonce and public key', async () => {
+      const reportData = await reportDataFor(VALID_PUBLIC_KEY, NONCE);
+
+      await expect(
+        service.verifyTEEPublicKey(reportData, VALID_PUBLIC_KEY, NONCE)
+      ).resolves.not.toThrow();
+    });
+
+    it('SECURITY: Should reject report data committing to another nonce', async () => {
+      const reportData = await reportDataFor(VALID_PUBLIC_KEY, 'cd'.repeat(32));
+
+      await expect(service.verifyTEEPublicKey(reportData, VALID_PUBLIC_KEY, NONCE)).rejects.toThrow(
+        'TEE reported public key does not match attestation report'
+      );
+    });
+
+    it('SECURITY: Should reject legacy report data when a nonce is expected', async () => {
+      const reportData = await reportDataFor(VALID_PUBLIC_KEY);
+
+      await expect(service.verifyTEEPublicKey(reportData, VALID_PUBLIC_KEY, NONCE)).rejects.toThrow(
+        'TEE reported public key does not match attestation report'
+      );
+    });
+
     it('SECURITY: Should reject invalid hash length', async () => {
       await expect(service.verifyTEEPublicKey('a'.repeat(126), VALID_PUBLIC_KEY)).rejects.toThrow(
         'TEE reported public key does not match attestation report'
@@ -297,8 +524,8 @@ describe('AttestationService - Security Critical Tests', () => {
 
     describe('Application Identity Enforcement', () => {
       it('SECURITY: Should reject unauthorized application IDs', async () => {
-        // Create a service with a different expected app ID to test app ID validation
-        const wrongAppIdService = new AttestationService(mockApiService, 'different-app-id');
+        // Create a service trusting another application to test app ID validation
+        const wrongAppIdService = new AttestationService(mockApiService, OTHER_APP_POLICY, storage);
 
         await expect(
           wrongAppIdService.verifyTEEApplicationIntegrity(
@@ -306,7 +533,27 @@ describe('AttestationService - Security Critical Tests', () => {
             VALID_RTMR3
           )
         ).rejects.toThrow(
-          'Invalid app ID: expected different-app-id, got df4f0ec61f92a8eec754593da9ea9cd939985e9c'
+          `TEE build is not allowed by trust policy version 1: app ID ${VALID_APP_ID}, compose hash ${VALID_COMPOSE_HASH}`
+        );
+      });
+
+      it('SECURITY: Should ignore application events outside of RTMR3', async () => {
+        const wrongAppIdService = new AttestationService(mockApiService, OTHER_APP_POLICY, storage);
+        const injectedLog = [
+          ...VALID_EVENT_LOG,
+          {
+            imr: 1,
+            event_type: 134217729,
+            digest: 'any-digest',
+            event: 'app-id',
+            event_payload: 'different-app-id',
+          },
+        ];
+
+        await expect(
+          wrongAppIdService.verifyTEEApplicationIntegrity(JSON.stringify(injectedLog), VALID_RTMR3)
+        ).rejects.toThrow(
+          `TEE build is not allowed by trust policy version 1: app ID ${VALID_APP_ID}`
         );
       });
 
@@ -433,6 +680,742 @@ describe('AttestationService - Security Critical Tests', () => {
     });
   });
 
+  describe('Verification Cache', () => {
+    const NOW = Date.parse('2026-01-01T00:00:00Z');
+    const HOUR_MS = 60 * 60 * 1000;
+    const OTHER_PUBLIC_KEY = Buffer.from(new Uint8Array(65).fill(4)).toString('base64');
+
+    const collateralWithNextUpdate = (nextUpdate: number) => ({
+      tcb_info: JSON.stringify({ nextUpdate: new Date(nextUpdate).toISOString() }),
+      qe_identity: JSON.stringify({ nextUpdate: new Date(nextUpdate + HOUR_MS).toISOString() }),
+    });
+
+    // Legacy quotes reuse the cached verification entirely, without verifying the quote again
+    const reloadedService = (maxAgeMs = 24 * HOUR_MS, trustPolicy = TRUST_POLICY) =>
+      new AttestationService(mockApiService, trustPolicy, storage, {
+        maxAgeMs,
+        allowLegacyReportData: true,
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers({ now: NOW });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockApiService.getAttestation.mockResolvedValue(legacyAttestationFor(VALID_PUBLIC_KEY));
+      mockJsGetCollateral.mockResolvedValue(collateralWithNextUpdate(NOW + 30 * 24 * HOUR_MS));
+      mockTeeReport();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('SECURITY: Should reuse a verified attestation for the same quote and public key', async () => {
+      await reloadedService().init();
+      expect(await storage.getItem(ATTESTATION_STORE_NAME, 'verified-attestation')).toMatchObject({
+        publicKey: VALID_PUBLIC_KEY,
+        rtmr3: VALID_RTMR3,
+        appInfo: { app_id: VALID_APP_ID },
+        tcbStatus: 'UpToDate',
+        collateralNextUpdate: NOW + 30 * 24 * HOUR_MS,
+        expiresAt: NOW + 24 * HOUR_MS,
+      });
+
+      const reloaded = reloadedService();
+      await reloaded.init();
+
+      expect(await reloaded.getAttestedPublicKey()).toBe(VALID_PUBLIC_KEY);
+      expect(mockJsGetCollateral).toHaveBeenCalledTimes(1);
+      expect(mockJsVerify).toHaveBeenCalledTimes(1);
+    });
+
+    it('SECURITY: Should verify again once the collateral is due for an update', async () => {
+      mockJsGetCollateral.mockResolvedValue(collateralWithNextUpdate(NOW + HOUR_MS));
+      await reloadedService().init();
+
+      vi.setSystemTime(NOW + HOUR_MS);
+      await reloadedService().init();
+
+      expect(mockJsVerify).toHaveBeenCalledTimes(2);
+    });
+
+    it('SECURITY: Should verify again once the configured max age is reached', async () => {
+      await reloadedService(HOUR_MS).init();
+
+      vi.setSystemTime(NOW + HOUR_MS - 1);
+      await reloadedService(HOUR_MS).init();
+      expect(mockJsVerify).toHaveBeenCalledTimes(1);
+
+      vi.setSystemTime(NOW + HOUR_MS);
+      await reloadedService(HOUR_MS).init();
+      expect(mockJsVerify).toHaveBeenCalledTimes(2);
+    });
+
+    it('SECURITY: Should not reuse a legacy verification made for another quote', async () => {
+      await reloadedService().init();
+      await reloadedService().init();
+      expect(mockJsVerify).toHaveBeenCalledTimes(1);
+
+      mockApiService.getAttestation.mockResolvedValue(
+        legacyAttestationFor(VALID_PUBLIC_KEY, 'fedcba')
+      );
+      await reloadedService().init();
+
+      expect(mockJsVerify).toHaveBeenCalledTimes(2);
+    });
+
+    it('SECURITY: Should only verify the quote of a nonce-bound attestation against the cache', async () => {
+      mockApiService.getAttestation.mockResolvedValue(attestationFor(VALID_PUBLIC_KEY));
+      await service.init();
+
+      mockApiService.getAttestation.mockResolvedValue(attestationFor(VALID_PUBLIC_KEY, 'fedcba'));
+      const reloaded = new AttestationService(mockApiService, TRUST_POLICY, storage);
+      await reloaded.init();
+
+      expect(await reloaded.getAttestedPublicKey()).toBe(VALID_PUBLIC_KEY);
+      expect(await reloaded.getVerificationReport()).toMatchObject({
+        verification: { verifiedAt: NOW, reusedFromCache: true, nonceBound: true },
+      });
+      expect(mockJsGetCollateral).toHaveBeenCalledTimes(1);
+      expect(mockJsVerify).toHaveBeenCalledTimes(2);
+      expect(mockJsVerify.mock.lastCall?.[1]).toEqual(
+        collateralWithNextUpdate(NOW + 30 * 24 * HOUR_MS)
+      );
+    });
+
+    it('SECURITY: Should not reuse a nonce-bound verification for another nonce', async () => {
+      mockApiService.getAttestation.mockResolvedValue(attestationFor(VALID_PUBLIC_KEY));
+      await service.init();
+
+      // The relay replays the quote, which commits to the nonce of the first request
+      const replayedReport = await mockJsVerify.mock.results[0].value;
+      mockJsVerify.mockResolvedValue(replayedReport);
+
+      await expect(
+        new AttestationService(mockApiService, TRUST_POLICY, storage).init()
+      ).rejects.toThrow('TEE reported public key does not match attestation report');
+    });
+
+    it('SECURITY: Should verify a nonce-bound attestation in full when the TD measurements changed', async () => {
+      mockApiService.getAttestation.mockResolvedValue(attestationFor(VALID_PUBLIC_KEY));
+      await service.init();
+
+      mockTeeReport({ mr_td: '22'.repeat(48) });
+      const reloaded = new AttestationService(mockApiService, TRUST_POLICY, storage);
+      await reloaded.init();
+
+      expect(mockJsGetCollateral).toHaveBeenCalledTimes(2);
+      expect(await reloaded.getVerificationReport()).toMatchObject({
+        verification: { reusedFromCache: false, measurements: { mrtd: '22'.repeat(48) } },
+      });
+    });
+
+    it('SECURITY: Should not reuse a legacy verification for a quote claiming to be nonce-bound', async () => {
+      await reloadedService().init();
+      mockApiService.getAttestation.mockResolvedValue(attestationFor(VALID_PUBLIC_KEY));
+      mockJsVerify.mockResolvedValue(await mockJsVerify.mock.results[0].value);
+
+      await expect(reloadedService().init()).rejects.toThrow(
+        'TEE reported public key does not match attestation report'
+      );
+      expect(mockJsVerify).toHaveBeenCalledTimes(2);
+    });
+
+    it('SECURITY: Should discard the cache at once when the TEE public key changes', async () => {
+      await reloadedService().init();
+      mockApiService.getAttestation.mockResolvedValue(
+        legacyAttestationFor(OTHER_PUBLIC_KEY, 'fedcba')
+      );
+
+      await expect(reloadedService().init()).rejects.toThrow(
+        'TEE reported public key does not match attestation report'
+      );
+      expect(await storage.getItem(ATTESTATION_STORE_NAME, 'verified-attestation')).toBeNull();
+    });
+
+    it('SECURITY: Should not reuse a verification of an application no longer trusted', async () => {
+      await reloadedService().init();
+
+      const otherApp = reloadedService(24 * HOUR_MS, OTHER_APP_POLICY);
+      await expect(otherApp.init()).rejects.toThrow('TEE build is not allowed');
+    });
+
+    it('SECURITY: Should verify again in the background and revoke the key on failure', async () => {
+      const reloaded = reloadedService(HOUR_MS);
+      await reloaded.init();
+
+      await vi.advanceTimersByTimeAsync(HOUR_MS);
+      await vi.waitFor(() => expect(mockJsVerify).toHaveBeenCalledTimes(2));
+      // The next verification is only scheduled once this one completed
+      await vi.waitFor(() => expect(vi.getTimerCount()).toBe(1));
+      expect(await reloaded.getAttestedPublicKey()).toBe(VALID_PUBLIC_KEY);
+
+      mockJsVerify.mockResolvedValue({ status: 'Revoked', report: {} });
+      await vi.advanceTimersByTimeAsync(HOUR_MS);
+      await vi.waitFor(() =>
+        expect(reloaded.getAttestedPublicKey()).rejects.toThrow(
+          'Attestation service has not been initialized!'
+        )
+      );
+      expect(await storage.getItem(ATTESTATION_STORE_NAME, 'verified-attestation')).toBeNull();
+    });
+  });
+
+  describe('Trust Policy', () => {
+    const NOW = Date.parse('2026-01-01T00:00:00Z');
+    const HOUR_MS = 60 * 60 * 1000;
+    const SIGNING_KEY = p256.utils.randomPrivateKey();
+    const SIGNING_PUBLIC_KEY = Buffer.from(p256.getPublicKey(SIGNING_KEY, false)).toString('hex');
+
+    const sign = (policy: TrustPolicy, privateKey = SIGNING_KEY): SignedTrustPolicy => {
+      const json = JSON.stringify(policy);
+      const digest = sha256(new TextEncoder().encode(json));
+      return { policy: json, signature: p256.sign(digest, privateKey).toCompactHex() };
+    };
+
+    const serviceWith = (policy: TrustPolicy, trustPolicySigningKey?: string) =>
+      new AttestationService(mockApiService, policy, storage, { trustPolicySigningKey });
+
+    const serve = (trustPolicy?: SignedTrustPolicy) =>
+      mockApiService.getAttestation.mockResolvedValue({
+        ...attestationFor(VALID_PUBLIC_KEY),
+        trustPolicy,
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers({ now: NOW });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      serve();
+      mockJsGetCollateral.mockResolvedValue('mock-collateral');
+      mockTeeReport();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const verifyWith = (policy: TrustPolicy) =>
+      serviceWith(policy).verifyTEEApplicationIntegrity(
+        JSON.stringify(VALID_EVENT_LOG),
+        VALID_RTMR3
+      );
+
+    it('SECURITY: Should accept both the previous and the next build during a rollover', async () => {
+      const appInfo = await verifyWith({
+        version: 2,
+        builds: [
+          { appId: VALID_APP_ID, composeHash: 'aa'.repeat(32) },
+          { appId: VALID_APP_ID, composeHash: VALID_COMPOSE_HASH },
+        ],
+      });
+
+      expect(appInfo.compose_hash).toBe(VALID_COMPOSE_HASH);
+    });
+
+    it('SECURITY: Should reject a compose hash the policy does not list', async () => {
+      await expect(
+        verifyWith({ version: 2, builds: [{ appId: VALID_APP_ID, composeHash: 'aa'.repeat(32) }] })
+      ).rejects.toThrow(
+        `TEE build is not allowed by trust policy version 2: app ID ${VALID_APP_ID}, compose hash ${VALID_COMPOSE_HASH}`
+      );
+    });
+
+    it('SECURITY: Should reject a build served by another key provider', async () => {
+      await expect(
+        verifyWith({ version: 2, builds: [{ appId: VALID_APP_ID, keyProviderId: 'other-kms' }] })
+      ).rejects.toThrow('TEE build is not allowed by trust policy version 2');
+    });
+
+    it('SECURITY: Should reject a retired build', async () => {
+      await expect(
+        verifyWith({
+          version: 2,
+          builds: [{ appId: VALID_APP_ID, validUntil: '2025-12-31T00:00:00Z' }],
+        })
+      ).rejects.toThrow(`TEE build of app ID ${VALID_APP_ID} was retired on 2025-12-31T00:00:00Z`);
+    });
+
+    it('SECURITY: Should not trust a build before its validity window', async () => {
+      await expect(
+        verifyWith({
+          version: 2,
+          builds: [{ appId: VALID_APP_ID, validFrom: '2026-01-02T00:00:00Z' }],
+        })
+      ).rejects.toThrow(
+        `TEE build of app ID ${VALID_APP_ID} is not trusted before 2026-01-02T00:00:00Z`
+      );
+    });
+
+    it('SECURITY: Should adopt a newer signed policy served with the attestation', async () => {
+      const served = sign({ version: 2, builds: [{ appId: 'next-app-id' }] });
+      serve(served);
+
+      await expect(serviceWith(TRUST_POLICY, SIGNING_PUBLIC_KEY).init()).rejects.toThrow(
+        'TEE build is not allowed by trust policy version 2'
+      );
+      expect(await storage.getItem(ATTESTATION_STORE_NAME, 'trust-policy')).toEqual(served);
+    });
+
+    it('SECURITY: Should stop reusing a verification once its build is retired', async () => {
+      serve(
+        sign({ version: 2, builds: [{ appId: VALID_APP_ID, validUntil: '2026-01-01T01:00:00Z' }] })
+      );
+
+      const service = serviceWith(TRUST_POLICY, SIGNING_PUBLIC_KEY);
+      await service.init();
+
+      expect(await service.getVerificationReport()).toMatchObject({
+        verification: { expiresAt: NOW + HOUR_MS },
+      });
+    });
+
+    it('SECURITY: Should keep enforcing an adopted policy when it is no longer served', async () => {
+      serve(
+        sign({ version: 2, builds: [{ appId: VALID_APP_ID, validUntil: '2026-01-01T01:00:00Z' }] })
+      );
+      await serviceWith(TRUST_POLICY, SIGNING_PUBLIC_KEY).init();
+
+      vi.setSystemTime(NOW + HOUR_MS);
+      serve();
+
+      await expect(serviceWith(TRUST_POLICY, SIGNING_PUBLIC_KEY).init()).rejects.toThrow(
+        `TEE build of app ID ${VALID_APP_ID} was retired on 2026-01-01T01:00:00Z`
+      );
+    });
+
+    it('SECURITY: Should ignore a policy with an invalid signature', async () => {
+      serve(
+        sign({ version: 2, builds: [{ appId: 'next-app-id' }] }, p256.utils.randomPrivateKey())
+      );
+
+      const service = serviceWith(TRUST_POLICY, SIGNING_PUBLIC_KEY);
+      await service.init();
+
+      expect(await service.getAttestedPublicKey()).toBe(VALID_PUBLIC_KEY);
+      expect(await storage.getItem(ATTESTATION_STORE_NAME, 'trust-policy')).toBeNull();
+    });
+
+    it('SECURITY: Should ignore a policy older than the one in use', async () => {
+      serve(sign({ version: 2, builds: [{ appId: 'next-app-id' }] }));
+
+      const service = serviceWith({ ...TRUST_POLICY, version: 3 }, SIGNING_PUBLIC_KEY);
+      await service.init();
+
+      expect(await service.getAttestedPublicKey()).toBe(VALID_PUBLIC_KEY);
+    });
+
+    it('SECURITY: Should only use the pinned policy without a signing key', async () => {
+      serve(sign({ version: 2, builds: [{ appId: 'next-app-id' }] }));
+
+      const service = serviceWith(TRUST_POLICY);
+      await service.init();
+
+      expect(await service.getAttestedPublicKey()).toBe(VALID_PUBLIC_KEY);
+      expect(await storage.getItem(ATTESTATION_STORE_NAME, 'trust-policy')).toBeNull();
+    });
+  });
+
+  describe('OS Image Measurements', () => {
+    const OS_IMAGE: OsImageMeasurements = {
+      mrtd: '11'.repeat(48),
+      rtmr0: '22'.repeat(48),
+      rtmr1: '33'.repeat(48),
+      rtmr2: '44'.repeat(48),
+    };
+    const NEXT_OS_IMAGE: OsImageMeasurements = {
+      mrtd: '55'.repeat(48),
+      rtmr0: '66'.repeat(48),
+      rtmr1: '77'.repeat(48),
+      rtmr2: '88'.repeat(48),
+    };
+
+    const serviceWith = (osImageMeasurements: OsImageMeasurements[]) =>
+      new AttestationService(mockApiService, TRUST_POLICY, storage, { osImageMeasurements });
+
+    const reportMeasuring = (image: Partial<OsImageMeasurements>) =>
+      mockTeeReport({
+        mr_td: image.mrtd,
+        rt_mr0: image.rtmr0,
+        rt_mr1: image.rtmr1,
+        rt_mr2: image.rtmr2,
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockApiService.getAttestation.mockResolvedValue(attestationFor(VALID_PUBLIC_KEY));
+      mockJsGetCollateral.mockResolvedValue('mock-collateral');
+      reportMeasuring(OS_IMAGE);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('SECURITY: Should accept a TD that booted a pinned OS image', async () => {
+      const service = serviceWith([NEXT_OS_IMAGE, OS_IMAGE]);
+      await service.init();
+
+      expect(await service.getAttestedPublicKey()).toBe(VALID_PUBLIC_KEY);
+      expect(await service.getVerificationReport()).toMatchObject({
+        verification: { measurements: OS_IMAGE },
+      });
+    });
+
+    it.each([
+      ['MRTD', 'mrtd'],
+      ['RTMR0', 'rtmr0'],
+      ['RTMR1', 'rtmr1'],
+      ['RTMR2', 'rtmr2'],
+    ] as const)('SECURITY: Should reject a tampered %s', async (label, register) => {
+      const tampered = 'ff'.repeat(48);
+      reportMeasuring({ ...OS_IMAGE, [register]: tampered });
+
+      await expect(serviceWith([OS_IMAGE]).init()).rejects.toThrow(
+        `${label} mismatch: reported ${tampered} does not match any pinned OS image`
+      );
+    });
+
+    it('SECURITY: Should reject measurements mixing two pinned OS images', async () => {
+      reportMeasuring({ ...OS_IMAGE, rtmr1: NEXT_OS_IMAGE.rtmr1 });
+
+      await expect(serviceWith([OS_IMAGE, NEXT_OS_IMAGE]).init()).rejects.toThrow('RTMR1 mismatch');
+    });
+
+    it('SECURITY: Should reject a TD report without the pinned measurements', async () => {
+      reportMeasuring({});
+
+      await expect(serviceWith([OS_IMAGE]).init()).rejects.toThrow(
+        'MRTD missing from the TD report'
+      );
+    });
+
+    it('SECURITY: Should not reuse a verification of an OS image no longer pinned', async () => {
+      await serviceWith([OS_IMAGE]).init();
+
+      await expect(serviceWith([NEXT_OS_IMAGE]).init()).rejects.toThrow('MRTD mismatch');
+      expect(mockJsVerify).toHaveBeenCalledTimes(2);
+    });
+
+    it('Should not check OS image measurements unless pinned', async () => {
+      reportMeasuring({});
+
+      await service.init();
+
+      expect(await service.getAttestedPublicKey()).toBe(VALID_PUBLIC_KEY);
+    });
+  });
+
+  describe('Verification Report', () => {
+    const NOW = Date.parse('2026-01-01T00:00:00Z');
+    const HOUR_MS = 60 * 60 * 1000;
+
+    beforeEach(() => {
+      vi.useFakeTimers({ now: NOW });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockApiService.getAttestation.mockResolvedValue(attestationFor(VALID_PUBLIC_KEY));
+      mockJsGetCollateral.mockResolvedValue({
+        tcb_info: JSON.stringify({
+          issueDate: '2025-12-31T00:00:00Z',
+          nextUpdate: '2026-01-30T00:00:00Z',
+        }),
+        qe_identity: 'not-json',
+      });
+      mockTeeReport({ mr_td: '11'.repeat(48) });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('SECURITY: Should describe what was verified', async () => {
+      await service.init();
+
+      const publicKeyHash = await crypto.subtle.digest(
+        'SHA-256',
+        Buffer.from(VALID_PUBLIC_KEY, 'base64')
+      );
+      expect(await service.getVerificationReport()).toEqual({
+        status: 'verified',
+        verification: {
+          verifiedAt: NOW,
+          expiresAt: NOW + 24 * HOUR_MS,
+          reusedFromCache: false,
+          nonceBound: true,
+          tcbStatus: 'UpToDate',
+          advisoryIds: [],
+          app: {
+            appId: VALID_APP_ID,
+            composeHash: VALID_COMPOSE_HASH,
+            instanceId: '396554b3487ed9549b2e57435574b1cc0f959aef',
+            keyProvider: { name: 'kms', id: expect.any(String) },
+          },
+          trustPolicyVersion: 1,
+          measurements: { mrtd: '11'.repeat(48), rtmr3: VALID_RTMR3 },
+          collateral: {
+            tcbInfo: { issueDate: '2025-12-31T00:00:00Z', nextUpdate: '2026-01-30T00:00:00Z' },
+            qeIdentity: null,
+          },
+          publicKeyHash: Buffer.from(publicKeyHash).toString('hex'),
+        },
+      });
+    });
+
+    it('Should tell when the verification was reused from an earlier frame load', async () => {
+      const legacyService = () =>
+        new AttestationService(mockApiService, TRUST_POLICY, storage, {
+          allowLegacyReportData: true,
+        });
+      mockApiService.getAttestation.mockResolvedValue(legacyAttestationFor(VALID_PUBLIC_KEY));
+      await legacyService().init();
+
+      const reloaded = legacyService();
+      await reloaded.init();
+
+      expect(await reloaded.getVerificationReport()).toMatchObject({
+        status: 'verified',
+        verification: { verifiedAt: NOW, reusedFromCache: true },
+      });
+    });
+
+    it('SECURITY: Should report a revoked attestation with the reason', async () => {
+      await service.init();
+
+      mockJsVerify.mockResolvedValue({ status: 'Revoked', report: {} });
+      await vi.advanceTimersByTimeAsync(24 * HOUR_MS);
+      await vi.waitFor(async () =>
+        expect(await service.getVerificationReport()).toMatchObject({
+          status: 'revoked',
+          error: 'TEE attestation is invalid: TCB status Revoked is not accepted',
+          verification: { verifiedAt: NOW },
+        })
+      );
+    });
+
+    it('SECURITY: Should report why no attestation could be verified', async () => {
+      mockJsVerify.mockResolvedValue({ status: 'Revoked', report: {} });
+      await expect(service.init()).rejects.toThrow('TEE attestation is invalid');
+
+      expect(await service.getVerificationReport()).toEqual({
+        status: 'failed',
+        error: 'TEE attestation is invalid: TCB status Revoked is not accepted',
+      });
+      await expect(service.getAttestedPublicKey()).rejects.toThrow(
+        'Attestation service has not been initialized!'
+      );
+    });
+
+    it('Should not report before the service was initialized', async () => {
+      await expect(service.getVerificationReport()).rejects.toThrow(
+        'Attestation service has not been initialized!'
+      );
+    });
+  });
+
+  describe('TCB Policy', () => {
+    const NOW = Date.parse('2026-01-01T00:00:00Z');
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const TCB_RECOVERY = Date.parse('2025-12-25T00:00:00Z');
+
+    const serviceWith = (tcbPolicy: TcbPolicy) =>
+      new AttestationService(mockApiService, TRUST_POLICY, storage, { tcbPolicy });
+
+    const reportWith = (status: string, advisory_ids: string[] = []) =>
+      mockTeeReport({}, status, advisory_ids);
+
+    beforeEach(() => {
+      vi.useFakeTimers({ now: NOW });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockApiService.getAttestation.mockResolvedValue(attestationFor(VALID_PUBLIC_KEY));
+      mockJsGetCollateral.mockResolvedValue({
+        tcb_info: JSON.stringify({
+          nextUpdate: '2026-01-30T00:00:00Z',
+          tcbLevels: [
+            { tcbDate: new Date(TCB_RECOVERY).toISOString(), tcbStatus: 'UpToDate' },
+            { tcbDate: '2025-06-01T00:00:00Z', tcbStatus: 'OutOfDate' },
+          ],
+        }),
+        qe_identity: JSON.stringify({ nextUpdate: '2026-01-30T00:00:00Z' }),
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('SECURITY: Should only accept UpToDate platforms by default', async () => {
+      reportWith('SWHardeningNeeded', ['INTEL-SA-00837']);
+
+      await expect(service.init()).rejects.toThrow(
+        'TEE attestation is invalid: TCB status SWHardeningNeeded is not accepted'
+      );
+    });
+
+    it('Should accept a status and advisories allowed by the policy, and report them', async () => {
+      reportWith('SWHardeningNeeded', ['INTEL-SA-00837']);
+      const hardened = serviceWith({
+        acceptedStatuses: ['SWHardeningNeeded'],
+        acceptedAdvisoryIds: ['INTEL-SA-00837'],
+      });
+
+      await hardened.init();
+
+      expect(await hardened.getVerificationReport()).toMatchObject({
+        status: 'verified',
+        verification: { tcbStatus: 'SWHardeningNeeded', advisoryIds: ['INTEL-SA-00837'] },
+      });
+    });
+
+    it('SECURITY: Should reject advisories the policy does not list', async () => {
+      reportWith('SWHardeningNeeded', ['INTEL-SA-00837', 'INTEL-SA-00999']);
+
+      await expect(
+        serviceWith({
+          acceptedStatuses: ['SWHardeningNeeded'],
+          acceptedAdvisoryIds: ['INTEL-SA-00837'],
+        }).init()
+      ).rejects.toThrow('TEE attestation is invalid: advisories not accepted: INTEL-SA-00999');
+    });
+
+    it('Should accept OutOfDate platforms until the grace period after the TCB recovery ends', async () => {
+      reportWith('OutOfDate');
+      const outdated = serviceWith({
+        acceptedStatuses: [],
+        acceptedAdvisoryIds: [],
+        outOfDateGracePeriodMs: 30 * DAY_MS,
+      });
+
+      await outdated.init();
+
+      const graceEndsAt = TCB_RECOVERY + 30 * DAY_MS;
+      expect(await outdated.getVerificationReport()).toMatchObject({
+        verification: {
+          tcbStatus: 'OutOfDate',
+          tcbGraceEndsAt: graceEndsAt,
+          expiresAt: Math.min(graceEndsAt, NOW + DAY_MS),
+        },
+      });
+    });
+
+    it('SECURITY: Should reject OutOfDate platforms past their grace period', async () => {
+      reportWith('OutOfDate');
+
+      await expect(
+        serviceWith({
+          acceptedStatuses: [],
+          acceptedAdvisoryIds: [],
+          outOfDateGracePeriodMs: 7 * DAY_MS,
+        }).init()
+      ).rejects.toThrow(
+        'TEE attestation is invalid: TCB out of date since 2025-12-25T00:00:00.000Z, past its grace period'
+      );
+    });
+
+    it('SECURITY: Should reject OutOfDate platforms when the TCB recovery date is unknown', async () => {
+      reportWith('OutOfDate');
+      mockJsGetCollateral.mockResolvedValue({
+        tcb_info: JSON.stringify({ nextUpdate: '2026-01-30T00:00:00Z' }),
+        qe_identity: JSON.stringify({ nextUpdate: '2026-01-30T00:00:00Z' }),
+      });
+
+      await expect(
+        serviceWith({
+          acceptedStatuses: [],
+          acceptedAdvisoryIds: [],
+          outOfDateGracePeriodMs: 30 * DAY_MS,
+        }).init()
+      ).rejects.toThrow('the date the TCB went out of date is unknown');
+    });
+
+    it('SECURITY: Should not reuse a verification the TCB policy no longer accepts', async () => {
+      reportWith('SWHardeningNeeded', ['INTEL-SA-00837']);
+      await serviceWith({
+        acceptedStatuses: ['SWHardeningNeeded'],
+        acceptedAdvisoryIds: ['INTEL-SA-00837'],
+      }).init();
+
+      await expect(service.init()).rejects.toThrow('TCB status SWHardeningNeeded is not accepted');
+      expect(mockJsVerify).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Freshness Nonce', () => {
+    const legacyService = () =>
+      new AttestationService(mockApiService, TRUST_POLICY, storage, {
+        allowLegacyReportData: true,
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockApiService.getAttestation.mockResolvedValue(attestationFor(VALID_PUBLIC_KEY));
+      mockJsGetCollateral.mockResolvedValue('mock-collateral');
+      mockTeeReport();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('SECURITY: Should request every attestation with a fresh nonce', async () => {
+      await service.init();
+      await new AttestationService(mockApiService, TRUST_POLICY, storage).init();
+
+      const [[first], [second]] = mockApiService.getAttestation.mock.calls;
+      expect(first).toMatch(/^[0-9a-f]{64}$/);
+      expect(second).toMatch(/^[0-9a-f]{64}$/);
+      expect(first).not.toBe(second);
+      expect(await service.getVerificationReport()).toMatchObject({
+        verification: { nonceBound: true },
+      });
+    });
+
+    it('SECURITY: Should reject a quote replayed from an earlier request', async () => {
+      const replayedReportData = await reportDataFor(VALID_PUBLIC_KEY, 'ab'.repeat(32));
+      mockJsVerify.mockResolvedValue({
+        status: 'UpToDate',
+        report: { TD10: { report_data: replayedReportData, rt_mr3: VALID_RTMR3 } },
+      });
+
+      await expect(service.init()).rejects.toThrow(
+        'TEE reported public key does not match attestation report'
+      );
+    });
+
+    it('SECURITY: Should reject legacy report data by default', async () => {
+      mockApiService.getAttestation.mockResolvedValue(legacyAttestationFor(VALID_PUBLIC_KEY));
+
+      await expect(service.init()).rejects.toThrow(
+        'TEE attestation report data is in the legacy app-data format, not bound to a nonce'
+      );
+    });
+
+    it('Should accept legacy report data behind the compatibility flag', async () => {
+      mockApiService.getAttestation.mockResolvedValue(legacyAttestationFor(VALID_PUBLIC_KEY));
+      const legacy = legacyService();
+
+      await legacy.init();
+
+      expect(await legacy.getVerificationReport()).toMatchObject({
+        status: 'verified',
+        verification: { nonceBound: false },
+      });
+    });
+
+    it('SECURITY: Should not reuse a legacy verification once legacy report data is disallowed', async () => {
+      mockApiService.getAttestation.mockResolvedValue(legacyAttestationFor(VALID_PUBLIC_KEY));
+      await legacyService().init();
+
+      await expect(service.init()).rejects.toThrow('legacy app-data format');
+      expect(mockJsVerify).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('Secure Failure Modes', () => {
     it('SECURITY: Should prevent access to uninitialized service', async () => {
       await expect(service.getAttestedPublicKey()).rejects.toThrow(
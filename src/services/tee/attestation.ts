@@ -5,12 +5,37 @@ import wasm from '@phala/dcap-qvl-web/dcap-qvl-web_bg.wasm';
 import { decodeBytes, encodeBytes } from '../common/utils';
 import { z } from 'zod';
 import { isDevelopment } from '../api';
+import { ATTESTATION_STORE_NAME, type KeyValueStore } from '../storage';
+import type { AttestationReport } from '../communications/schemas';
+import {
+  DEFAULT_COLLATERAL_SOURCES,
+  quoteCollateralSchema,
+  toVerifierCollateral,
+  type CollateralSource,
+  type QuoteCollateral,
+} from './collateral';
+import {
+  assertTrustedBuild,
+  openSignedTrustPolicy,
+  type SignedTrustPolicy,
+  type TrustedBuild,
+  type TrustPolicy,
+} from './trust-policy';
+import {
+  assertKnownOsImage,
+  osImageMeasurementsSchema,
+  type OsImageMeasurements,
+} from './measurements';
+import { assertAcceptedTcb, DEFAULT_TCB_POLICY, type TcbPolicy, type TcbState } from './tcb-policy';
 
 // TEE Quote Verification using Phala's DCAP QVL library
-const PCCS_URL = 'https://pccs.phala.network/tdx/certification/v4';
-const ATTESTATION_VERIFIED_STATUS = 'UpToDate';
-const TEE_REPORT_DATA_PREFIX = 'app-data:';
+const TCB_UP_TO_DATE_STATUS = 'UpToDate';
 const TEE_REPORT_DATA_HASH = 'SHA-512' as const;
+// Legacy report data is sha512('app-data:' || public key), and nonce-bound report data is
+// sha512('app-data-v2:' || nonce || public key). The nonce has a fixed length
+const LEGACY_REPORT_DATA_FORMAT = 'app-data';
+const NONCE_REPORT_DATA_FORMAT = 'app-data-v2';
+const ATTESTATION_NONCE_LENGTH = 32;
 
 // RTMR calculation constants - Based on DStack TEE implementations
 const INIT_MR =
@@ -22,6 +47,18 @@ const RTMR3_HASH_ALGORITHM = 'SHA-384';
 const SHA512_HASH_LENGTH = 64;
 const SHA384_HASH_LENGTH = 48;
 
+// Verified attestations are reused across frame loads until the collateral's next update, or this
+const DEFAULT_ATTESTATION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const VERIFIED_ATTESTATION_KEY = 'verified-attestation';
+const TRUST_POLICY_KEY = 'trust-policy';
+const QUOTE_HASH_ALGORITHM = 'SHA-256';
+const PUBLIC_KEY_HASH_ALGORITHM = 'SHA-256';
+// setTimeout fires at once for delays that do not fit in a signed 32-bit integer
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Measurements of the OS image the TD booted, besides RTMR3 which measures the application
+const OS_IMAGE_MEASUREMENTS = ['mrtd', 'rtmr0', 'rtmr1', 'rtmr2'] as const;
+
 // Event name mappings for application info extraction
 const EVENT_NAMES = {
   APP_ID: 'app-id',
@@ -30,21 +67,36 @@ const EVENT_NAMES = {
   KEY_PROVIDER: 'key-provider',
 } as const;
 
+// Fields of the TD report besides report_data and RTMR3 are only required when verified
+const TD10ReportSchema = z.object({
+  tee_tcb_svn: z.string().optional(),
+  mr_seam: z.string().optional(),
+  mr_signer_seam: z.string().optional(),
+  seam_attributes: z.string().optional(),
+  td_attributes: z.string().optional(),
+  xfam: z.string().optional(),
+  mr_td: z.string().optional(),
+  mr_config_id: z.string().optional(),
+  mr_owner: z.string().optional(),
+  mr_owner_config: z.string().optional(),
+  rt_mr0: z.string().optional(),
+  rt_mr1: z.string().optional(),
+  rt_mr2: z.string().optional(),
+  rt_mr3: z.string(),
+  report_data: z.string(),
+});
+
+const TD15ReportSchema = TD10ReportSchema.extend({
+  tee_tcb_svn2: z.string().optional(),
+  mr_service_td: z.string().optional(),
+});
+
 const AttestationReportSchema = z.object({
   status: z.string(),
+  advisory_ids: z.array(z.string()).default([]),
   report: z.object({
-    TD10: z
-      .object({
-        report_data: z.string(),
-        rt_mr3: z.string(),
-      })
-      .optional(),
-    TD15: z
-      .object({
-        report_data: z.string(),
-        rt_mr3: z.string(),
-      })
-      .optional(),
+    TD10: TD10ReportSchema.optional(),
+    TD15: TD15ReportSchema.optional(),
   }),
 });
 
@@ -71,8 +123,58 @@ const ApplicationInfoSchema = z.object({
   key_provider: KeyProviderSchema,
 });
 
+// Only the fields giving the dates Intel issued and next updates the TCB info and QE identity
+// are read
+const CollateralSchema = z.object({
+  tcb_info: z.string(),
+  qe_identity: z.string(),
+});
+
+const CollateralBodySchema = z.object({
+  issueDate: z.string().optional(),
+  nextUpdate: z.string(),
+});
+
+// Intel lists TCB levels newest first, the first UpToDate one being the latest TCB recovery
+const TcbInfoLevelsSchema = z.object({
+  tcbLevels: z.array(z.object({ tcbDate: z.string(), tcbStatus: z.string() })),
+});
+
+const CollateralDatesSchema = z.object({
+  tcbInfo: CollateralBodySchema.nullable(),
+  qeIdentity: CollateralBodySchema.nullable(),
+});
+
+/**
+ * Result of a successful verification, persisted so that later frame loads can skip it until it
+ * expires: entirely for the same legacy quote and public key, and all but the quote verification
+ * for a nonce-bound quote of the same public key and measurements.
+ */
+const VerifiedAttestationSchema = z.object({
+  quoteHash: z.string(),
+  nonceBound: z.boolean(),
+  publicKey: z.string(),
+  rtmr3: z.string(),
+  osImage: osImageMeasurementsSchema.partial(),
+  appInfo: ApplicationInfoSchema,
+  tcbStatus: z.string(),
+  advisoryIds: z.array(z.string()),
+  outOfDateSince: z.number().nullable(),
+  tcbGraceEndsAt: z.number().nullable(),
+  collateralDates: CollateralDatesSchema,
+  collateralNextUpdate: z.number().nullable(),
+  // Collateral in the verifier's format, which nonce-bound quotes are verified against on reuse
+  collateral: z.unknown(),
+  verifiedAt: z.number(),
+  expiresAt: z.number(),
+});
+
+type TDReport = z.infer<typeof TD10ReportSchema>;
 type EventLogEntry = z.infer<typeof EventLogEntrySchema>;
 type ApplicationInfo = z.infer<typeof ApplicationInfoSchema>;
+type CollateralDates = z.infer<typeof CollateralDatesSchema>;
+type VerifiedAttestation = z.infer<typeof VerifiedAttestationSchema>;
+type Attestation = Awaited<ReturnType<CrossmintApiService['getAttestation']>>;
 
 /**
  * TEE Attestation Service for DStack Applications
@@ -90,20 +192,69 @@ type ApplicationInfo = z.infer<typeof ApplicationInfoSchema>;
  * provided by the Phala team for DStack applications:
  * https://github.com/Dstack-TEE/dstack-examples/blob/main/attestation/rtmr3-based/verify.py
  *
+ * Verified results are cached in storage, bound to the public key, until the collateral's next
+ * update or `maxAgeMs`, whichever comes first, after which the attestation is verified again in
+ * the background. A failed re-verification revokes the attested public key.
+ *
+ * Collateral is taken from the first of `collateralSources` that provides it: by default the
+ * collateral Crossmint serves next to the quote, then Phala's PCCS.
+ *
+ * The TEE builds the frame trusts are listed in a trust policy, so that the previous and next
+ * builds are both accepted during a rollover. The policy pinned in the frame can be superseded by
+ * a newer one signed with `trustPolicySigningKey`, served next to the attestation.
+ *
+ * RTMR3 only measures the application. When `osImageMeasurements` are given, MRTD and RTMR0-2
+ * must also match one of them, so that the firmware, kernel and initrd the application runs on
+ * are known-good DStack OS images too.
+ *
+ * Platforms are accepted in TCB states other than `UpToDate` when `tcbPolicy` allows it, with
+ * `OutOfDate` ones verified again once their grace period ends.
+ *
+ * Every attestation is requested with a fresh nonce, that the quote's report data must commit to
+ * along with the public key, so that a relay cannot replay an old quote. Quotes in the legacy
+ * format, committing to the key only, are rejected unless `allowLegacyReportData` is set.
+ *
+ * A nonce-bound quote differs on every request, so its cached verification only spares the
+ * collateral download and the application, OS image and trust policy checks: the quote is still
+ * verified against the cached collateral, must measure the same TD, and its report data must
+ * commit to the nonce of this request. A legacy quote reuses the verification made for the same
+ * quote entirely.
  */
 export class AttestationService extends CrossmintFrameService {
   name = 'Attestation Service';
   log_prefix = '[AttestationService]';
 
+  private trustPolicy: TrustPolicy;
+
   constructor(
     private readonly api: CrossmintApiService,
-    private readonly expectedAppId: string
+    pinnedTrustPolicy: TrustPolicy,
+    private readonly storage: KeyValueStore,
+    private readonly options: {
+      maxAgeMs?: number;
+      collateralSources?: CollateralSource[];
+      trustPolicySigningKey?: string;
+      osImageMeasurements?: OsImageMeasurements[];
+      tcbPolicy?: TcbPolicy;
+      allowLegacyReportData?: boolean;
+    } = {}
   ) {
     super();
+    this.trustPolicy = pinnedTrustPolicy;
+  }
+
+  private get maxAgeMs(): number {
+    return this.options.maxAgeMs ?? DEFAULT_ATTESTATION_MAX_AGE_MS;
   }
 
   // This being not null implicitly assumes validation
   private publicKey: string | null = null;
+  private reverificationTimer: ReturnType<typeof setTimeout> | null = null;
+  // Last successful verification and why the key it attested was revoked, for the report
+  private verification: { verified: VerifiedAttestation; reusedFromCache: boolean } | null = null;
+  private revocationReason: string | null = null;
+  // Why no attestation could be verified when the frame loaded, for the report
+  private failureReason: string | null = null;
 
   async init() {
     try {
@@ -112,26 +263,20 @@ export class AttestationService extends CrossmintFrameService {
         return;
       }
 
-      const attestation = await this.api.getAttestation();
+      const nonce = this.generateNonce();
+      const attestation = await this.api.getAttestation(nonce);
       this.log('TEE attestation document fetched');
+      await this.adoptTrustPolicy(attestation.trustPolicy);
 
-      this.log('Verifying intel TDX quote');
-      const validatedReport = await this.verifyTEEReport(attestation.quote);
-
-      this.log('Extracting TD report data and RTMR3');
-      const { report_data, rt_mr3 } = this.extractTD(validatedReport);
-
-      this.log('Verifying TEE application integrity');
-      await this.verifyTEEApplicationIntegrity(attestation.event_log, rt_mr3);
-
-      this.log('Verifying relay reported public key');
-      await this.verifyTEEPublicKey(report_data, attestation.publicKey);
-
-      this.publicKey = attestation.publicKey;
-      this.log('TEE attestation document fully validated! Continuing...');
+      const cached = await this.getCachedAttestation(attestation, nonce);
+      const verified = cached ?? (await this.verifyAttestation(attestation, nonce));
+      this.publicKey = verified.publicKey;
+      this.verification = { verified, reusedFromCache: cached != null };
+      this.scheduleReverification(verified.expiresAt);
     } catch (e: unknown) {
       this.logError('Failed to validate attestation document! This error is not recoverable');
       this.publicKey = null;
+      this.failureReason = e instanceof Error ? e.message : String(e);
       throw e;
     }
   }
@@ -144,15 +289,62 @@ export class AttestationService extends CrossmintFrameService {
     return this.publicKey;
   }
 
+  /**
+   * Describes what the frame verified about the TEE it encrypts to: the TCB status, the
+   * application build and its measurements, the collateral dates and the attested public key.
+   *
+   * @throws {Error} When the service was not initialized yet
+   */
+  async getVerificationReport(): Promise<AttestationReport> {
+    if (this.verification == null) {
+      if (this.failureReason != null) {
+        return { status: 'failed', error: this.failureReason };
+      }
+      if (this.publicKey == null) {
+        throw new Error('Attestation service has not been initialized!');
+      }
+      return { status: 'skipped' };
+    }
+
+    const { verified, reusedFromCache } = this.verification;
+    const publicKeyHash = await crypto.subtle.digest(
+      PUBLIC_KEY_HASH_ALGORITHM,
+      decodeBytes(verified.publicKey, 'base64')
+    );
+    return {
+      status: this.publicKey != null ? 'verified' : 'revoked',
+      ...(this.revocationReason != null && { error: this.revocationReason }),
+      verification: {
+        verifiedAt: verified.verifiedAt,
+        expiresAt: verified.expiresAt,
+        reusedFromCache,
+        nonceBound: verified.nonceBound,
+        tcbStatus: verified.tcbStatus,
+        advisoryIds: verified.advisoryIds,
+        ...(verified.tcbGraceEndsAt != null && { tcbGraceEndsAt: verified.tcbGraceEndsAt }),
+        app: {
+          appId: verified.appInfo.app_id,
+          composeHash: verified.appInfo.compose_hash,
+          instanceId: verified.appInfo.instance_id,
+          keyProvider: verified.appInfo.key_provider,
+        },
+        trustPolicyVersion: this.trustPolicy.version,
+        measurements: { ...verified.osImage, rtmr3: verified.rtmr3 },
+        collateral: verified.collateralDates,
+        publicKeyHash: encodeBytes(new Uint8Array(publicKeyHash), 'hex'),
+      },
+    };
+  }
+
   /**
    * Verifies the Intel TDX TEE attestation report using WASM-based quote verification.
    *
    * This method performs the core hardware attestation validation by:
    * 1. Initializing the Intel DCAP Quote Verification Library (WASM)
    * 2. Decoding the attestation quote from hexadecimal format
-   * 3. Retrieving cryptographic collateral from Phala's PCCS service
+   * 3. Retrieving cryptographic collateral from the configured sources
    * 4. Verifying the quote authenticity and recency using Intel's verification logic
-   * 5. Validating that the TEE attestation status is current and trusted
+   * 5. Validating that the platform's TCB status and advisories are accepted by the TCB policy
    *
    * The verification process cryptographically proves that:
    * - The code is running in a genuine Intel TDX Trusted Execution Environment
@@ -160,26 +352,14 @@ export class AttestationService extends CrossmintFrameService {
    * - The attestation was generated recently (prevents replay attacks)
    *
    * @param quote - Base64-encoded Intel TDX attestation quote containing TEE measurements
+   * @param servedCollateral - Collateral served next to the quote, used if sources allow it
    * @returns Promise resolving to validated attestation report with TEE measurements and status
    * @throws {Error} When WASM initialization fails
    * @throws {Error} When quote verification fails or collateral retrieval fails
-   * @throws {Error} When TEE attestation status is not 'UpToDate' (indicating untrusted TEE)
+   * @throws {Error} When the TCB policy does not accept the TCB status or advisories of the platform
    */
-  public async verifyTEEReport(quote: string) {
-    await init(wasm);
-
-    const decodedQuote = decodeBytes(quote, 'hex');
-    const collateral = await js_get_collateral(PCCS_URL, decodedQuote);
-    const currentTime = BigInt(Math.floor(Date.now() / 1000));
-    const report = await js_verify(decodedQuote, collateral, currentTime);
-
-    const validatedReport = AttestationReportSchema.parse(report);
-
-    if (validatedReport.status !== ATTESTATION_VERIFIED_STATUS) {
-      throw new Error('TEE attestation is invalid');
-    }
-
-    return validatedReport;
+  public async verifyTEEReport(quote: string, servedCollateral?: QuoteCollateral) {
+    return (await this.verifyQuote(quote, servedCollateral)).report;
   }
 
   /**
@@ -190,7 +370,7 @@ export class AttestationService extends CrossmintFrameService {
    * 2. Extracting application information (app ID, compose hash, instance ID) from validated events
    * 3. Replaying RTMR3 calculation from validated event digests
    * 4. Comparing replayed RTMR3 against the value reported by the TEE hardware
-   * 5. Validating that the application ID matches the expected authorized application
+   * 5. Validating that the application is a build the trust policy allows at this time
    *
    * The validation approach follows the reference implementation provided by the Dstack authors
    * https://github.com/Dstack-TEE/dstack-examples/blob/main/attestation/rtmr3-based/verify.py
@@ -203,16 +383,16 @@ export class AttestationService extends CrossmintFrameService {
    *
    * @param eventLogJson - JSON string containing TEE event log with component measurements
    * @param reportedRtmr3 - RTMR3 value reported by TEE hardware for comparison
-   * @returns Promise that resolves if integrity validation passes
+   * @returns Promise resolving to the validated application information
    * @throws {Error} When event log JSON is malformed or contains invalid RTMR3 events
    * @throws {Error} When replayed RTMR3 doesn't match reported value (indicates tampering)
-   * @throws {Error} When application ID doesn't match expected authorized application
+   * @throws {Error} When the trust policy does not allow the application build
    * @throws {Error} When required application events are missing from the log
    */
   public async verifyTEEApplicationIntegrity(
     eventLogJson: string,
     reportedRtmr3: string
-  ): Promise<void> {
+  ): Promise<ApplicationInfo> {
     const eventLog = this.parseEventLog(eventLogJson);
     await this.validateAllEvents(eventLog);
     const appInfo = this.extractApplicationInfo(eventLog);
@@ -223,43 +403,481 @@ export class AttestationService extends CrossmintFrameService {
     }
 
     this.validateApplicationInfo(appInfo);
+    return appInfo;
   }
 
   /**
-   * Verifies that the TEE attestation report cryptographically commits to the provided public key.
+   * Verifies that the TEE attestation report cryptographically commits to the provided public key,
+   * and to the nonce the attestation was requested with.
    *
    * This method establishes the critical link between the TEE hardware attestation and the
    * TEE's public key, which if left unchecked, may otherwise be modified by the system Relay.
    * It does so by:
    * 1. Extracting the report_data field from the TEE attestation
-   * 2. Reconstructing the expected report_data by hashing 'app-data:' prefix + relay reported public key
+   * 2. Reconstructing the expected report_data by hashing 'app-data-v2:' prefix + nonce + relay
+   *    reported public key, or 'app-data:' prefix + relay reported public key without a nonce
    * 3. Comparing the reconstructed hash with the TEE-reported hash byte-by-byte
    *
    * The TEE report_data field contains a SHA-512 hash that was generated inside the TEE,
    * proving that the TEE had access to the public key during attestation generation.
    * This prevents key substitution attacks where a malicious Relay might try to use a different
-   * public key than the one actually protected by the TEE.
+   * public key than the one actually protected by the TEE. Committing to the nonce also prevents
+   * a Relay from replaying a quote generated for an earlier request.
    *
    * @param reportData - Hexadecimal TEE report_data containing hash of attested public key
    * @param publicKey - Base64-encoded public key that should be attested by the TEE
+   * @param nonce - Hexadecimal nonce the attestation was requested with, or null for the legacy
+   * format committing to the public key only
    * @returns Promise that resolves if the key has been cryptographically verified by the TEE
    * @throws {Error} When cryptographic hash calculation fails
    * @throws {Error} When report_data length is invalid (not 64 bytes for SHA-512)
    */
-  public async verifyTEEPublicKey(reportData: string, publicKey: string): Promise<void> {
-    const publicKeyIsAttested = await this.verifyReportAttestsPublicKey(reportData, publicKey);
+  public async verifyTEEPublicKey(
+    reportData: string,
+    publicKey: string,
+    nonce: string | null = null
+  ): Promise<void> {
+    const publicKeyIsAttested = await this.verifyReportAttestsPublicKey(
+      reportData,
+      publicKey,
+      nonce
+    );
 
     if (!publicKeyIsAttested) {
       throw new Error('TEE reported public key does not match attestation report');
     }
   }
 
+  /**
+   * Runs the full verification of an attestation document and caches the result.
+   */
+  private async verifyAttestation(
+    attestation: Attestation,
+    nonce: string
+  ): Promise<VerifiedAttestation> {
+    this.log('Verifying intel TDX quote');
+    const { report, tcb, tcbGraceEndsAt, collateral, collateralDates } = await this.verifyQuote(
+      attestation.quote,
+      attestation.collateral
+    );
+
+    this.log('Extracting TD report data and measurements');
+    const td = this.extractTD(report);
+    const { report_data, rt_mr3 } = td;
+
+    this.log('Verifying TEE OS image measurements');
+    const osImage = this.getOsImageMeasurements(td);
+    this.validateOsImage(osImage);
+
+    this.log('Verifying TEE application integrity');
+    const appInfo = await this.verifyTEEApplicationIntegrity(attestation.event_log, rt_mr3);
+
+    this.log('Verifying relay reported public key');
+    const nonceBound = attestation.prefix === NONCE_REPORT_DATA_FORMAT;
+    if (!nonceBound) {
+      this.assertLegacyReportDataAllowed();
+    }
+    await this.verifyTEEPublicKey(report_data, attestation.publicKey, nonceBound ? nonce : null);
+
+    const verifiedAt = Date.now();
+    const collateralNextUpdate = this.getCollateralNextUpdate(collateralDates);
+    const { validUntil } = this.validateApplicationInfo(appInfo);
+    const verified: VerifiedAttestation = {
+      quoteHash: await this.hashQuote(attestation.quote),
+      nonceBound,
+      publicKey: attestation.publicKey,
+      rtmr3: rt_mr3,
+      osImage,
+      appInfo,
+      tcbStatus: report.status,
+      advisoryIds: tcb.advisoryIds,
+      outOfDateSince: tcb.outOfDateSince,
+      tcbGraceEndsAt,
+      collateralDates,
+      collateralNextUpdate,
+      collateral,
+      verifiedAt,
+      expiresAt: Math.min(
+        collateralNextUpdate ?? Number.POSITIVE_INFINITY,
+        validUntil != null ? Date.parse(validUntil) : Number.POSITIVE_INFINITY,
+        tcbGraceEndsAt ?? Number.POSITIVE_INFINITY,
+        verifiedAt + this.maxAgeMs
+      ),
+    };
+    this.log('TEE attestation document fully validated! Continuing...');
+
+    try {
+      await this.storage.setItem(ATTESTATION_STORE_NAME, VERIFIED_ATTESTATION_KEY, verified);
+    } catch (error) {
+      this.logError(`Failed to cache the verified attestation: ${error}`);
+    }
+    return verified;
+  }
+
+  /**
+   * @param cachedCollateral - Collateral a previous verification used, instead of getting it from
+   * the collateral sources
+   */
+  private async verifyQuote(
+    quote: string,
+    servedCollateral?: QuoteCollateral,
+    cachedCollateral?: unknown
+  ) {
+    await init(wasm);
+
+    const decodedQuote = decodeBytes(quote, 'hex');
+    const collateral =
+      cachedCollateral ?? (await this.getCollateral(decodedQuote, servedCollateral));
+    const currentTime = BigInt(Math.floor(Date.now() / 1000));
+    const report = await js_verify(decodedQuote, collateral, currentTime);
+
+    const validatedReport = AttestationReportSchema.parse(report);
+
+    const tcb: TcbState = {
+      status: validatedReport.status,
+      advisoryIds: validatedReport.advisory_ids,
+      outOfDateSince: this.getTcbRecoveryDate(collateral),
+    };
+    const tcbGraceEndsAt = this.validateTcb(tcb);
+    if (tcb.status !== TCB_UP_TO_DATE_STATUS || tcb.advisoryIds.length > 0) {
+      this.log(
+        `Accepting TCB status ${tcb.status} with advisories [${tcb.advisoryIds.join(', ')}]`
+      );
+    }
+
+    return {
+      report: validatedReport,
+      tcb,
+      tcbGraceEndsAt,
+      collateral,
+      collateralDates: this.getCollateralDates(collateral),
+    };
+  }
+
+  /**
+   * Gets collateral for a quote from the first source, in order, that provides it.
+   *
+   * Sources do not need to be trusted: `js_verify` checks the signatures of the TCB info and QE
+   * identity, and their certificate chains up to Intel's root CA, so altered or foreign collateral
+   * fails verification instead of being accepted.
+   *
+   * @throws {Error} When no source provides collateral
+   */
+  private async getCollateral(
+    quote: Uint8Array,
+    servedCollateral?: QuoteCollateral
+  ): Promise<unknown> {
+    const failures: string[] = [];
+    for (const source of this.options.collateralSources ?? DEFAULT_COLLATERAL_SOURCES) {
+      try {
+        switch (source.type) {
+          case 'pccs':
+            return await js_get_collateral(source.url, quote);
+          case 'attestation':
+            if (servedCollateral != null) {
+              return toVerifierCollateral(servedCollateral);
+            }
+            failures.push('attestation: no collateral served');
+            break;
+          case 'bundle':
+            return toVerifierCollateral(quoteCollateralSchema.parse(source.collateral));
+        }
+      } catch (error) {
+        failures.push(`${source.type}: ${error}`);
+      }
+    }
+    throw new Error(`No collateral available to verify the TEE quote (${failures.join(', ')})`);
+  }
+
+  /**
+   * Returns the cached verification result when it was made for this public key, is not expired
+   * and was made for an application, OS image, TCB state and report data format this frame still
+   * trusts. A cached result for another
+   * public key is discarded at once, as the TEE key it vouched for has been replaced.
+   *
+   * A legacy quote must be the one the result was cached for. A nonce-bound quote is verified
+   * against the cached collateral instead, see {@link verifyNonceBoundQuote}.
+   */
+  private async getCachedAttestation(
+    attestation: Attestation,
+    nonce: string
+  ): Promise<VerifiedAttestation | null> {
+    const parsed = VerifiedAttestationSchema.safeParse(
+      await this.storage.getItem(ATTESTATION_STORE_NAME, VERIFIED_ATTESTATION_KEY)
+    );
+    if (!parsed.success) {
+      return null;
+    }
+
+    const cached = parsed.data;
+    if (cached.publicKey !== attestation.publicKey) {
+      this.log('TEE public key changed, discarding the cached attestation');
+      await this.storage.removeItem(ATTESTATION_STORE_NAME, VERIFIED_ATTESTATION_KEY);
+      return null;
+    }
+    const nonceBound = attestation.prefix === NONCE_REPORT_DATA_FORMAT;
+    const quoteMatches = nonceBound
+      ? cached.nonceBound && cached.collateral != null
+      : !cached.nonceBound && cached.quoteHash === (await this.hashQuote(attestation.quote));
+    if (!quoteMatches || cached.expiresAt <= Date.now()) {
+      return null;
+    }
+    let tcbGraceEndsAt: number | null;
+    try {
+      if (!nonceBound) {
+        this.assertLegacyReportDataAllowed();
+      }
+      this.validateApplicationInfo(cached.appInfo);
+      this.validateOsImage(cached.osImage);
+      tcbGraceEndsAt = this.validateTcb({
+        status: cached.tcbStatus,
+        advisoryIds: cached.advisoryIds,
+        outOfDateSince: cached.outOfDateSince,
+      });
+    } catch {
+      return null;
+    }
+
+    if (nonceBound) {
+      return this.verifyNonceBoundQuote(attestation, nonce, cached);
+    }
+    this.log(`Reusing attestation verified at ${new Date(cached.verifiedAt).toISOString()}`);
+    // The grace period of an out of date platform may have been shortened since
+    return {
+      ...cached,
+      tcbGraceEndsAt,
+      expiresAt: Math.min(cached.expiresAt, tcbGraceEndsAt ?? Number.POSITIVE_INFINITY),
+    };
+  }
+
+  /**
+   * Verifies a nonce-bound quote against the collateral of a cached verification, which spares
+   * downloading collateral and checking the application and OS image again: those only depend on
+   * the measurements, which must be the cached ones. The report data must commit to the nonce of
+   * this request, so that an earlier quote cannot be replayed.
+   *
+   * @returns The cached verification with the TCB state of this quote, or null when the quote does
+   * not verify against it, to be verified in full instead
+   */
+  private async verifyNonceBoundQuote(
+    attestation: Attestation,
+    nonce: string,
+    cached: VerifiedAttestation
+  ): Promise<VerifiedAttestation | null> {
+    try {
+      const { report, tcb, tcbGraceEndsAt } = await this.verifyQuote(
+        attestation.quote,
+        undefined,
+        cached.collateral
+      );
+      const td = this.extractTD(report);
+      const osImage = this.getOsImageMeasurements(td);
+      const sameMeasurements =
+        td.rt_mr3 === cached.rtmr3 &&
+        OS_IMAGE_MEASUREMENTS.every(field => osImage[field] === cached.osImage[field]);
+      if (!sameMeasurements) {
+        throw new Error('TEE measurements differ from the cached verification');
+      }
+      await this.verifyTEEPublicKey(td.report_data, attestation.publicKey, nonce);
+
+      this.log(`Reusing attestation verified at ${new Date(cached.verifiedAt).toISOString()}`);
+      return {
+        ...cached,
+        quoteHash: await this.hashQuote(attestation.quote),
+        tcbStatus: tcb.status,
+        advisoryIds: tcb.advisoryIds,
+        outOfDateSince: tcb.outOfDateSince,
+        tcbGraceEndsAt,
+        expiresAt: Math.min(cached.expiresAt, tcbGraceEndsAt ?? Number.POSITIVE_INFINITY),
+      };
+    } catch (error) {
+      this.log(`Cached attestation cannot be reused, verifying in full: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Switches to the newest trust policy signed with the pinned key, among the one served with the
+   * attestation and the one adopted on a previous load. The adopted policy is persisted, so that
+   * builds it retired are not trusted again when a later attestation comes without it.
+   */
+  private async adoptTrustPolicy(served?: SignedTrustPolicy): Promise<void> {
+    const signingKey = this.options.trustPolicySigningKey;
+    if (signingKey == null) {
+      return;
+    }
+
+    const stored = await this.storage.getItem<SignedTrustPolicy>(
+      ATTESTATION_STORE_NAME,
+      TRUST_POLICY_KEY
+    );
+    for (const signed of [stored, served]) {
+      if (signed == null) {
+        continue;
+      }
+      let policy: TrustPolicy;
+      try {
+        policy = openSignedTrustPolicy(signed, signingKey);
+      } catch (error) {
+        this.logError(`Ignoring TEE trust policy: ${error}`);
+        continue;
+      }
+      if (policy.version <= this.trustPolicy.version) {
+        continue;
+      }
+
+      this.trustPolicy = policy;
+      this.log(`Using TEE trust policy version ${policy.version}`);
+      if (signed !== stored) {
+        await this.storage.setItem(ATTESTATION_STORE_NAME, TRUST_POLICY_KEY, signed);
+      }
+    }
+  }
+
+  private scheduleReverification(expiresAt: number): void {
+    if (this.reverificationTimer != null) {
+      clearTimeout(this.reverificationTimer);
+    }
+    const delay = Math.min(Math.max(expiresAt - Date.now(), 0), MAX_TIMER_DELAY_MS);
+    this.reverificationTimer = setTimeout(() => this.reverify(), delay);
+  }
+
+  /**
+   * Verifies the attestation again once the previous result expired, while the frame keeps
+   * serving requests. If it fails, the attested public key is no longer trusted and requests that
+   * need it fail until the frame is reloaded.
+   */
+  private async reverify(): Promise<void> {
+    this.reverificationTimer = null;
+    try {
+      this.log('Attestation expired, verifying it again');
+      const nonce = this.generateNonce();
+      const attestation = await this.api.getAttestation(nonce);
+      await this.adoptTrustPolicy(attestation.trustPolicy);
+      const verified = await this.verifyAttestation(attestation, nonce);
+      if (verified.publicKey !== this.publicKey) {
+        this.log('TEE public key changed since the last verification');
+      }
+      this.publicKey = verified.publicKey;
+      this.verification = { verified, reusedFromCache: false };
+      this.scheduleReverification(verified.expiresAt);
+    } catch (error) {
+      this.logError(
+        `Failed to verify the attestation again, revoking the TEE public key: ${error}`
+      );
+      this.publicKey = null;
+      this.revocationReason = error instanceof Error ? error.message : String(error);
+      await this.storage
+        .removeItem(ATTESTATION_STORE_NAME, VERIFIED_ATTESTATION_KEY)
+        .catch(() => {});
+    }
+  }
+
+  private generateNonce(): string {
+    return encodeBytes(crypto.getRandomValues(new Uint8Array(ATTESTATION_NONCE_LENGTH)), 'hex');
+  }
+
+  /**
+   * @throws {Error} Unless quotes whose report data does not commit to a nonce are allowed
+   */
+  private assertLegacyReportDataAllowed(): void {
+    if (!this.options.allowLegacyReportData) {
+      throw new Error(
+        `TEE attestation report data is in the legacy ${LEGACY_REPORT_DATA_FORMAT} format, not bound to a nonce`
+      );
+    }
+  }
+
+  private async hashQuote(quote: string): Promise<string> {
+    const hash = await crypto.subtle.digest(QUOTE_HASH_ALGORITHM, new TextEncoder().encode(quote));
+    return encodeBytes(new Uint8Array(hash), 'hex');
+  }
+
+  /**
+   * Reads when Intel issued the TCB info and QE identity the quote was verified against, and when
+   * it publishes their next update. Either is null when its dates cannot be read.
+   */
+  private getCollateralDates(collateral: unknown): CollateralDates {
+    const parsed = CollateralSchema.safeParse(collateral);
+    if (!parsed.success) {
+      return { tcbInfo: null, qeIdentity: null };
+    }
+
+    const readDates = (json: string) => {
+      try {
+        return CollateralBodySchema.parse(JSON.parse(json));
+      } catch {
+        return null;
+      }
+    };
+    return {
+      tcbInfo: readDates(parsed.data.tcb_info),
+      qeIdentity: readDates(parsed.data.qe_identity),
+    };
+  }
+
+  /**
+   * Returns the date of the latest TCB recovery listed in the TCB info, since when platforms below
+   * its TCB level are out of date.
+   */
+  private getTcbRecoveryDate(collateral: unknown): number | null {
+    try {
+      const { tcbLevels } = TcbInfoLevelsSchema.parse(
+        JSON.parse(CollateralSchema.parse(collateral).tcb_info)
+      );
+      const latest = tcbLevels.find(level => level.tcbStatus === TCB_UP_TO_DATE_STATUS);
+      const date = latest != null ? Date.parse(latest.tcbDate) : Number.NaN;
+      return Number.isFinite(date) ? date : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Returns when Intel publishes the next TCB info or QE identity, the earliest of the two, after
+   * which the collateral the quote was verified against may be outdated.
+   */
+  private getCollateralNextUpdate({ tcbInfo, qeIdentity }: CollateralDates): number | null {
+    const nextUpdates = [tcbInfo, qeIdentity]
+      .map(dates => (dates != null ? Date.parse(dates.nextUpdate) : Number.NaN))
+      .filter(Number.isFinite);
+    return nextUpdates.length > 0 ? Math.min(...nextUpdates) : null;
+  }
+
   private async getPublicKeyDevMode(): Promise<string> {
     const response = await this.api.getPublicKey();
     return response.publicKey;
   }
 
-  private extractTD(validatedReport: z.infer<typeof AttestationReportSchema>) {
+  private getOsImageMeasurements(td: TDReport): Partial<OsImageMeasurements> {
+    return { mrtd: td.mr_td, rtmr0: td.rt_mr0, rtmr1: td.rt_mr1, rtmr2: td.rt_mr2 };
+  }
+
+  /**
+   * Validates that the TD booted a known-good OS image, when measurements are pinned.
+   *
+   * @param reported - MRTD and RTMR0-2 reported by the TD
+   * @throws {Error} When a measurement is missing or matches no pinned OS image
+   */
+  private validateOsImage(reported: Partial<OsImageMeasurements>): void {
+    const knownGood = this.options.osImageMeasurements;
+    if (knownGood == null) {
+      return;
+    }
+    assertKnownOsImage(knownGood, reported);
+  }
+
+  /**
+   * Validates that the TCB policy accepts the platform's TCB state.
+   *
+   * @returns When an out of date platform stops being accepted, or null
+   * @throws {Error} When the status or an advisory is not accepted
+   */
+  private validateTcb(tcb: TcbState): number | null {
+    return assertAcceptedTcb(this.options.tcbPolicy ?? DEFAULT_TCB_POLICY, tcb, Date.now());
+  }
+
+  private extractTD(validatedReport: z.infer<typeof AttestationReportSchema>): TDReport {
     const td = validatedReport.report.TD10 ?? validatedReport.report.TD15;
     if (td == null) {
       throw new Error('No TD10 or TD15 report found in the quote');
@@ -270,7 +888,8 @@ export class AttestationService extends CrossmintFrameService {
 
   private async verifyReportAttestsPublicKey(
     reportData: string,
-    publicKey: string
+    publicKey: string,
+    nonce: string | null
   ): Promise<boolean> {
     try {
       const reportDataHash = decodeBytes(reportData, 'hex');
@@ -278,11 +897,20 @@ export class AttestationService extends CrossmintFrameService {
         return false;
       }
 
-      const prefixBytes = new TextEncoder().encode(TEE_REPORT_DATA_PREFIX);
+      const prefixBytes = new TextEncoder().encode(
+        `${nonce != null ? NONCE_REPORT_DATA_FORMAT : LEGACY_REPORT_DATA_FORMAT}:`
+      );
+      const nonceBytes = nonce != null ? decodeBytes(nonce, 'hex') : new Uint8Array();
+      if (nonce != null && nonceBytes.length !== ATTESTATION_NONCE_LENGTH) {
+        return false;
+      }
       const publicKeyBytes = decodeBytes(publicKey, 'base64');
-      const reconstructedReportData = new Uint8Array(prefixBytes.length + publicKeyBytes.length);
+      const reconstructedReportData = new Uint8Array(
+        prefixBytes.length + nonceBytes.length + publicKeyBytes.length
+      );
       reconstructedReportData.set(prefixBytes, 0);
-      reconstructedReportData.set(publicKeyBytes, prefixBytes.length);
+      reconstructedReportData.set(nonceBytes, prefixBytes.length);
+      reconstructedReportData.set(publicKeyBytes, prefixBytes.length + nonceBytes.length);
 
       const hash = await crypto.subtle.digest(TEE_REPORT_DATA_HASH, reconstructedReportData);
       const hashView = new Uint8Array(hash);
@@ -399,6 +1027,9 @@ export class AttestationService extends CrossmintFrameService {
    * Looks for specific events (app-id, compose-hash, instance-id, key-provider)
    * and extracts their payload values for application validation.
    *
+   * Only IMR3 events are read: the replayed RTMR3 covers them, while events of other IMRs are not
+   * validated and could otherwise override the pinned values.
+   *
    * @param eventLog - Array of validated event log entries
    * @returns Object containing extracted application information
    * @throws {Error} When required application events are missing
@@ -407,6 +1038,9 @@ export class AttestationService extends CrossmintFrameService {
     const appInfo: Partial<ApplicationInfo> = {};
 
     for (const event of eventLog) {
+      if (event.imr !== RTMR3_IMR_INDEX) {
+        continue;
+      }
       switch (event.event) {
         case EVENT_NAMES.APP_ID:
           appInfo.app_id = event.event_payload;
@@ -454,15 +1088,14 @@ export class AttestationService extends CrossmintFrameService {
   }
 
   /**
-   * Validates that the extracted application information matches expected values.
+   * Validates that the extracted application information is of a build the trust policy allows.
    *
    * @param appInfo - Application information extracted from event log
-   * @throws {Error} When application ID doesn't match expected value
+   * @returns The build of the trust policy the application is an instance of
+   * @throws {Error} When the policy does not allow the build, or not at this time
    */
-  private validateApplicationInfo(appInfo: ApplicationInfo): void {
-    if (appInfo.app_id.toLowerCase() !== this.expectedAppId.toLowerCase()) {
-      throw new Error(`Invalid app ID: expected ${this.expectedAppId}, got ${appInfo.app_id}`);
-    }
+  private validateApplicationInfo(appInfo: ApplicationInfo): TrustedBuild {
+    return assertTrustedBuild(this.trustPolicy, appInfo, Date.now());
   }
 
   /**
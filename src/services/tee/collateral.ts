@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { decodeBytes } from '../common/utils';
+
+export const PHALA_PCCS_URL = 'https://pccs.phala.network/tdx/certification/v4';
+
+const hexBytesSchema = z.string().regex(/^(?:[0-9a-fA-F]{2})*$/, 'Expected hex encoded bytes');
+
+/**
+ * Collateral a TDX quote is verified against: Intel's TCB info and QE identity with their
+ * signatures, the certificate chains they were issued under and the CRLs. Byte fields are hex
+ * encoded.
+ */
+export const quoteCollateralSchema = z.object({
+  pck_crl_issuer_chain: z.string(),
+  root_ca_crl: hexBytesSchema,
+  pck_crl: hexBytesSchema,
+  tcb_info_issuer_chain: z.string(),
+  tcb_info: z.string(),
+  tcb_info_signature: hexBytesSchema,
+  qe_identity_issuer_chain: z.string(),
+  qe_identity: z.string(),
+  qe_identity_signature: hexBytesSchema,
+});
+
+export type QuoteCollateral = z.infer<typeof quoteCollateralSchema>;
+
+/**
+ * Where collateral is taken from:
+ * - `pccs`: downloaded from a Provisioning Certificate Caching Service
+ * - `attestation`: served by Crossmint next to the quote
+ * - `bundle`: pinned in the frame, for environments that cannot reach a PCCS
+ */
+export type CollateralSource =
+  | { type: 'pccs'; url: string }
+  | { type: 'attestation' }
+  | { type: 'bundle'; collateral: QuoteCollateral };
+
+export const DEFAULT_COLLATERAL_SOURCES: CollateralSource[] = [
+  { type: 'attestation' },
+  { type: 'pccs', url: PHALA_PCCS_URL },
+];
+
+const BYTE_FIELDS = [
+  'root_ca_crl',
+  'pck_crl',
+  'tcb_info_signature',
+  'qe_identity_signature',
+] as const;
+
+// The verifier takes byte fields as Uint8Array, as returned by `js_get_collateral`
+export function toVerifierCollateral(collateral: QuoteCollateral) {
+  const bytes = Object.fromEntries(
+    BYTE_FIELDS.map(field => [field, decodeBytes(collateral[field], 'hex')])
+  );
+  return { ...collateral, ...bytes };
+}
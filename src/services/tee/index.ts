@@ -1 +1,5 @@
 export { AttestationService } from './attestation';
+export { PHALA_PCCS_URL, type CollateralSource, type QuoteCollateral } from './collateral';
+export type { SignedTrustPolicy, TrustedBuild, TrustPolicy } from './trust-policy';
+export type { OsImageMeasurements } from './measurements';
+export type { AcceptableTcbStatus, TcbPolicy } from './tcb-policy';
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+/**
+ * Measurements of a DStack OS image, as reported by a TD booting it: MRTD covers the virtual
+ * firmware, RTMR0 its configuration, RTMR1 the kernel and RTMR2 the kernel command line and
+ * initrd. Values are hex encoded.
+ */
+export const osImageMeasurementsSchema = z.object({
+  mrtd: z.string(),
+  rtmr0: z.string(),
+  rtmr1: z.string(),
+  rtmr2: z.string(),
+});
+
+export type OsImageMeasurements = z.infer<typeof osImageMeasurementsSchema>;
+
+// In boot order, so that a mismatch names the first component that differs
+const REGISTERS = [
+  ['mrtd', 'MRTD'],
+  ['rtmr0', 'RTMR0'],
+  ['rtmr1', 'RTMR1'],
+  ['rtmr2', 'RTMR2'],
+] as const;
+
+/**
+ * Finds the known-good OS image the TD booted, comparing its measurements register by register.
+ *
+ * @throws {Error} When a register is missing from the report, or no image has the reported value
+ */
+export function assertKnownOsImage(
+  knownGood: OsImageMeasurements[],
+  reported: Partial<OsImageMeasurements>
+): OsImageMeasurements {
+  let candidates = knownGood;
+  for (const [register, label] of REGISTERS) {
+    const value = reported[register];
+    if (value == null) {
+      throw new Error(`${label} missing from the TD report`);
+    }
+    candidates = candidates.filter(image => image[register].toLowerCase() === value.toLowerCase());
+    if (candidates.length === 0) {
+      throw new Error(`${label} mismatch: reported ${value} does not match any pinned OS image`);
+    }
+  }
+  return candidates[0];
+}
@@ -0,0 +1,76 @@
+const UP_TO_DATE = 'UpToDate';
+const OUT_OF_DATE = 'OutOfDate';
+
+/**
+ * TCB statuses that mean the platform is patched, but needs software hardening or configuration
+ * for the advisories it is reported with to be mitigated.
+ */
+export type AcceptableTcbStatus =
+  | 'SWHardeningNeeded'
+  | 'ConfigurationNeeded'
+  | 'ConfigurationAndSWHardeningNeeded';
+
+/**
+ * TCB states the frame accepts a TEE platform in besides `UpToDate`:
+ * - `acceptedStatuses`: statuses accepted for as long as they last
+ * - `acceptedAdvisoryIds`: Intel security advisories (INTEL-SA-XXXXX) the platform may be reported
+ *   with. Any other advisory fails verification
+ * - `outOfDateGracePeriodMs`: how long `OutOfDate` platforms are accepted after the TCB recovery
+ *   that outdated them, so that hosts can be updated before signing stops. Without it,
+ *   `OutOfDate` platforms are rejected
+ */
+export type TcbPolicy = {
+  acceptedStatuses: AcceptableTcbStatus[];
+  acceptedAdvisoryIds: string[];
+  outOfDateGracePeriodMs?: number;
+};
+
+export const DEFAULT_TCB_POLICY: TcbPolicy = {
+  acceptedStatuses: [],
+  acceptedAdvisoryIds: [],
+};
+
+/**
+ * TCB state of a platform, as verified against collateral. `outOfDateSince` is the date of the
+ * latest TCB recovery, when Intel published the TCB level the platform falls behind.
+ */
+export type TcbState = {
+  status: string;
+  advisoryIds: string[];
+  outOfDateSince: number | null;
+};
+
+/**
+ * Checks the TCB state of a platform against the policy.
+ *
+ * @returns When the state stops being accepted, for `OutOfDate` platforms in their grace period
+ * @throws {Error} When the policy does not accept the status, or one of the advisories
+ */
+export function assertAcceptedTcb(policy: TcbPolicy, tcb: TcbState, now: number): number | null {
+  let acceptedUntil: number | null = null;
+  if (tcb.status === OUT_OF_DATE && policy.outOfDateGracePeriodMs != null) {
+    if (tcb.outOfDateSince == null) {
+      throw new Error('TEE attestation is invalid: the date the TCB went out of date is unknown');
+    }
+    acceptedUntil = tcb.outOfDateSince + policy.outOfDateGracePeriodMs;
+    if (now >= acceptedUntil) {
+      throw new Error(
+        `TEE attestation is invalid: TCB out of date since ${new Date(tcb.outOfDateSince).toISOString()}, past its grace period`
+      );
+    }
+  } else if (
+    tcb.status !== UP_TO_DATE &&
+    !(policy.acceptedStatuses as string[]).includes(tcb.status)
+  ) {
+    throw new Error(`TEE attestation is invalid: TCB status ${tcb.status} is not accepted`);
+  }
+
+  const accepted = new Set(policy.acceptedAdvisoryIds.map(id => id.toUpperCase()));
+  const unaccepted = tcb.advisoryIds.filter(id => !accepted.has(id.toUpperCase()));
+  if (unaccepted.length > 0) {
+    throw new Error(
+      `TEE attestation is invalid: advisories not accepted: ${unaccepted.join(', ')}`
+    );
+  }
+  return acceptedUntil;
+}
@@ -0,0 +1,106 @@
+import { p256 } from '@noble/curves/p256';
+import { sha256 } from 'ethereum-cryptography/sha256.js';
+import { z } from 'zod';
+import { decodeBytes } from '../common/utils';
+
+/**
+ * A TEE build the frame trusts. Builds are identified by their DStack app ID, and optionally
+ * pinned to a compose hash and KMS key provider. A build is only trusted within its validity
+ * window, so that a retired build is rejected once a rollover completes.
+ */
+export const trustedBuildSchema = z.object({
+  appId: z.string(),
+  composeHash: z.string().optional(),
+  keyProviderId: z.string().optional(),
+  validFrom: z.string().datetime().optional(),
+  validUntil: z.string().datetime().optional(),
+});
+
+export const trustPolicySchema = z.object({
+  version: z.number().int().nonnegative(),
+  builds: z.array(trustedBuildSchema).min(1),
+});
+
+/**
+ * A trust policy signed by Crossmint, so that builds can be added or retired without a frame
+ * release. `policy` is the policy's JSON, and `signature` a hex encoded compact P-256 ECDSA
+ * signature of its SHA-256 digest.
+ */
+export const signedTrustPolicySchema = z.object({
+  policy: z.string(),
+  signature: z.string(),
+});
+
+export type TrustedBuild = z.infer<typeof trustedBuildSchema>;
+export type TrustPolicy = z.infer<typeof trustPolicySchema>;
+export type SignedTrustPolicy = z.infer<typeof signedTrustPolicySchema>;
+
+/**
+ * Application identity read from the TEE event log.
+ */
+export type AttestedApplication = {
+  app_id: string;
+  compose_hash: string;
+  key_provider: { id: string };
+};
+
+/**
+ * Checks a signed trust policy against the signing key pinned in the frame.
+ *
+ * @param signingKey - Hex encoded SEC1 P-256 public key
+ * @throws {Error} When the signature does not verify or the policy is malformed
+ */
+export function openSignedTrustPolicy(signed: SignedTrustPolicy, signingKey: string): TrustPolicy {
+  const digest = sha256(new TextEncoder().encode(signed.policy));
+  let valid: boolean;
+  try {
+    valid = p256.verify(signed.signature, digest, decodeBytes(signingKey, 'hex'));
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new Error('TEE trust policy signature is invalid');
+  }
+  return trustPolicySchema.parse(JSON.parse(signed.policy));
+}
+
+/**
+ * Finds a build of the policy the application is an instance of, that is trusted at `now`.
+ *
+ * @throws {Error} When no build of the policy matches, or every matching build is outside its
+ * validity window
+ */
+export function assertTrustedBuild(
+  policy: TrustPolicy,
+  app: AttestedApplication,
+  now: number
+): TrustedBuild {
+  const matches = policy.builds.filter(
+    build =>
+      build.appId.toLowerCase() === app.app_id.toLowerCase() &&
+      (build.composeHash == null ||
+        build.composeHash.toLowerCase() === app.compose_hash.toLowerCase()) &&
+      (build.keyProviderId == null ||
+        build.keyProviderId.toLowerCase() === app.key_provider.id.toLowerCase())
+  );
+  if (matches.length === 0) {
+    throw new Error(
+      `TEE build is not allowed by trust policy version ${policy.version}: app ID ${app.app_id}, compose hash ${app.compose_hash}`
+    );
+  }
+
+  const trusted = matches.find(
+    build =>
+      (build.validFrom == null || now >= Date.parse(build.validFrom)) &&
+      (build.validUntil == null || now < Date.parse(build.validUntil))
+  );
+  if (trusted == null) {
+    const [build] = matches;
+    throw new Error(
+      build.validUntil != null && now >= Date.parse(build.validUntil)
+        ? `TEE build of app ID ${app.app_id} was retired on ${build.validUntil}`
+        : `TEE build of app ID ${app.app_id} is not trusted before ${build.validFrom}`
+    );
+  }
+  return trusted;
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { ethers, Interface, keccak256, Transaction, type TransactionLike } from 'ethers';
+import { parseEvmTransaction } from './evm';
+import { decodeRlp } from './rlp';
+
+const RECIPIENT = '0x8dBcdFE43b9a6326e71378DfCA5e10e25F2C11A4';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const tokenInterface = new Interface([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function setApprovalForAll(address operator, bool approved)',
+]);
+
+const serialize = (tx: TransactionLike<string>) =>
+  Buffer.from(Transaction.from(tx).unsignedSerialized.slice(2), 'hex');
+
+describe('parseEvmTransaction', () => {
+  it('should parse EIP-1559 native transfers -- preimage should match ethers unsignedHash', () => {
+    const tx = {
+      type: 2,
+      chainId: 8453,
+      nonce: 7,
+      maxFeePerGas: ethers.parseUnits('2', 'gwei'),
+      maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei'),
+      gasLimit: 21000,
+      to: RECIPIENT,
+      value: ethers.parseEther('1.5'),
+    };
+
+    const { preimage, summary } = parseEvmTransaction(serialize(tx));
+
+    expect(`0x${Buffer.from(preimage).toString('hex')}`).toBe(Transaction.from(tx).unsignedHash);
+    expect(summary).toEqual({
+      chain: 'evm',
+      chainId: '8453',
+      calls: [
+        {
+          type: 'native-transfer',
+          to: RECIPIENT,
+          recipient: RECIPIENT,
+          amount: '1500000000000000000',
+        },
+      ],
+    });
+  });
+
+  it('should decode token transfers and approvals', () => {
+    const parseCall = (data: string) =>
+      parseEvmTransaction(
+        serialize({ type: 2, chainId: 1, gasLimit: 60000, to: TOKEN, data, value: 0 })
+      ).summary.calls[0];
+
+    expect(
+      parseCall(tokenInterface.encodeFunctionData('transfer', [RECIPIENT, 1_000_000n]))
+    ).toEqual({
+      type: 'token-transfer',
+      to: TOKEN,
+      token: TOKEN,
+      recipient: RECIPIENT,
+      amount: '1000000',
+    });
+    expect(
+      parseCall(tokenInterface.encodeFunctionData('approve', [RECIPIENT, ethers.MaxUint256]))
+    ).toEqual({
+      type: 'token-approval',
+      to: TOKEN,
+      token: TOKEN,
+      recipient: RECIPIENT,
+      amount: ethers.MaxUint256.toString(),
+    });
+    expect(
+      parseCall(tokenInterface.encodeFunctionData('transferFrom', [TOKEN, RECIPIENT, 5n]))
+    ).toMatchObject({ type: 'token-transfer', recipient: RECIPIENT, amount: '5' });
+    expect(
+      parseCall(tokenInterface.encodeFunctionData('setApprovalForAll', [RECIPIENT, true]))
+    ).toEqual({
+      type: 'token-approval',
+      to: TOKEN,
+      token: TOKEN,
+      recipient: RECIPIENT,
+    });
+    expect(
+      parseCall(tokenInterface.encodeFunctionData('setApprovalForAll', [RECIPIENT, false]))
+    ).toEqual({
+      type: 'contract-call',
+      to: TOKEN,
+    });
+    expect(parseCall('0xdeadbeef')).toEqual({ type: 'contract-call', to: TOKEN });
+  });
+
+  it('should parse legacy EIP-155 and EIP-2930 transactions', () => {
+    const legacy = {
+      type: 0,
+      chainId: 137,
+      nonce: 1,
+      gasPrice: 1n,
+      gasLimit: 21000,
+      to: RECIPIENT,
+      value: 1n,
+    };
+    const accessList = { ...legacy, type: 1, accessList: [] };
+
+    for (const tx of [legacy, accessList]) {
+      const { preimage, summary } = parseEvmTransaction(serialize(tx));
+      expect(`0x${Buffer.from(preimage).toString('hex')}`).toBe(Transaction.from(tx).unsignedHash);
+      expect(summary.chainId).toBe('137');
+    }
+
+    const { summary } = parseEvmTransaction(
+      serialize({ type: 0, gasPrice: 1n, gasLimit: 100000, data: '0x6080', value: 0n })
+    );
+    expect(summary).toEqual({ chain: 'evm', calls: [{ type: 'contract-deployment' }] });
+  });
+
+  it('should reject signed, malformed and unsupported transactions', () => {
+    const tx = Transaction.from({ type: 2, chainId: 1, gasLimit: 21000, to: RECIPIENT, value: 1n });
+    tx.signature = new ethers.Wallet(keccak256('0x01')).signingKey.sign(tx.unsignedHash);
+
+    expect(() => parseEvmTransaction(Buffer.from(tx.serialized.slice(2), 'hex'))).toThrow(
+      'expected an unsigned transaction'
+    );
+    expect(() => parseEvmTransaction(new Uint8Array([0x04, 0xc0]))).toThrow(
+      'Unsupported EVM transaction type: 4'
+    );
+    expect(() => parseEvmTransaction(new Uint8Array([0x02, 0xc1]))).toThrow(
+      'unexpected end of input'
+    );
+  });
+});
+
+describe('decodeRlp', () => {
+  it('should decode nested lists and reject non-canonical encodings', () => {
+    expect(decodeRlp(new Uint8Array([0xc5, 0x83, 0x64, 0x6f, 0x67, 0xc0]))).toEqual([
+      new Uint8Array([0x64, 0x6f, 0x67]),
+      [],
+    ]);
+    expect(() => decodeRlp(new Uint8Array([0x81, 0x05]))).toThrow('non-canonical single byte');
+    expect(() => decodeRlp(new Uint8Array([0xb8, 0x01, 0xff]))).toThrow('non-canonical length');
+    expect(() => decodeRlp(new Uint8Array([0x80, 0x80]))).toThrow('unexpected trailing bytes');
+  });
+});
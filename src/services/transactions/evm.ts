@@ -0,0 +1,167 @@
+import { keccak256 } from 'ethereum-cryptography/keccak.js';
+import { toHex, utf8ToBytes } from 'ethereum-cryptography/utils';
+import type { TransactionCall } from '../communications/schemas';
+import type { ParsedTransaction } from './transactions';
+import { decodeRlp, type RlpItem } from './rlp';
+
+// Token function selectors
+const ERC20_TRANSFER = 'a9059cbb'; // transfer(address,uint256)
+const ERC20_APPROVE = '095ea7b3'; // approve(address,uint256)
+const ERC20_TRANSFER_FROM = '23b872dd'; // transferFrom(address,address,uint256)
+const SET_APPROVAL_FOR_ALL = 'a22cb465'; // setApprovalForAll(address,bool), ERC-721 and ERC-1155
+
+// Position of chainId, to, value and data in the unsigned payload of each transaction type
+const TRANSACTION_LAYOUTS: Record<
+  number,
+  { length: number; to: number; value: number; data: number }
+> = {
+  0x01: { length: 8, to: 4, value: 5, data: 6 },
+  0x02: { length: 9, to: 5, value: 6, data: 7 },
+};
+
+/**
+ * Parses an unsigned EVM transaction: legacy (optionally EIP-155), EIP-2930 or EIP-1559.
+ *
+ * @param transaction - Unsigned serialized transaction, as hashed for signing
+ * @returns keccak256 of the transaction, and its decoded summary
+ * @throws {Error} When the transaction is malformed, signed, or of an unsupported type
+ */
+export function parseEvmTransaction(transaction: Uint8Array): ParsedTransaction {
+  if (transaction.length === 0) {
+    throw new Error('Invalid EVM transaction: empty payload');
+  }
+
+  const isLegacy = transaction[0] >= 0xc0;
+  const fields = decodeRlp(isLegacy ? transaction : transaction.subarray(1));
+  if (!Array.isArray(fields)) {
+    throw new Error('Invalid EVM transaction: expected an RLP list');
+  }
+
+  let chainId: bigint | undefined;
+  let call: TransactionCall;
+  if (isLegacy) {
+    if (
+      fields.length === 9 &&
+      (byteField(fields, 7).length > 0 || byteField(fields, 8).length > 0)
+    ) {
+      throw new Error('Invalid EVM transaction: expected an unsigned transaction');
+    }
+    if (fields.length !== 6 && fields.length !== 9) {
+      throw new Error('Invalid EVM transaction: unexpected number of fields');
+    }
+    chainId = fields.length === 9 ? toBigInt(byteField(fields, 6)) : undefined;
+    call = decodeCall(byteField(fields, 3), byteField(fields, 4), byteField(fields, 5));
+  } else {
+    const layout = TRANSACTION_LAYOUTS[transaction[0]];
+    if (layout == null) {
+      throw new Error(`Unsupported EVM transaction type: ${transaction[0]}`);
+    }
+    if (fields.length === layout.length + 3) {
+      throw new Error('Invalid EVM transaction: expected an unsigned transaction');
+    }
+    if (fields.length !== layout.length) {
+      throw new Error('Invalid EVM transaction: unexpected number of fields');
+    }
+    chainId = toBigInt(byteField(fields, 0));
+    call = decodeCall(
+      byteField(fields, layout.to),
+      byteField(fields, layout.value),
+      byteField(fields, layout.data)
+    );
+  }
+
+  return {
+    preimage: keccak256(transaction),
+    summary: {
+      chain: 'evm',
+      ...(chainId != null && { chainId: chainId.toString() }),
+      calls: [call],
+    },
+  };
+}
+
+function decodeCall(to: Uint8Array, value: Uint8Array, data: Uint8Array): TransactionCall {
+  const amount = toBigInt(value);
+  const nativeAmount = amount > 0n ? { amount: amount.toString() } : {};
+
+  if (to.length === 0) {
+    return { type: 'contract-deployment', ...nativeAmount };
+  }
+  if (to.length !== 20) {
+    throw new Error('Invalid EVM transaction: invalid recipient address');
+  }
+
+  const contract = toChecksumAddress(to);
+  if (data.length === 0) {
+    return {
+      type: 'native-transfer',
+      to: contract,
+      recipient: contract,
+      amount: amount.toString(),
+    };
+  }
+
+  const selector = toHex(data.subarray(0, 4));
+  const args = data.subarray(4);
+  const tokenCall = (type: 'token-transfer' | 'token-approval', recipient: Uint8Array) => {
+    const amountWord = args.subarray(args.length - 32);
+    return isAddressWord(recipient)
+      ? {
+          type,
+          to: contract,
+          token: contract,
+          recipient: toChecksumAddress(recipient.subarray(12)),
+          amount: toBigInt(amountWord).toString(),
+        }
+      : undefined;
+  };
+
+  let tokenCallSummary: TransactionCall | undefined;
+  if (selector === ERC20_TRANSFER && args.length === 64) {
+    tokenCallSummary = tokenCall('token-transfer', args.subarray(0, 32));
+  } else if (selector === ERC20_APPROVE && args.length === 64) {
+    tokenCallSummary = tokenCall('token-approval', args.subarray(0, 32));
+  } else if (selector === ERC20_TRANSFER_FROM && args.length === 96) {
+    tokenCallSummary = tokenCall('token-transfer', args.subarray(32, 64));
+  } else if (
+    selector === SET_APPROVAL_FOR_ALL &&
+    args.length === 64 &&
+    toBigInt(args.subarray(32)) === 1n
+  ) {
+    // Revocations (approved = false) are left as plain contract calls
+    const operator = args.subarray(0, 32);
+    if (isAddressWord(operator)) {
+      tokenCallSummary = {
+        type: 'token-approval',
+        to: contract,
+        token: contract,
+        recipient: toChecksumAddress(operator.subarray(12)),
+      };
+    }
+  }
+
+  return tokenCallSummary ?? { type: 'contract-call', to: contract, ...nativeAmount };
+}
+
+function byteField(fields: RlpItem[], index: number): Uint8Array {
+  const field = fields[index];
+  if (!(field instanceof Uint8Array)) {
+    throw new Error(`Invalid EVM transaction: field ${index} must be a byte string`);
+  }
+  return field;
+}
+
+function isAddressWord(word: Uint8Array): boolean {
+  return word.subarray(0, 12).every(byte => byte === 0);
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  return bytes.length === 0 ? 0n : BigInt(`0x${toHex(bytes)}`);
+}
+
+// EIP-55 mixed-case checksum encoding
+function toChecksumAddress(address: Uint8Array): string {
+  const hex = toHex(address);
+  const hash = toHex(keccak256(utf8ToBytes(hex)));
+  return `0x${[...hex].map((char, i) => (Number.parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char)).join('')}`;
+}
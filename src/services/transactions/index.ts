@@ -0,0 +1,2 @@
+export { TransactionService } from './transactions';
+export type { ParsedTransaction } from './transactions';
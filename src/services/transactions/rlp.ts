@@ -0,0 +1,85 @@
+export type RlpItem = Uint8Array | RlpItem[];
+
+/**
+ * Decodes a single RLP item, which must span the whole input.
+ *
+ * Only canonical encodings are accepted, so two different byte strings can never decode to the
+ * same transaction.
+ *
+ * @param bytes - RLP encoded bytes
+ * @returns The decoded byte string or list
+ * @throws {Error} When the input is not a single canonical RLP item
+ */
+export function decodeRlp(bytes: Uint8Array): RlpItem {
+  const { item, end } = decodeItem(bytes, 0);
+  if (end !== bytes.length) {
+    throw new Error('Invalid RLP: unexpected trailing bytes');
+  }
+  return item;
+}
+
+function decodeItem(bytes: Uint8Array, offset: number): { item: RlpItem; end: number } {
+  if (offset >= bytes.length) {
+    throw new Error('Invalid RLP: unexpected end of input');
+  }
+
+  const prefix = bytes[offset];
+  if (prefix < 0x80) {
+    return { item: bytes.slice(offset, offset + 1), end: offset + 1 };
+  }
+
+  const isList = prefix >= 0xc0;
+  const shortLimit = isList ? 0xf7 : 0xb7;
+  const base = isList ? 0xc0 : 0x80;
+
+  let start = offset + 1;
+  let length: number;
+  if (prefix <= shortLimit) {
+    length = prefix - base;
+  } else {
+    const lengthOfLength = prefix - shortLimit;
+    length = readLength(bytes, start, lengthOfLength);
+    if (length < 56) {
+      throw new Error('Invalid RLP: non-canonical length');
+    }
+    start += lengthOfLength;
+  }
+
+  const end = start + length;
+  if (end > bytes.length) {
+    throw new Error('Invalid RLP: unexpected end of input');
+  }
+
+  if (!isList) {
+    if (length === 1 && bytes[start] < 0x80) {
+      throw new Error('Invalid RLP: non-canonical single byte');
+    }
+    return { item: bytes.slice(start, end), end };
+  }
+
+  const items: RlpItem[] = [];
+  let position = start;
+  while (position < end) {
+    const decoded = decodeItem(bytes.subarray(0, end), position);
+    items.push(decoded.item);
+    position = decoded.end;
+  }
+  return { item: items, end };
+}
+
+function readLength(bytes: Uint8Array, offset: number, size: number): number {
+  if (offset + size > bytes.length) {
+    throw new Error('Invalid RLP: unexpected end of input');
+  }
+  if (size > 4) {
+    throw new Error('Invalid RLP: length too large');
+  }
+  if (bytes[offset] === 0) {
+    throw new Error('Invalid RLP: non-canonical length');
+  }
+  let length = 0;
+  for (let i = 0; i < size; i++) {
+    length = length * 256 + bytes[offset + i];
+  }
+  return length;
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { parseSolanaTransaction } from './solana';
+
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const BLOCKHASH = '11111111111111111111111111111111';
+
+const u64Instruction = (discriminator: number, amount: bigint, extra: number[] = []) => {
+  const data = Buffer.alloc(9 + extra.length);
+  data.writeUInt8(discriminator, 0);
+  data.writeBigUInt64LE(amount, 1);
+  data.set(extra, 9);
+  return data;
+};
+
+describe('parseSolanaTransaction', () => {
+  const payer = Keypair.generate().publicKey;
+  const recipient = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey;
+  const source = Keypair.generate().publicKey;
+
+  const instructions = [
+    SystemProgram.transfer({ fromPubkey: payer, toPubkey: recipient, lamports: 1_500_000_000 }),
+    new TransactionInstruction({
+      programId: TOKEN_PROGRAM_ID,
+      keys: [
+        { pubkey: source, isSigner: false, isWritable: true },
+        { pubkey: mint, isSigner: false, isWritable: false },
+        { pubkey: recipient, isSigner: false, isWritable: true },
+        { pubkey: payer, isSigner: true, isWritable: false },
+      ],
+      data: u64Instruction(12, 42n, [6]),
+    }),
+    new TransactionInstruction({
+      programId: TOKEN_PROGRAM_ID,
+      keys: [
+        { pubkey: source, isSigner: false, isWritable: true },
+        { pubkey: recipient, isSigner: false, isWritable: false },
+        { pubkey: payer, isSigner: true, isWritable: false },
+      ],
+      data: u64Instruction(4, 7n),
+    }),
+    new TransactionInstruction({ programId: mint, keys: [], data: Buffer.from([1, 2, 3]) }),
+  ];
+
+  const expectedSummary = {
+    chain: 'solana',
+    feePayer: payer.toBase58(),
+    calls: [
+      {
+        type: 'native-transfer',
+        to: SystemProgram.programId.toBase58(),
+        recipient: recipient.toBase58(),
+        amount: '1500000000',
+      },
+      {
+        type: 'token-transfer',
+        to: TOKEN_PROGRAM_ID.toBase58(),
+        recipient: recipient.toBase58(),
+        amount: '42',
+        token: mint.toBase58(),
+      },
+      {
+        type: 'token-approval',
+        to: TOKEN_PROGRAM_ID.toBase58(),
+        recipient: recipient.toBase58(),
+        amount: '7',
+      },
+      { type: 'contract-call', to: mint.toBase58() },
+    ],
+  };
+
+  it('should parse v0 transactions -- preimage should match the serialized message', () => {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: BLOCKHASH,
+      instructions,
+    }).compileToV0Message();
+    const transaction = new VersionedTransaction(message);
+
+    const { preimage, summary } = parseSolanaTransaction(transaction.serialize());
+
+    expect(preimage).toEqual(message.serialize());
+    expect(summary).toEqual(expectedSummary);
+  });
+
+  it('should parse legacy transactions', () => {
+    const transaction = new Transaction({ feePayer: payer, recentBlockhash: BLOCKHASH });
+    transaction.add(...instructions);
+
+    const { preimage, summary } = parseSolanaTransaction(
+      new Uint8Array(
+        transaction.serialize({ requireAllSignatures: false, verifySignatures: false })
+      )
+    );
+
+    expect(preimage).toEqual(new Uint8Array(transaction.serializeMessage()));
+    expect(summary).toEqual(expectedSummary);
+  });
+
+  it('should reject malformed transactions', () => {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: BLOCKHASH,
+      instructions: instructions.slice(0, 1),
+    }).compileToV0Message();
+    const serialized = new VersionedTransaction(message).serialize();
+
+    expect(() => parseSolanaTransaction(serialized.slice(0, -1))).toThrow(
+      'unexpected end of input'
+    );
+    expect(() => parseSolanaTransaction(new Uint8Array([...serialized, 0]))).toThrow(
+      'unexpected trailing bytes'
+    );
+    expect(() => parseSolanaTransaction(serialized.slice(65))).toThrow();
+
+    const unsupportedVersion = serialized.slice();
+    unsupportedVersion[65] = 0x81;
+    expect(() => parseSolanaTransaction(unsupportedVersion)).toThrow(
+      'Unsupported Solana transaction version: 1'
+    );
+  });
+});
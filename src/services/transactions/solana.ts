@@ -0,0 +1,197 @@
+import bs58 from 'bs58';
+import type { TransactionCall } from '../communications/schemas';
+import type { ParsedTransaction } from './transactions';
+
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+// Instruction discriminators
+const SYSTEM_TRANSFER = 2;
+const TOKEN_TRANSFER = 3;
+const TOKEN_APPROVE = 4;
+const TOKEN_TRANSFER_CHECKED = 12;
+const TOKEN_APPROVE_CHECKED = 13;
+
+const VERSION_PREFIX_MASK = 0x80;
+
+type CompiledInstruction = {
+  programId: string;
+  // Accounts loaded from address lookup tables cannot be resolved here and are left undefined
+  accounts: (string | undefined)[];
+  data: Uint8Array;
+};
+
+/**
+ * Parses a serialized Solana transaction, legacy or versioned (v0).
+ *
+ * @param transaction - Serialized VersionedTransaction, including its signature slots
+ * @returns The serialized message, which is what gets signed, and its decoded summary
+ * @throws {Error} When the transaction is malformed or of an unsupported version
+ */
+export function parseSolanaTransaction(transaction: Uint8Array): ParsedTransaction {
+  const reader = new ByteReader(transaction);
+  const signatureCount = reader.readCompactU16();
+  reader.readBytes(signatureCount * 64);
+
+  const messageStart = reader.offset;
+  const prefix = reader.peekU8();
+  const isVersioned = (prefix & VERSION_PREFIX_MASK) !== 0;
+  if (isVersioned) {
+    const version = reader.readU8() & ~VERSION_PREFIX_MASK;
+    if (version !== 0) {
+      throw new Error(`Unsupported Solana transaction version: ${version}`);
+    }
+  }
+
+  const requiredSignatures = reader.readU8();
+  reader.readBytes(2); // Read-only signed and unsigned account counts
+  if (requiredSignatures !== signatureCount) {
+    throw new Error('Invalid Solana transaction: signature count does not match the message');
+  }
+
+  const accountKeys = Array.from({ length: reader.readCompactU16() }, () =>
+    bs58.encode(reader.readBytes(32))
+  );
+  if (accountKeys.length < requiredSignatures) {
+    throw new Error('Invalid Solana transaction: missing signer accounts');
+  }
+  reader.readBytes(32); // Recent blockhash
+
+  const instructions = Array.from({ length: reader.readCompactU16() }, (): CompiledInstruction => {
+    const programId = accountKeys[reader.readU8()];
+    if (programId == null) {
+      throw new Error('Invalid Solana transaction: unknown program account');
+    }
+    const accounts = Array.from(
+      reader.readBytes(reader.readCompactU16()),
+      index => accountKeys[index]
+    );
+    const data = reader.readBytes(reader.readCompactU16());
+    return { programId, accounts, data };
+  });
+
+  if (isVersioned) {
+    const lookupCount = reader.readCompactU16();
+    for (let i = 0; i < lookupCount; i++) {
+      reader.readBytes(32); // Lookup table address
+      reader.readBytes(reader.readCompactU16()); // Writable indexes
+      reader.readBytes(reader.readCompactU16()); // Read-only indexes
+    }
+  }
+
+  if (reader.offset !== transaction.length) {
+    throw new Error('Invalid Solana transaction: unexpected trailing bytes');
+  }
+
+  return {
+    preimage: transaction.slice(messageStart),
+    summary: {
+      chain: 'solana',
+      feePayer: accountKeys[0],
+      calls: instructions.map(decodeInstruction),
+    },
+  };
+}
+
+function decodeInstruction({ programId, accounts, data }: CompiledInstruction): TransactionCall {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (
+    programId === SYSTEM_PROGRAM_ID &&
+    data.length === 12 &&
+    view.getUint32(0, true) === SYSTEM_TRANSFER
+  ) {
+    return {
+      type: 'native-transfer',
+      to: programId,
+      recipient: accounts[1],
+      amount: view.getBigUint64(4, true).toString(),
+    };
+  }
+
+  if (programId === TOKEN_PROGRAM_ID) {
+    const amount = data.length >= 9 ? view.getBigUint64(1, true).toString() : undefined;
+    switch (data.length > 0 ? data[0] : undefined) {
+      case TOKEN_TRANSFER:
+        if (data.length === 9) {
+          return { type: 'token-transfer', to: programId, recipient: accounts[1], amount };
+        }
+        break;
+      case TOKEN_APPROVE:
+        if (data.length === 9) {
+          return { type: 'token-approval', to: programId, recipient: accounts[1], amount };
+        }
+        break;
+      case TOKEN_TRANSFER_CHECKED:
+        if (data.length === 10) {
+          return {
+            type: 'token-transfer',
+            to: programId,
+            recipient: accounts[2],
+            amount,
+            token: accounts[1],
+          };
+        }
+        break;
+      case TOKEN_APPROVE_CHECKED:
+        if (data.length === 10) {
+          return {
+            type: 'token-approval',
+            to: programId,
+            recipient: accounts[2],
+            amount,
+            token: accounts[1],
+          };
+        }
+        break;
+    }
+  }
+
+  return { type: 'contract-call', to: programId };
+}
+
+class ByteReader {
+  offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  peekU8(): number {
+    this.ensureAvailable(1);
+    return this.bytes[this.offset];
+  }
+
+  readU8(): number {
+    const value = this.peekU8();
+    this.offset += 1;
+    return value;
+  }
+
+  readBytes(length: number): Uint8Array {
+    this.ensureAvailable(length);
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  // Solana's "shortvec" encoding: 7 bits per byte, little-endian, at most 3 bytes
+  readCompactU16(): number {
+    let value = 0;
+    for (let i = 0; i < 3; i++) {
+      const byte = this.readU8();
+      value |= (byte & 0x7f) << (7 * i);
+      if ((byte & 0x80) === 0) {
+        if (value > 0xffff) {
+          throw new Error('Invalid Solana transaction: compact-u16 overflow');
+        }
+        return value;
+      }
+    }
+    throw new Error('Invalid Solana transaction: compact-u16 overflow');
+  }
+
+  private ensureAvailable(length: number): void {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Invalid Solana transaction: unexpected end of input');
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { CrossmintFrameService } from '../service';
+import type { KeyType, TransactionSummary } from '../communications/schemas';
+import { parseEvmTransaction } from './evm';
+import { parseSolanaTransaction } from './solana';
+
+export type ParsedTransaction = {
+  // The bytes handed to the key's signing strategy: a 32-byte digest for EVM, the message for Solana
+  preimage: Uint8Array;
+  summary: TransactionSummary;
+};
+
+export class TransactionService extends CrossmintFrameService {
+  name = 'Transaction Service';
+  log_prefix = '[TransactionService]';
+
+  /**
+   * Parses a serialized transaction for the chain family matching the signing key type.
+   *
+   * @param keyType - ed25519 for Solana transactions, secp256k1 for EVM transactions
+   * @param transaction - Serialized transaction
+   */
+  parse(keyType: KeyType, transaction: Uint8Array): ParsedTransaction {
+    switch (keyType) {
+      case 'ed25519':
+        return parseSolanaTransaction(transaction);
+      case 'secp256k1':
+        return parseEvmTransaction(transaction);
+      default:
+        throw new Error(`Transaction signing is not supported for ${keyType} keys`);
+    }
+  }
+}
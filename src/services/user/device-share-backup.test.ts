@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { openDeviceShareBackup, sealDeviceShareBackup } from './device-share-backup';
+import { deviceShareBackupSchema } from '../communications/schemas';
+import { CrossmintFrameCodedError } from '../api/error';
+
+const CONTENT = {
+  deviceId: 'test-device-id',
+  signerId: 'test-signer-id',
+  deviceShare: new Uint8Array(33).map((_, i) => i),
+};
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('Device share backups', () => {
+  it('should restore the device share with the right passphrase', async () => {
+    const backup = await sealDeviceShareBackup(CONTENT, PASSPHRASE);
+
+    expect(deviceShareBackupSchema.parse(backup)).toEqual(backup);
+    expect(backup.ciphertext).not.toContain(Buffer.from(CONTENT.deviceShare).toString('base64'));
+    expect(await openDeviceShareBackup(backup, PASSPHRASE)).toEqual(CONTENT);
+  });
+
+  it('SECURITY: should refuse a wrong passphrase', async () => {
+    const backup = await sealDeviceShareBackup(CONTENT, PASSPHRASE);
+
+    const error = await openDeviceShareBackup(backup, 'wrong horse battery staple').catch(e => e);
+
+    expect(error).toBeInstanceOf(CrossmintFrameCodedError);
+    expect(error.code).toBe('invalid-backup');
+  });
+
+  it('SECURITY: should refuse backups bound to another device or signer', async () => {
+    const backup = await sealDeviceShareBackup(CONTENT, PASSPHRASE);
+
+    await expect(
+      openDeviceShareBackup({ ...backup, deviceId: 'other-device-id' }, PASSPHRASE)
+    ).rejects.toThrow('the passphrase is wrong or the backup was modified');
+    await expect(
+      openDeviceShareBackup({ ...backup, signerId: 'other-signer-id' }, PASSPHRASE)
+    ).rejects.toThrow('the passphrase is wrong or the backup was modified');
+  });
+
+  it('SECURITY: should refuse weakened key derivation settings', async () => {
+    const backup = await sealDeviceShareBackup(CONTENT, PASSPHRASE);
+
+    await expect(
+      openDeviceShareBackup({ ...backup, kdf: { ...backup.kdf, iterations: 1_000 } }, PASSPHRASE)
+    ).rejects.toThrow('Unsupported backup key derivation: 1000 iterations');
+  });
+});
@@ -0,0 +1,116 @@
+import { CrossmintFrameCodedError } from '../api/error';
+import { decodeBytes, encodeBytes } from '../common/utils';
+import type { DeviceShareBackup } from '../communications/schemas';
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256. Argon2id would be preferable, but is not available
+// in WebCrypto and the frame keeps its dependencies to a minimum.
+export const PBKDF2_ITERATIONS = 600_000;
+// Bounds accepted on import: backups come from the user, and may have been made with other settings
+const MIN_PBKDF2_ITERATIONS = 100_000;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+const SALT_LENGTH = 16;
+const AES_GCM_IV_LENGTH = 12;
+
+export type DeviceShareBackupContent = {
+  deviceId: string;
+  signerId: string;
+  deviceShare: Uint8Array;
+};
+
+/**
+ * Encrypts a device share under a key derived from the user's passphrase, so that the user can
+ * keep it as an offline recovery kit. The device and signer IDs are authenticated along with it.
+ */
+export async function sealDeviceShareBackup(
+  { deviceId, signerId, deviceShare }: DeviceShareBackupContent,
+  passphrase: string
+): Promise<DeviceShareBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(AES_GCM_IV_LENGTH));
+  const key = await deriveBackupKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: backupAdditionalData(deviceId, signerId) },
+    key,
+    deviceShare
+  );
+
+  return {
+    version: 1,
+    deviceId,
+    signerId,
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: encodeBytes(salt, 'base64'),
+    },
+    iv: encodeBytes(iv, 'base64'),
+    ciphertext: encodeBytes(new Uint8Array(ciphertext), 'base64'),
+  };
+}
+
+/**
+ * Decrypts a backup made by `sealDeviceShareBackup`.
+ *
+ * @throws {CrossmintFrameCodedError} When the passphrase is wrong or the backup was altered
+ */
+export async function openDeviceShareBackup(
+  backup: DeviceShareBackup,
+  passphrase: string
+): Promise<DeviceShareBackupContent> {
+  const { iterations, salt } = backup.kdf;
+  if (iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new CrossmintFrameCodedError(
+      `Unsupported backup key derivation: ${iterations} iterations`,
+      'invalid-backup'
+    );
+  }
+
+  const key = await deriveBackupKey(passphrase, decodeBytes(salt, 'base64'), iterations);
+  try {
+    const deviceShare = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: decodeBytes(backup.iv, 'base64'),
+        additionalData: backupAdditionalData(backup.deviceId, backup.signerId),
+      },
+      key,
+      decodeBytes(backup.ciphertext, 'base64')
+    );
+    return {
+      deviceId: backup.deviceId,
+      signerId: backup.signerId,
+      deviceShare: new Uint8Array(deviceShare),
+    };
+  } catch {
+    throw new CrossmintFrameCodedError(
+      'Could not decrypt the backup: the passphrase is wrong or the backup was modified',
+      'invalid-backup'
+    );
+  }
+}
+
+async function deriveBackupKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const passphraseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase.normalize('NFKC')),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    passphraseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function backupAdditionalData(deviceId: string, signerId: string): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify({ version: 1, deviceId, signerId }));
+}
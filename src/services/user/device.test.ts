@@ -1,11 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { DeviceService } from './device';
+import { InMemoryStore } from '../storage/in-memory-store';
+import { DEVICE_STORE_NAME } from '../storage/key-value-store';
 
 const TEST_DEVICE_ID = '123e4567-e89b-12d3-a456-426614174000';
 const DEVICE_ID_KEY = 'device-id';
 
 describe('DeviceService - Security Critical Tests', () => {
   let service: DeviceService;
+  let storage: InMemoryStore;
   let mockLocalStorage: {
     getItem: ReturnType<typeof vi.fn>;
     setItem: ReturnType<typeof vi.fn>;
@@ -20,7 +23,7 @@ describe('DeviceService - Security Critical Tests', () => {
 
     // Mock browser APIs
     mockLocalStorage = {
-      getItem: vi.fn(),
+      getItem: vi.fn().mockReturnValue(null),
       setItem: vi.fn(),
       removeItem: vi.fn(),
       clear: vi.fn(),
@@ -34,7 +37,8 @@ describe('DeviceService - Security Critical Tests', () => {
 
     vi.stubGlobal('localStorage', mockLocalStorage);
 
-    service = new DeviceService();
+    storage = new InMemoryStore();
+    service = new DeviceService(storage);
 
     // Suppress console output in tests
     vi.spyOn(console, 'log').mockImplementation(() => {});
@@ -42,37 +46,36 @@ describe('DeviceService - Security Critical Tests', () => {
   });
 
   describe('Device ID Generation - Isolation Foundation', () => {
-    it('Should generate cryptographically random device ID when none exists', () => {
-      mockLocalStorage.getItem.mockReturnValueOnce(null);
-
-      const result = service.getId();
+    it('Should generate cryptographically random device ID when none exists', async () => {
+      const result = await service.getId();
 
       expect(crypto.randomUUID).toHaveBeenCalled();
-      expect(mockLocalStorage.setItem).toHaveBeenCalledWith(DEVICE_ID_KEY, TEST_DEVICE_ID);
+      expect(await storage.getItem(DEVICE_STORE_NAME, DEVICE_ID_KEY)).toBe(TEST_DEVICE_ID);
       expect(result).toBe(TEST_DEVICE_ID);
     });
 
-    it('Should reuse existing device ID to maintain device identity', () => {
-      mockLocalStorage.getItem.mockReturnValueOnce(TEST_DEVICE_ID);
+    it('Should reuse existing device ID to maintain device identity', async () => {
+      await storage.setItem(DEVICE_STORE_NAME, DEVICE_ID_KEY, TEST_DEVICE_ID);
+      const setItemSpy = vi.spyOn(storage, 'setItem');
 
-      const result = service.getId();
+      const result = await service.getId();
 
       expect(crypto.randomUUID).not.toHaveBeenCalled();
-      expect(mockLocalStorage.setItem).not.toHaveBeenCalled();
+      expect(setItemSpy).not.toHaveBeenCalled();
       expect(result).toBe(TEST_DEVICE_ID);
     });
 
-    it('SECURITY: Should generate new device ID each time when none exists in storage', () => {
+    it('SECURITY: Should generate new device ID after the stored one is cleared', async () => {
       const firstDeviceId = '123e4567-e89b-12d3-a456-426614174001';
       const secondDeviceId = '123e4567-e89b-12d3-a456-426614174002';
 
-      mockLocalStorage.getItem.mockReturnValue(null);
       vi.mocked(crypto.randomUUID)
         .mockReturnValueOnce(firstDeviceId)
         .mockReturnValueOnce(secondDeviceId);
 
-      const result1 = service.getId();
-      const result2 = service.getId();
+      const result1 = await service.getId();
+      await service.clearId();
+      const result2 = await service.getId();
 
       expect(crypto.randomUUID).toHaveBeenCalledTimes(2);
       expect(result1).toBe(firstDeviceId);
@@ -81,35 +84,50 @@ describe('DeviceService - Security Critical Tests', () => {
   });
 
   describe('Device ID Cleanup - Security Operations', () => {
-    it('Should clear device ID from storage for security cleanup', () => {
-      service.clearId();
+    it('Should clear device ID from storage for security cleanup', async () => {
+      await storage.setItem(DEVICE_STORE_NAME, DEVICE_ID_KEY, TEST_DEVICE_ID);
 
-      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith(DEVICE_ID_KEY);
+      expect(await service.clearId()).toBe(true);
+
+      expect(await storage.getItem(DEVICE_STORE_NAME, DEVICE_ID_KEY)).toBeNull();
     });
 
-    it('Should handle multiple clear operations safely', () => {
+    it('Should handle multiple clear operations safely', async () => {
       // SECURITY PROPERTY: Multiple clears don't cause errors
-      service.clearId();
-      service.clearId();
-
-      expect(mockLocalStorage.removeItem).toHaveBeenCalledTimes(2);
-      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith(DEVICE_ID_KEY);
+      await service.clearId();
+      await expect(service.clearId()).resolves.toBe(false);
     });
   });
 
   describe('Device ID Persistence', () => {
-    it('Should maintain device identity across service instances', () => {
-      mockLocalStorage.getItem.mockReturnValue(TEST_DEVICE_ID);
-
-      const service1 = new DeviceService();
-      const service2 = new DeviceService();
-
-      const id1 = service1.getId();
-      const id2 = service2.getId();
+    it('Should maintain device identity across service instances', async () => {
+      const id1 = await new DeviceService(storage).getId();
+      const id2 = await new DeviceService(storage).getId();
 
       expect(id1).toBe(TEST_DEVICE_ID);
       expect(id2).toBe(TEST_DEVICE_ID);
+      expect(crypto.randomUUID).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should migrate a device ID stored in localStorage by earlier versions', async () => {
+      mockLocalStorage.getItem.mockImplementation((key: string) =>
+        key === DEVICE_ID_KEY ? TEST_DEVICE_ID : null
+      );
+
+      const result = await service.getId();
+
+      expect(result).toBe(TEST_DEVICE_ID);
       expect(crypto.randomUUID).not.toHaveBeenCalled();
+      expect(await storage.getItem(DEVICE_STORE_NAME, DEVICE_ID_KEY)).toBe(TEST_DEVICE_ID);
+      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith(DEVICE_ID_KEY);
+    });
+
+    it('Should generate a device ID when localStorage is blocked', async () => {
+      mockLocalStorage.getItem.mockImplementation(() => {
+        throw new DOMException('Access denied', 'SecurityError');
+      });
+
+      expect(await service.getId()).toBe(TEST_DEVICE_ID);
     });
   });
 });
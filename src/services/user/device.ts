@@ -1,4 +1,5 @@
 import { CrossmintFrameService } from '../service';
+import { DEVICE_STORE_NAME, wipeItem, type KeyValueStore } from '../storage/key-value-store';
 
 const DEVICE_ID_KEY = 'device-id';
 
@@ -6,10 +7,16 @@ export class DeviceService extends CrossmintFrameService {
   name = 'Device Service';
   log_prefix = '[DeviceService]';
 
-  public getId(): string {
+  constructor(private readonly storage: KeyValueStore) {
+    super();
+  }
+
+  public async getId(): Promise<string> {
     this.log('Attempting to get device ID from storage');
 
-    const existing = localStorage.getItem(DEVICE_ID_KEY);
+    const existing =
+      (await this.storage.getItem<string>(DEVICE_STORE_NAME, DEVICE_ID_KEY)) ??
+      (await this.migrateLegacyId());
     if (existing != null) {
       this.log(`Found existing device ID: ${existing.substring(0, 8)}...`);
       return existing;
@@ -17,13 +24,45 @@ export class DeviceService extends CrossmintFrameService {
 
     this.log('No existing device ID found, generating new one');
     const deviceId = crypto.randomUUID();
-    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    await this.storage.setItem(DEVICE_STORE_NAME, DEVICE_ID_KEY, deviceId);
     this.log(`Successfully stored new device ID: ${deviceId.substring(0, 8)}...`);
     return deviceId;
   }
 
-  public clearId(): void {
+  /**
+   * Replaces the device ID, e.g. when restoring a device share backup made under another ID.
+   */
+  public async setId(deviceId: string): Promise<void> {
+    this.log(`Setting device ID: ${deviceId.substring(0, 8)}...`);
+    await this.storage.setItem(DEVICE_STORE_NAME, DEVICE_ID_KEY, deviceId);
+  }
+
+  /**
+   * @returns Whether a device ID was stored
+   */
+  public async clearId(): Promise<boolean> {
     this.log('Clearing device ID from storage');
+    return wipeItem(this.storage, DEVICE_STORE_NAME, DEVICE_ID_KEY);
+  }
+
+  /**
+   * Device IDs used to be kept in localStorage directly. They are moved to the key-value store so
+   * that devices keep their identity, and with it access to their key shares.
+   */
+  private async migrateLegacyId(): Promise<string | null> {
+    let legacyId: string | null;
+    try {
+      legacyId = localStorage.getItem(DEVICE_ID_KEY);
+    } catch {
+      return null;
+    }
+    if (legacyId == null) {
+      return null;
+    }
+
+    this.log('Migrating device ID from localStorage');
+    await this.storage.setItem(DEVICE_STORE_NAME, DEVICE_ID_KEY, legacyId);
     localStorage.removeItem(DEVICE_ID_KEY);
+    return legacyId;
   }
 }
@@ -0,0 +1,77 @@
+import { combine } from 'shamir-secret-sharing';
+import { CrossmintFrameCodedError } from '../api/error';
+
+export type KeyShareType = 'device' | 'auth' | 'recovery';
+
+/**
+ * A Shamir share of a signer's master secret, with what the frame knows about it.
+ */
+export type KeyShare = {
+  type: KeyShareType;
+  // x-coordinate of the share, which `shamir-secret-sharing` appends as the last byte of every share
+  index: number;
+  bytes: Uint8Array;
+};
+
+/**
+ * Number of shares a master secret was split into, and how many of them reconstruct it.
+ */
+export type ShareScheme = {
+  threshold: number;
+  totalShares: number;
+};
+
+// Signers onboarded before recovery shares were introduced only have a device and an auth share
+export const DEFAULT_SHARE_SCHEME: ShareScheme = { threshold: 2, totalShares: 2 };
+
+export function toKeyShare(type: KeyShareType, bytes: Uint8Array): KeyShare {
+  return { type, index: bytes[bytes.length - 1], bytes };
+}
+
+/**
+ * Reads a share scheme as reported by Crossmint, defaulting to 2-of-2.
+ *
+ * @throws {Error} When the scheme cannot be produced by `shamir-secret-sharing`
+ */
+export function parseShareScheme({
+  threshold = DEFAULT_SHARE_SCHEME.threshold,
+  totalShares = DEFAULT_SHARE_SCHEME.totalShares,
+}: Partial<ShareScheme>): ShareScheme {
+  if (
+    !Number.isInteger(threshold) ||
+    !Number.isInteger(totalShares) ||
+    threshold < 2 ||
+    threshold > totalShares ||
+    totalShares > 255
+  ) {
+    throw new Error(`Unsupported key share scheme: ${threshold}-of-${totalShares}`);
+  }
+  return { threshold, totalShares };
+}
+
+/**
+ * Reconstructs a master secret from the shares available, which may be any `threshold` of them.
+ *
+ * @throws {CrossmintFrameCodedError} When fewer shares than the threshold are available
+ * @throws {Error} When shares cannot be combined, e.g. two of them have the same index
+ */
+export async function combineKeyShares(
+  shares: KeyShare[],
+  { threshold, totalShares }: ShareScheme
+): Promise<Uint8Array> {
+  if (shares.length < threshold) {
+    const available = shares.map(share => share.type).join(', ') || 'none';
+    throw new CrossmintFrameCodedError(
+      `Not enough key shares to reconstruct the master secret: ${threshold} of ${totalShares} required, available: ${available}`,
+      'insufficient-shares'
+    );
+  }
+
+  try {
+    return await combine(shares.slice(0, threshold).map(share => share.bytes));
+  } catch (error) {
+    throw new Error(
+      `Failed to recombine key shards: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { p256 } from '@noble/curves/p256';
+import { sha256 } from 'ethereum-cryptography/sha256.js';
+import { decodeBytes, encodeBytes, zeroize } from '../common/utils';
+
+const AES_GCM_IV_LENGTH = 12;
+const HKDF_INFO = new TextEncoder().encode('crossmint-device-share-passkey');
+
+/**
+ * Passkey a device share is bound to. The P-256 public key is derived from the passkey's PRF output
+ * for `salt`, so that shares can be sealed to the passkey without asking the user, while opening
+ * them requires the passkey to evaluate its PRF again.
+ */
+export type PasskeyBinding = {
+  credentialId: string;
+  salt: string;
+  publicKey: string;
+};
+
+/**
+ * What is needed, along with the passkey, to open a share sealed by `sealToPasskey`.
+ */
+export type PasskeySeal = {
+  credentialId: string;
+  salt: string;
+  ephemeralPublicKey: string;
+  iv: string;
+};
+
+export function createPasskeyBinding(
+  credentialId: string,
+  salt: Uint8Array,
+  prfOutput: Uint8Array
+): PasskeyBinding {
+  const privateKey = privateKeyFromPrf(prfOutput);
+  try {
+    return {
+      credentialId,
+      salt: encodeBytes(salt, 'base64'),
+      publicKey: encodeBytes(p256.getPublicKey(privateKey, false), 'base64'),
+    };
+  } finally {
+    zeroize(privateKey);
+  }
+}
+
+/**
+ * Encrypts data to the passkey's public key (ECIES with an ephemeral P-256 key, HKDF-SHA256 and
+ * AES-GCM), with `additionalData` authenticated along with it.
+ */
+export async function sealToPasskey(
+  data: Uint8Array,
+  binding: PasskeyBinding,
+  additionalData: Uint8Array
+): Promise<{ seal: PasskeySeal; ciphertext: Uint8Array }> {
+  const ephemeralPrivateKey = p256.utils.randomPrivateKey();
+  const ephemeralPublicKey = p256.getPublicKey(ephemeralPrivateKey, false);
+  const sharedSecret = p256.getSharedSecret(
+    ephemeralPrivateKey,
+    decodeBytes(binding.publicKey, 'base64')
+  );
+  try {
+    const iv = crypto.getRandomValues(new Uint8Array(AES_GCM_IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData },
+      await deriveSealKey(sharedSecret, ephemeralPublicKey),
+      data
+    );
+    return {
+      seal: {
+        credentialId: binding.credentialId,
+        salt: binding.salt,
+        ephemeralPublicKey: encodeBytes(ephemeralPublicKey, 'base64'),
+        iv: encodeBytes(iv, 'base64'),
+      },
+      ciphertext: new Uint8Array(ciphertext),
+    };
+  } finally {
+    zeroize(ephemeralPrivateKey, sharedSecret);
+  }
+}
+
+/**
+ * Decrypts data sealed by `sealToPasskey`, given the passkey's PRF output for the seal's salt.
+ *
+ * @throws {Error} When the PRF output is not the passkey's, or the data was altered
+ */
+export async function openWithPasskey(
+  ciphertext: Uint8Array,
+  seal: PasskeySeal,
+  prfOutput: Uint8Array,
+  additionalData: Uint8Array
+): Promise<Uint8Array> {
+  const privateKey = privateKeyFromPrf(prfOutput);
+  const ephemeralPublicKey = decodeBytes(seal.ephemeralPublicKey, 'base64');
+  let sharedSecret: Uint8Array | undefined;
+  try {
+    sharedSecret = p256.getSharedSecret(privateKey, ephemeralPublicKey);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: decodeBytes(seal.iv, 'base64'), additionalData },
+      await deriveSealKey(sharedSecret, ephemeralPublicKey),
+      ciphertext
+    );
+    return new Uint8Array(plaintext);
+  } finally {
+    zeroize(privateKey, sharedSecret);
+  }
+}
+
+// PRF outputs are uniformly random, so hashing them gives an invalid scalar with negligible odds
+function privateKeyFromPrf(prfOutput: Uint8Array): Uint8Array {
+  const privateKey = sha256(prfOutput);
+  if (!p256.utils.isValidPrivateKey(privateKey)) {
+    zeroize(privateKey);
+    throw new Error('Passkey PRF output does not give a valid key');
+  }
+  return privateKey;
+}
+
+async function deriveSealKey(
+  sharedSecret: Uint8Array,
+  ephemeralPublicKey: Uint8Array
+): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: ephemeralPublicKey, info: HKDF_INFO },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
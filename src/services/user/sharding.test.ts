@@ -7,15 +7,28 @@
  * 2. Device share integrity validation via hash consistency
  * 3. Multi-signer isolation (no cross-contamination between signers)
  * 4. Secure cleanup on integrity failures
+ * 5. Device share encryption at rest, including migration of plaintext shares
+ * 6. Share rotation, including recovery from interrupted rotations
+ * 7. Recovery shares replacing either the device or the auth share
+ * 8. Verified wipe of a signer or of the whole device on logout
+ * 9. Zeroing of shares and master secrets once used
+ * 10. Device shares bound to a passkey, only unlocked once the passkey verifies the user
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { mock } from 'vitest-mock-extended';
 import type { MockProxy } from 'vitest-mock-extended';
 import { ShardingService } from './sharding';
 import type { AuthShareCache } from '../storage/auth-share-cache';
 import { CrossmintFrameCodedError } from '../api/error';
-import { SHARDS_STORE_NAME } from '../storage/indexed-db';
+import {
+  ENCRYPTION_KEYS_STORE_NAME,
+  SHARDS_STORE_NAME,
+  SIGNERS_STORE_NAME,
+} from '../storage/key-value-store';
+import { InMemoryStore } from '../storage/in-memory-store';
+import { LocalStorageStore } from '../storage/local-storage-store';
+import { VirtualAuthenticator } from '../../tests/virtual-authenticator';
 
 // Test constants
 const MOCK_MASTER_SECRET = new Uint8Array(32).fill(1);
@@ -26,32 +39,53 @@ const TEST_AUTH_DATA = { jwt: 'test-jwt', apiKey: 'test-api-key' };
 
 // Storage keys from the service
 const DEVICE_SHARE_KEY = 'device-share';
+const PENDING_DEVICE_SHARE_KEY = 'pending-device-share';
+const WRAPPING_KEY = 'device-share-wrapping-key';
+const PASSKEY_BINDING_KEY = 'passkey-binding';
+
+// Captured before the global is stubbed, so that tests can still encrypt shares for real
+const realCrypto = globalThis.crypto;
 
 // Mock Shamir secret sharing
 vi.mock('shamir-secret-sharing', () => ({
-  combine: vi.fn().mockImplementation(() => Promise.resolve(MOCK_MASTER_SECRET)),
+  combine: vi.fn(),
+  split: vi.fn(),
 }));
 
+// The service zeroes shares once combined, so copies of them are recorded to assert on
+const combinedShares = vi.fn();
+const recordCombine = async (shares: Uint8Array[]) => {
+  combinedShares(shares.map(share => share.slice()));
+  return MOCK_MASTER_SECRET.slice();
+};
+
 import * as shamir from 'shamir-secret-sharing';
 import type { DeviceService } from './device';
-import type { IndexedDBAdapter } from '../storage';
+import type { SignerRegistryService } from './signer-registry';
+import type { KeyValueStore } from '../storage';
 const mockCombine = shamir.combine as ReturnType<typeof vi.fn>;
+const mockSplit = shamir.split as ReturnType<typeof vi.fn>;
 
 describe('ShardingService - Security Critical Tests', () => {
   let service: ShardingService;
   let mockAuthShareCache: MockProxy<AuthShareCache>;
   let mockDeviceService: MockProxy<DeviceService>;
-  let mockIndexedDB: MockProxy<IndexedDBAdapter>;
+  let mockStorage: MockProxy<KeyValueStore>;
+  let mockSignerRegistry: MockProxy<SignerRegistryService>;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.resetAllMocks();
-    mockCombine.mockClear().mockImplementation(() => Promise.resolve(MOCK_MASTER_SECRET));
+    mockCombine.mockClear().mockImplementation(recordCombine);
 
     // Mock browser APIs
     vi.stubGlobal('crypto', {
       randomUUID: vi.fn().mockReturnValue(TEST_DEVICE_ID),
+      getRandomValues: realCrypto.getRandomValues.bind(realCrypto),
       subtle: {
         digest: vi.fn().mockResolvedValue(new Uint8Array([104, 40, 120, 121, 122, 41]).buffer),
+        generateKey: realCrypto.subtle.generateKey.bind(realCrypto.subtle),
+        encrypt: realCrypto.subtle.encrypt.bind(realCrypto.subtle),
+        decrypt: realCrypto.subtle.decrypt.bind(realCrypto.subtle),
       },
     });
 
@@ -67,20 +101,28 @@ describe('ShardingService - Security Critical Tests', () => {
     // Mock dependencies
     mockAuthShareCache = mock<AuthShareCache>();
     mockDeviceService = mock<DeviceService>();
-    mockIndexedDB = mock<IndexedDBAdapter>();
-    mockDeviceService.getId.mockReturnValue(TEST_DEVICE_ID);
+    mockStorage = mock<KeyValueStore>();
+    mockSignerRegistry = mock<SignerRegistryService>();
+    mockDeviceService.getId.mockResolvedValue(TEST_DEVICE_ID);
 
-    service = new ShardingService(mockAuthShareCache, mockDeviceService, mockIndexedDB);
+    service = new ShardingService(
+      mockAuthShareCache,
+      mockDeviceService,
+      mockStorage,
+      mockSignerRegistry
+    );
 
     // Suppress console output in tests
     vi.spyOn(console, 'log').mockImplementation(() => {});
     vi.spyOn(console, 'debug').mockImplementation(() => {});
+
+    await service.init();
   });
 
   describe('Master Secret Reconstruction - Core Security Function', () => {
     beforeEach(() => {
       // Default setup: valid device share exists
-      mockIndexedDB.getItem.mockImplementation(async (storeName, key) => {
+      mockStorage.getItem.mockImplementation(async (storeName, key) => {
         if (storeName === SHARDS_STORE_NAME && key === `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`)
           return TEST_DEVICE_SHARE;
         return null;
@@ -96,8 +138,12 @@ describe('ShardingService - Security Critical Tests', () => {
 
       const result = await service.reconstructMasterSecret(TEST_AUTH_DATA);
 
-      expect(mockAuthShareCache.get).toHaveBeenCalledWith(TEST_DEVICE_ID, TEST_AUTH_DATA);
-      expect(mockCombine).toHaveBeenCalledWith(
+      expect(mockAuthShareCache.get).toHaveBeenCalledWith(
+        TEST_DEVICE_ID,
+        TEST_AUTH_DATA,
+        undefined
+      );
+      expect(combinedShares).toHaveBeenCalledWith(
         expect.arrayContaining([expect.anything(), expect.anything()])
       );
       expect(result).toEqual(MOCK_MASTER_SECRET);
@@ -119,7 +165,7 @@ describe('ShardingService - Security Critical Tests', () => {
         signerId: TEST_SIGNER_ID,
       });
 
-      mockIndexedDB.getItem.mockResolvedValue(null); // No device share
+      mockStorage.getItem.mockResolvedValue(null); // No device share
 
       const result = await service.reconstructMasterSecret(TEST_AUTH_DATA);
 
@@ -168,7 +214,7 @@ describe('ShardingService - Security Critical Tests', () => {
 
     beforeEach(() => {
       // Setup isolated storage for each signer
-      mockIndexedDB.getItem.mockImplementation(async (storeName, key) => {
+      mockStorage.getItem.mockImplementation(async (storeName, key) => {
         if (storeName !== SHARDS_STORE_NAME) return null;
         if (key === `${DEVICE_SHARE_KEY}-${SIGNER_SCENARIOS.signer1.signerId}`)
           return SIGNER_SCENARIOS.signer1.deviceShare;
@@ -206,8 +252,8 @@ describe('ShardingService - Security Critical Tests', () => {
       expect(result1).toEqual(MOCK_MASTER_SECRET);
 
       // Verify only signer 1's device share was accessed
-      expect(mockIndexedDB.getItem).toHaveBeenCalledTimes(1);
-      expect(mockIndexedDB.getItem).toHaveBeenCalledWith(
+      expect(mockStorage.getItem).toHaveBeenCalledTimes(1);
+      expect(mockStorage.getItem).toHaveBeenCalledWith(
         SHARDS_STORE_NAME,
         `${DEVICE_SHARE_KEY}-${SIGNER_SCENARIOS.signer1.signerId}`
       );
@@ -216,7 +262,8 @@ describe('ShardingService - Security Critical Tests', () => {
       expect(mockAuthShareCache.get).toHaveBeenCalledTimes(1);
       expect(mockAuthShareCache.get).toHaveBeenCalledWith(
         TEST_DEVICE_ID,
-        SIGNER_SCENARIOS.signer1.authData
+        SIGNER_SCENARIOS.signer1.authData,
+        undefined
       );
 
       // Clear mocks for next signer
@@ -227,8 +274,8 @@ describe('ShardingService - Security Critical Tests', () => {
       expect(result2).toEqual(MOCK_MASTER_SECRET);
 
       // Verify only signer 2's device share was accessed
-      expect(mockIndexedDB.getItem).toHaveBeenCalledTimes(1);
-      expect(mockIndexedDB.getItem).toHaveBeenCalledWith(
+      expect(mockStorage.getItem).toHaveBeenCalledTimes(1);
+      expect(mockStorage.getItem).toHaveBeenCalledWith(
         SHARDS_STORE_NAME,
         `${DEVICE_SHARE_KEY}-${SIGNER_SCENARIOS.signer2.signerId}`
       );
@@ -237,7 +284,8 @@ describe('ShardingService - Security Critical Tests', () => {
       expect(mockAuthShareCache.get).toHaveBeenCalledTimes(1);
       expect(mockAuthShareCache.get).toHaveBeenCalledWith(
         TEST_DEVICE_ID,
-        SIGNER_SCENARIOS.signer2.authData
+        SIGNER_SCENARIOS.signer2.authData,
+        undefined
       );
 
       // Clear mocks for next signer
@@ -248,8 +296,8 @@ describe('ShardingService - Security Critical Tests', () => {
       expect(result3).toEqual(MOCK_MASTER_SECRET);
 
       // Verify only signer 3's device share was accessed
-      expect(mockIndexedDB.getItem).toHaveBeenCalledTimes(1);
-      expect(mockIndexedDB.getItem).toHaveBeenCalledWith(
+      expect(mockStorage.getItem).toHaveBeenCalledTimes(1);
+      expect(mockStorage.getItem).toHaveBeenCalledWith(
         SHARDS_STORE_NAME,
         `${DEVICE_SHARE_KEY}-${SIGNER_SCENARIOS.signer3.signerId}`
       );
@@ -258,7 +306,8 @@ describe('ShardingService - Security Critical Tests', () => {
       expect(mockAuthShareCache.get).toHaveBeenCalledTimes(1);
       expect(mockAuthShareCache.get).toHaveBeenCalledWith(
         TEST_DEVICE_ID,
-        SIGNER_SCENARIOS.signer3.authData
+        SIGNER_SCENARIOS.signer3.authData,
+        undefined
       );
     });
 
@@ -299,21 +348,35 @@ describe('ShardingService - Security Critical Tests', () => {
       expect(mockAuthShareCache.get).toHaveBeenCalledTimes(1);
       expect(mockAuthShareCache.get).toHaveBeenCalledWith(
         TEST_DEVICE_ID,
-        SIGNER_SCENARIOS.signer1.authData
+        SIGNER_SCENARIOS.signer1.authData,
+        undefined
       );
 
-      expect(mockIndexedDB.getItem).toHaveBeenCalledTimes(1);
-      expect(mockIndexedDB.getItem).toHaveBeenCalledWith(
+      // The mismatching share is only cleared once no interrupted rotation explains it
+      expect(mockStorage.getItem).toHaveBeenCalledTimes(2);
+      expect(mockStorage.getItem).toHaveBeenCalledWith(
         SHARDS_STORE_NAME,
         `${DEVICE_SHARE_KEY}-${SIGNER_SCENARIOS.signer1.signerId}`
       );
+      expect(mockStorage.getItem).toHaveBeenCalledWith(
+        SHARDS_STORE_NAME,
+        `${PENDING_DEVICE_SHARE_KEY}-${SIGNER_SCENARIOS.signer1.signerId}`
+      );
 
       // Verify complete security cleanup occurred
-      expect(mockIndexedDB.removeItem).toHaveBeenCalledTimes(1);
-      expect(mockIndexedDB.removeItem).toHaveBeenCalledWith(
+      expect(mockStorage.removeItem).toHaveBeenCalledTimes(4);
+      expect(mockStorage.removeItem).toHaveBeenCalledWith(
         SHARDS_STORE_NAME,
         `${DEVICE_SHARE_KEY}-${SIGNER_SCENARIOS.signer1.signerId}`
       );
+      expect(mockStorage.removeItem).toHaveBeenCalledWith(
+        SHARDS_STORE_NAME,
+        `${PENDING_DEVICE_SHARE_KEY}-${SIGNER_SCENARIOS.signer1.signerId}`
+      );
+      expect(mockStorage.removeItem).toHaveBeenCalledWith(
+        SHARDS_STORE_NAME,
+        `${PASSKEY_BINDING_KEY}-${SIGNER_SCENARIOS.signer1.signerId}`
+      );
       expect(mockDeviceService.clearId).toHaveBeenCalledTimes(1);
       expect(mockAuthShareCache.clearCache).toHaveBeenCalledTimes(1);
 
@@ -321,7 +384,7 @@ describe('ShardingService - Security Critical Tests', () => {
       vi.clearAllMocks();
 
       // Setup clean environment for signer 2 after device ID regeneration
-      mockIndexedDB.getItem.mockImplementation(async (storeName, key) => {
+      mockStorage.getItem.mockImplementation(async (storeName, key) => {
         if (
           storeName === SHARDS_STORE_NAME &&
           key === `${DEVICE_SHARE_KEY}-${SIGNER_SCENARIOS.signer2.signerId}`
@@ -338,22 +401,63 @@ describe('ShardingService - Security Critical Tests', () => {
       expect(mockAuthShareCache.get).toHaveBeenCalledTimes(1);
       expect(mockAuthShareCache.get).toHaveBeenCalledWith(
         TEST_DEVICE_ID,
-        SIGNER_SCENARIOS.signer2.authData
+        SIGNER_SCENARIOS.signer2.authData,
+        undefined
       );
 
-      expect(mockIndexedDB.getItem).toHaveBeenCalledTimes(1);
-      expect(mockIndexedDB.getItem).toHaveBeenCalledWith(
+      expect(mockStorage.getItem).toHaveBeenCalledTimes(1);
+      expect(mockStorage.getItem).toHaveBeenCalledWith(
         SHARDS_STORE_NAME,
         `${DEVICE_SHARE_KEY}-${SIGNER_SCENARIOS.signer2.signerId}`
       );
 
       // Verify no additional cleanup operations occurred for signer 2
-      expect(mockIndexedDB.removeItem).not.toHaveBeenCalled();
+      expect(mockStorage.removeItem).not.toHaveBeenCalled();
       expect(mockDeviceService.clearId).not.toHaveBeenCalled();
       expect(mockAuthShareCache.clearCache).not.toHaveBeenCalled();
     });
   });
 
+  describe('Signer Selection', () => {
+    beforeEach(() => {
+      mockStorage.getItem.mockImplementation(async (storeName, key) =>
+        storeName === SHARDS_STORE_NAME && key === `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`
+          ? TEST_DEVICE_SHARE
+          : null
+      );
+    });
+
+    it('Should reconstruct the requested signer and report its ID', async () => {
+      mockAuthShareCache.get.mockResolvedValueOnce({
+        authKeyShare: 'test-auth-share',
+        deviceKeyShareHash: 'h(xyz)',
+        signerId: TEST_SIGNER_ID,
+      });
+
+      const result = await service.reconstructSigner(TEST_AUTH_DATA, TEST_SIGNER_ID);
+
+      expect(mockAuthShareCache.get).toHaveBeenCalledWith(
+        TEST_DEVICE_ID,
+        TEST_AUTH_DATA,
+        TEST_SIGNER_ID
+      );
+      expect(result).toEqual({ signerId: TEST_SIGNER_ID, masterSecret: MOCK_MASTER_SECRET });
+    });
+
+    it('SECURITY: Should refuse an auth share for another signer than the requested one', async () => {
+      mockAuthShareCache.get.mockResolvedValueOnce({
+        authKeyShare: 'test-auth-share',
+        deviceKeyShareHash: 'h(xyz)',
+        signerId: TEST_SIGNER_ID,
+      });
+
+      await expect(
+        service.reconstructMasterSecret(TEST_AUTH_DATA, 'other-signer-id')
+      ).rejects.toThrow('but signer other-signer-id was requested');
+      expect(mockCombine).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Device Share Integrity - Tamper Detection', () => {
     it('SECURITY: Should throw an error and clear data if the device share is tampered', async () => {
       mockAuthShareCache.get.mockResolvedValueOnce({
@@ -361,7 +465,7 @@ describe('ShardingService - Security Critical Tests', () => {
         deviceKeyShareHash: 'different-hash', // This hash does NOT match
         signerId: TEST_SIGNER_ID,
       });
-      mockIndexedDB.getItem.mockImplementation(async (storeName, key) => {
+      mockStorage.getItem.mockImplementation(async (storeName, key) => {
         if (storeName === SHARDS_STORE_NAME && key === `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`)
           return TEST_DEVICE_SHARE;
         return null;
@@ -372,25 +476,675 @@ describe('ShardingService - Security Critical Tests', () => {
       );
 
       // Verify that cleanup functions were called
-      expect(mockIndexedDB.removeItem).toHaveBeenCalledWith(
+      expect(mockStorage.removeItem).toHaveBeenCalledWith(
         SHARDS_STORE_NAME,
         `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`
       );
       expect(mockDeviceService.clearId).toHaveBeenCalled();
       expect(mockAuthShareCache.clearCache).toHaveBeenCalled();
+      expect(mockSignerRegistry.remove).toHaveBeenCalledWith(TEST_SIGNER_ID);
     });
   });
 
   describe('Device Share Storage - Secure On-Device Caching', () => {
-    it('Should store the device share in isolated storage for the signer', async () => {
+    it('Should store the device share encrypted, in isolated storage for the signer', async () => {
+      vi.clearAllMocks();
+
       await service.storeDeviceShare(TEST_SIGNER_ID, TEST_DEVICE_SHARE);
 
-      expect(mockIndexedDB.setItem).toHaveBeenCalledTimes(1);
-      expect(mockIndexedDB.setItem).toHaveBeenCalledWith(
+      // The wrapping key is generated along with the first share
+      expect(mockStorage.setItem).toHaveBeenCalledTimes(2);
+      expect(mockStorage.setItem).toHaveBeenCalledWith(
+        ENCRYPTION_KEYS_STORE_NAME,
+        WRAPPING_KEY,
+        expect.any(CryptoKey)
+      );
+      expect(mockStorage.setItem).toHaveBeenCalledWith(
         SHARDS_STORE_NAME,
         `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`,
-        TEST_DEVICE_SHARE
+        { version: 1, iv: expect.any(String), ciphertext: expect.any(String) }
+      );
+    });
+  });
+
+  describe('Device Share Encryption at Rest', () => {
+    const deviceShare = new Uint8Array(33).map((_, i) => i);
+    const deviceShareBase64 = Buffer.from(deviceShare).toString('base64');
+    let storage: InMemoryStore;
+    let deviceShareHash: string;
+
+    const authShardFor = (signerId: string) => ({
+      authKeyShare: 'dGVzdC1hdXRoLXNoYXJl',
+      deviceKeyShareHash: deviceShareHash,
+      signerId,
+    });
+
+    beforeEach(async () => {
+      vi.unstubAllGlobals();
+      storage = new InMemoryStore();
+      service = new ShardingService(
+        mockAuthShareCache,
+        mockDeviceService,
+        storage,
+        mockSignerRegistry
+      );
+      await service.init();
+
+      deviceShareHash = Buffer.from(await crypto.subtle.digest('SHA-256', deviceShare)).toString(
+        'base64'
+      );
+      mockAuthShareCache.get.mockResolvedValue(authShardFor(TEST_SIGNER_ID));
+    });
+
+    it('SECURITY: Should use a non-extractable wrapping key', async () => {
+      await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+
+      const wrappingKey = await storage.getItem<CryptoKey>(
+        ENCRYPTION_KEYS_STORE_NAME,
+        WRAPPING_KEY
+      );
+
+      expect(wrappingKey?.extractable).toBe(false);
+      expect(wrappingKey?.algorithm).toMatchObject({ name: 'AES-GCM', length: 256 });
+    });
+
+    it('SECURITY: Should never store the plaintext share', async () => {
+      await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+
+      const stored = await storage.getItem(
+        SHARDS_STORE_NAME,
+        `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`
       );
+      expect(JSON.stringify(stored)).not.toContain(deviceShareBase64);
+
+      expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+      expect(combinedShares).toHaveBeenCalledWith([deviceShare, expect.any(Uint8Array)]);
+    });
+
+    it('Should decrypt shares stored by a previous instance', async () => {
+      await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+
+      const reloaded = new ShardingService(
+        mockAuthShareCache,
+        mockDeviceService,
+        storage,
+        mockSignerRegistry
+      );
+
+      expect(await reloaded.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+      expect(combinedShares).toHaveBeenCalledWith([deviceShare, expect.any(Uint8Array)]);
+    });
+
+    it('Should encrypt plaintext shares from earlier versions on first read', async () => {
+      const key = `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`;
+      await storage.setItem(SHARDS_STORE_NAME, key, deviceShareBase64);
+
+      expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+      expect(combinedShares).toHaveBeenCalledWith([deviceShare, expect.any(Uint8Array)]);
+      expect(await storage.getItem(SHARDS_STORE_NAME, key)).toEqual({
+        version: 1,
+        iv: expect.any(String),
+        ciphertext: expect.any(String),
+      });
+
+      expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+      expect(combinedShares).toHaveBeenLastCalledWith([deviceShare, expect.any(Uint8Array)]);
+    });
+
+    it('SECURITY: Should not migrate tampered plaintext shares', async () => {
+      const key = `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`;
+      await storage.setItem(SHARDS_STORE_NAME, key, Buffer.from('tampered').toString('base64'));
+
+      await expect(service.reconstructMasterSecret(TEST_AUTH_DATA)).rejects.toThrow(
+        CrossmintFrameCodedError
+      );
+      expect(await storage.getItem(SHARDS_STORE_NAME, key)).toBeNull();
+    });
+
+    it('SECURITY: Should discard shares moved to another signer', async () => {
+      const otherSignerId = 'other-signer-id';
+      await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+      await storage.setItem(
+        SHARDS_STORE_NAME,
+        `${DEVICE_SHARE_KEY}-${otherSignerId}`,
+        await storage.getItem(SHARDS_STORE_NAME, `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`)
+      );
+      mockAuthShareCache.get.mockResolvedValue(authShardFor(otherSignerId));
+
+      expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toBeNull();
+      expect(mockCombine).not.toHaveBeenCalled();
+      expect(
+        await storage.getItem(SHARDS_STORE_NAME, `${DEVICE_SHARE_KEY}-${otherSignerId}`)
+      ).toBeNull();
+    });
+
+    describe('localStorage Fallback', () => {
+      const key = `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`;
+
+      const loadWithLocalStorage = async () => {
+        const reloaded = new ShardingService(
+          mockAuthShareCache,
+          mockDeviceService,
+          new LocalStorageStore(localStorage),
+          mockSignerRegistry
+        );
+        await reloaded.init();
+        return reloaded;
+      };
+
+      beforeEach(() => {
+        localStorage.clear();
+      });
+
+      it('SECURITY: Should keep shares whose wrapping key did not survive a reload', async () => {
+        // Encrypted by an earlier version, which kept the wrapping key in memory on this backend
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+        const sealed = await storage.getItem(SHARDS_STORE_NAME, key);
+        await new LocalStorageStore(localStorage).setItem(SHARDS_STORE_NAME, key, sealed);
+
+        const reloaded = await loadWithLocalStorage();
+
+        expect(await reloaded.reconstructMasterSecret(TEST_AUTH_DATA)).toBeNull();
+        expect(await new LocalStorageStore(localStorage).getItem(SHARDS_STORE_NAME, key)).toEqual(
+          sealed
+        );
+        expect(mockSignerRegistry.remove).not.toHaveBeenCalled();
+      });
+
+      it('Should refuse to store shares it could not decrypt after a reload', async () => {
+        const reloaded = await loadWithLocalStorage();
+
+        expect(() => reloaded.assertCanStoreDeviceShares()).toThrow(
+          expect.objectContaining({ code: 'unsupported-storage' })
+        );
+        await expect(reloaded.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64)).rejects.toThrow(
+          expect.objectContaining({
+            code: 'unsupported-storage',
+            message:
+              'Device shares cannot be stored: LocalStorage store cannot persist the key that encrypts them',
+          })
+        );
+        expect(
+          await new LocalStorageStore(localStorage).getItem(SHARDS_STORE_NAME, key)
+        ).toBeNull();
+      });
+
+      it('Should keep reading plaintext shares from earlier versions across reloads', async () => {
+        await new LocalStorageStore(localStorage).setItem(
+          SHARDS_STORE_NAME,
+          key,
+          deviceShareBase64
+        );
+
+        expect(
+          await (await loadWithLocalStorage()).reconstructMasterSecret(TEST_AUTH_DATA)
+        ).toEqual(MOCK_MASTER_SECRET);
+        expect(
+          await (await loadWithLocalStorage()).reconstructMasterSecret(TEST_AUTH_DATA)
+        ).toEqual(MOCK_MASTER_SECRET);
+        expect(combinedShares).toHaveBeenLastCalledWith([deviceShare, expect.any(Uint8Array)]);
+      });
+    });
+
+    describe('Backup and Recovery', () => {
+      const key = `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`;
+      const backupContent = { deviceId: TEST_DEVICE_ID, signerId: TEST_SIGNER_ID, deviceShare };
+
+      it('Should export the device share once checked against the auth share', async () => {
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+
+        expect(await service.exportDeviceShare(TEST_AUTH_DATA, TEST_SIGNER_ID)).toEqual(
+          backupContent
+        );
+      });
+
+      it('Should restore a device share, with the device ID it was issued to', async () => {
+        mockDeviceService.getId.mockResolvedValue('new-device-id');
+
+        await service.importDeviceShare(TEST_AUTH_DATA, backupContent);
+
+        expect(mockAuthShareCache.get).toHaveBeenCalledWith(
+          TEST_DEVICE_ID,
+          TEST_AUTH_DATA,
+          TEST_SIGNER_ID
+        );
+        expect(mockDeviceService.setId).toHaveBeenCalledWith(TEST_DEVICE_ID);
+        mockDeviceService.getId.mockResolvedValue(TEST_DEVICE_ID);
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+        expect(combinedShares).toHaveBeenCalledWith([deviceShare, expect.any(Uint8Array)]);
+      });
+
+      it('SECURITY: Should refuse device shares that do not match the auth share', async () => {
+        const error = await service
+          .importDeviceShare(TEST_AUTH_DATA, { ...backupContent, deviceShare: new Uint8Array(33) })
+          .catch(e => e);
+
+        expect(error).toBeInstanceOf(CrossmintFrameCodedError);
+        expect(error.code).toBe('invalid-device-share');
+        expect(await storage.getItem(SHARDS_STORE_NAME, key)).toBeNull();
+        expect(mockDeviceService.setId).not.toHaveBeenCalled();
+      });
+
+      it('Should refuse shares of signers unknown to Crossmint', async () => {
+        mockAuthShareCache.get.mockResolvedValue(null);
+
+        await expect(service.importDeviceShare(TEST_AUTH_DATA, backupContent)).rejects.toThrow(
+          `No authentication share found for signer ${TEST_SIGNER_ID}`
+        );
+      });
+
+      it('SECURITY: Should not orphan other signers by restoring another device ID', async () => {
+        await service.storeDeviceShare('other-signer-id', deviceShareBase64);
+        mockDeviceService.getId.mockResolvedValue('new-device-id');
+
+        await expect(service.importDeviceShare(TEST_AUTH_DATA, backupContent)).rejects.toThrow(
+          'Cannot restore a backup made on another device'
+        );
+        expect(mockDeviceService.setId).not.toHaveBeenCalled();
+        expect(await storage.getItem(SHARDS_STORE_NAME, key)).toBeNull();
+      });
+    });
+
+    describe('Share Rotation', () => {
+      const key = `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`;
+      const pendingKey = `${PENDING_DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`;
+      const rotatedDeviceShare = new Uint8Array(33).map((_, i) => 100 + i);
+      const rotatedAuthShare = new Uint8Array(33).map((_, i) => 200 + i);
+      let rotatedDeviceShareHash: string;
+
+      beforeEach(async () => {
+        mockSplit.mockImplementation(async () => [
+          rotatedDeviceShare.slice(),
+          rotatedAuthShare.slice(),
+        ]);
+        rotatedDeviceShareHash = Buffer.from(
+          await crypto.subtle.digest('SHA-256', rotatedDeviceShare)
+        ).toString('base64');
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+      });
+
+      it('SECURITY: Should replace the device share once Crossmint accepted the new auth share', async () => {
+        const commit = vi.fn().mockResolvedValue(undefined);
+
+        await service.rotateShares(TEST_SIGNER_ID, MOCK_MASTER_SECRET, commit);
+
+        expect(mockSplit).toHaveBeenCalledWith(MOCK_MASTER_SECRET, 2, 2);
+        expect(commit).toHaveBeenCalledWith({
+          authKeyShare: Buffer.from(rotatedAuthShare).toString('base64'),
+          deviceKeyShareHash: rotatedDeviceShareHash,
+        });
+        expect(mockAuthShareCache.clearCache).toHaveBeenCalled();
+        expect(await storage.getItem(SHARDS_STORE_NAME, pendingKey)).toBeNull();
+
+        mockAuthShareCache.get.mockResolvedValue({
+          ...authShardFor(TEST_SIGNER_ID),
+          deviceKeyShareHash: rotatedDeviceShareHash,
+        });
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+        expect(combinedShares).toHaveBeenLastCalledWith([
+          rotatedDeviceShare,
+          expect.any(Uint8Array),
+        ]);
+      });
+
+      it('SECURITY: Should refuse new shares that do not reconstruct the master secret', async () => {
+        mockCombine.mockResolvedValueOnce(new Uint8Array(32).fill(2));
+        const commit = vi.fn();
+
+        await expect(
+          service.rotateShares(TEST_SIGNER_ID, MOCK_MASTER_SECRET, commit)
+        ).rejects.toThrow('New key shares do not reconstruct the master secret');
+        expect(commit).not.toHaveBeenCalled();
+        expect(await storage.getItem(SHARDS_STORE_NAME, pendingKey)).toBeNull();
+      });
+
+      it('Should keep the previous device share when Crossmint did not apply the rotation', async () => {
+        const commit = vi.fn().mockRejectedValue(new Error('Rotation rejected'));
+
+        await expect(
+          service.rotateShares(TEST_SIGNER_ID, MOCK_MASTER_SECRET, commit)
+        ).rejects.toThrow('Rotation rejected');
+
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+        expect(combinedShares).toHaveBeenLastCalledWith([deviceShare, expect.any(Uint8Array)]);
+      });
+
+      it('Should complete a rotation that Crossmint applied without confirming', async () => {
+        const commit = vi.fn().mockRejectedValue(new Error('Network error'));
+        await expect(
+          service.rotateShares(TEST_SIGNER_ID, MOCK_MASTER_SECRET, commit)
+        ).rejects.toThrow('Network error');
+
+        mockAuthShareCache.get.mockResolvedValue({
+          ...authShardFor(TEST_SIGNER_ID),
+          deviceKeyShareHash: rotatedDeviceShareHash,
+        });
+
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+        expect(combinedShares).toHaveBeenLastCalledWith([
+          rotatedDeviceShare,
+          expect.any(Uint8Array),
+        ]);
+        expect(await storage.getItem(SHARDS_STORE_NAME, pendingKey)).toBeNull();
+        expect(mockSignerRegistry.remove).not.toHaveBeenCalled();
+
+        // The rotated share is now the current one
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+        expect(combinedShares).toHaveBeenLastCalledWith([
+          rotatedDeviceShare,
+          expect.any(Uint8Array),
+        ]);
+        expect(await storage.getItem(SHARDS_STORE_NAME, key)).not.toBeNull();
+      });
+    });
+
+    describe('Secret Lifetime', () => {
+      const isZeroed = (bytes: Uint8Array) => bytes.every(byte => byte === 0);
+
+      beforeEach(async () => {
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+      });
+
+      it('SECURITY: Should zero the master secret once the callback returns', async () => {
+        let masterSecret: Uint8Array | undefined;
+
+        const result = await service.withMasterSecret(TEST_AUTH_DATA, undefined, async signer => {
+          masterSecret = signer.masterSecret;
+          expect(signer).toEqual({ signerId: TEST_SIGNER_ID, masterSecret: MOCK_MASTER_SECRET });
+          return 'result';
+        });
+
+        expect(result).toBe('result');
+        expect(isZeroed(masterSecret as Uint8Array)).toBe(true);
+      });
+
+      it('SECURITY: Should zero the master secret when the callback throws', async () => {
+        let masterSecret: Uint8Array | undefined;
+
+        await expect(
+          service.withMasterSecret(TEST_AUTH_DATA, undefined, async signer => {
+            masterSecret = signer.masterSecret;
+            throw new Error('Signing failed');
+          })
+        ).rejects.toThrow('Signing failed');
+
+        expect(isZeroed(masterSecret as Uint8Array)).toBe(true);
+      });
+
+      it('Should not run the callback without shares', async () => {
+        mockAuthShareCache.get.mockResolvedValue(null);
+        const fn = vi.fn();
+
+        expect(await service.withMasterSecret(TEST_AUTH_DATA, undefined, fn)).toBeNull();
+        expect(fn).not.toHaveBeenCalled();
+      });
+
+      it('SECURITY: Should zero the shares once combined, even when combining fails', async () => {
+        await service.reconstructMasterSecret(TEST_AUTH_DATA);
+        mockCombine.mockRejectedValueOnce(new Error('Invalid share format'));
+        await expect(service.reconstructMasterSecret(TEST_AUTH_DATA)).rejects.toThrow();
+
+        expect(mockCombine).toHaveBeenCalledTimes(2);
+        for (const [shares] of mockCombine.mock.calls) {
+          expect(shares.every(isZeroed)).toBe(true);
+        }
+      });
+
+      it('SECURITY: Should zero the new shares once rotated', async () => {
+        const newShares = [new Uint8Array(33).fill(3), new Uint8Array(33).fill(4)];
+        mockSplit.mockResolvedValue(newShares);
+
+        await service.rotateShares(TEST_SIGNER_ID, MOCK_MASTER_SECRET, vi.fn());
+
+        expect(newShares.every(isZeroed)).toBe(true);
+        expect(isZeroed(MOCK_MASTER_SECRET)).toBe(false);
+      });
+    });
+
+    describe('Logout', () => {
+      const key = `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`;
+      const otherSignerId = 'other-signer-id';
+
+      beforeEach(async () => {
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+        await service.storeDeviceShare(otherSignerId, deviceShareBase64);
+        await storage.setItem(SIGNERS_STORE_NAME, TEST_SIGNER_ID, { signerId: TEST_SIGNER_ID });
+      });
+
+      it('SECURITY: Should only wipe the shares of the authenticated signer', async () => {
+        mockSignerRegistry.remove.mockImplementation(signerId =>
+          storage.removeItem(SIGNERS_STORE_NAME, signerId)
+        );
+
+        expect(await service.forgetSigner(TEST_AUTH_DATA, TEST_SIGNER_ID)).toBe(TEST_SIGNER_ID);
+
+        expect(await storage.getItem(SHARDS_STORE_NAME, key)).toBeNull();
+        expect(await storage.getItem(SIGNERS_STORE_NAME, TEST_SIGNER_ID)).toBeNull();
+        expect(mockAuthShareCache.clearCache).toHaveBeenCalled();
+        expect(
+          await storage.getItem(SHARDS_STORE_NAME, `${DEVICE_SHARE_KEY}-${otherSignerId}`)
+        ).not.toBeNull();
+        expect(await storage.getItem(ENCRYPTION_KEYS_STORE_NAME, WRAPPING_KEY)).not.toBeNull();
+        expect(mockDeviceService.clearId).not.toHaveBeenCalled();
+      });
+
+      it('SECURITY: Should not forget signers the credentials do not own', async () => {
+        await expect(service.forgetSigner(TEST_AUTH_DATA, otherSignerId)).rejects.toThrow(
+          `Authentication share is for signer ${TEST_SIGNER_ID}, but signer ${otherSignerId} was requested`
+        );
+        expect(
+          await storage.getItem(SHARDS_STORE_NAME, `${DEVICE_SHARE_KEY}-${otherSignerId}`)
+        ).not.toBeNull();
+      });
+
+      it('SECURITY: Should wipe every signer and the wrapping key of the device', async () => {
+        await storage.setItem(SHARDS_STORE_NAME, `${PENDING_DEVICE_SHARE_KEY}-orphan`, 'staged');
+
+        const result = await service.forgetDevice();
+
+        expect(result.signerIds.sort()).toEqual([otherSignerId, TEST_SIGNER_ID].sort());
+        expect(result.wrappingKey).toBe(true);
+        expect(await storage.getAllKeys(SHARDS_STORE_NAME)).toEqual([]);
+        expect(await storage.getItem(ENCRYPTION_KEYS_STORE_NAME, WRAPPING_KEY)).toBeNull();
+        expect(mockSignerRegistry.remove).toHaveBeenCalledWith(TEST_SIGNER_ID);
+        expect(mockSignerRegistry.remove).toHaveBeenCalledWith(otherSignerId);
+        expect(mockAuthShareCache.clearCache).toHaveBeenCalled();
+      });
+
+      it('Should encrypt new shares under a fresh wrapping key after forgetting the device', async () => {
+        await service.forgetDevice();
+
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+
+        expect(await storage.getItem(ENCRYPTION_KEYS_STORE_NAME, WRAPPING_KEY)).not.toBeNull();
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+      });
+    });
+
+    describe('Passkey Unlock', () => {
+      const key = `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`;
+      let authenticator: VirtualAuthenticator;
+
+      beforeEach(async () => {
+        authenticator = new VirtualAuthenticator();
+        authenticator.install();
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+      });
+
+      afterEach(() => {
+        authenticator.uninstall();
+      });
+
+      it('SECURITY: Should require the passkey to reconstruct the master secret', async () => {
+        expect(await service.bindDeviceShareToPasskey(TEST_AUTH_DATA)).toBe(TEST_SIGNER_ID);
+        const stored = await storage.getItem(SHARDS_STORE_NAME, key);
+        expect(stored).toMatchObject({ passkey: { credentialId: expect.any(String) } });
+        expect(JSON.stringify(stored)).not.toContain(deviceShareBase64);
+
+        const assertions = authenticator.assertions;
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+        expect(combinedShares).toHaveBeenLastCalledWith([deviceShare, expect.any(Uint8Array)]);
+        expect(authenticator.assertions).toBe(assertions + 1);
+
+        authenticator.userCancels = true;
+        const error = await service.reconstructMasterSecret(TEST_AUTH_DATA).catch(e => e);
+        expect(error).toBeInstanceOf(CrossmintFrameCodedError);
+        expect(error.code).toBe('passkey-required');
+        // The share is still usable once the user verifies
+        expect(await storage.getItem(SHARDS_STORE_NAME, key)).toEqual(stored);
+        expect(mockSignerRegistry.remove).not.toHaveBeenCalled();
+      });
+
+      it('Should seal shares stored later to the bound passkey', async () => {
+        await service.bindDeviceShareToPasskey(TEST_AUTH_DATA);
+
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+
+        expect(await storage.getItem(SHARDS_STORE_NAME, key)).toHaveProperty('passkey');
+        authenticator.userCancels = true;
+        await expect(service.reconstructMasterSecret(TEST_AUTH_DATA)).rejects.toMatchObject({
+          code: 'passkey-required',
+        });
+      });
+
+      it('Should unbind the share once the passkey verifies the user', async () => {
+        await service.bindDeviceShareToPasskey(TEST_AUTH_DATA);
+
+        authenticator.userCancels = true;
+        await expect(service.unbindDeviceShareFromPasskey(TEST_AUTH_DATA)).rejects.toMatchObject({
+          code: 'passkey-required',
+        });
+
+        authenticator.userCancels = false;
+        expect(await service.unbindDeviceShareFromPasskey(TEST_AUTH_DATA)).toBe(TEST_SIGNER_ID);
+        expect(await storage.getItem(SHARDS_STORE_NAME, key)).not.toHaveProperty('passkey');
+        expect(
+          await storage.getItem(SHARDS_STORE_NAME, `${PASSKEY_BINDING_KEY}-${TEST_SIGNER_ID}`)
+        ).toBeNull();
+
+        authenticator.userCancels = true;
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+      });
+
+      it('Should refuse passkeys without the PRF extension', async () => {
+        authenticator.uninstall();
+        authenticator = new VirtualAuthenticator({ prf: false });
+        authenticator.install();
+
+        await expect(service.bindDeviceShareToPasskey(TEST_AUTH_DATA)).rejects.toThrow(
+          'Passkey does not support the PRF extension'
+        );
+        expect(await storage.getItem(SHARDS_STORE_NAME, key)).not.toHaveProperty('passkey');
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+      });
+
+      it('SECURITY: Should wipe the passkey binding on logout', async () => {
+        await service.bindDeviceShareToPasskey(TEST_AUTH_DATA);
+
+        await service.forgetSigner(TEST_AUTH_DATA, TEST_SIGNER_ID);
+
+        expect(await storage.getAllKeys(SHARDS_STORE_NAME)).toEqual([]);
+      });
+    });
+
+    describe('Recovery Shares', () => {
+      const recoveryShare = new Uint8Array(33).map((_, i) => 50 + i);
+      const authShare = Buffer.from('dGVzdC1hdXRoLXNoYXJl', 'base64');
+      let recoveryShareHash: string;
+
+      const recoverableAuthShardFor = (signerId: string) => ({
+        ...authShardFor(signerId),
+        threshold: 2,
+        totalShares: 3,
+        recoveryKeyShareHash: recoveryShareHash,
+      });
+
+      beforeEach(async () => {
+        recoveryShareHash = Buffer.from(
+          await crypto.subtle.digest('SHA-256', recoveryShare)
+        ).toString('base64');
+        mockAuthShareCache.get.mockResolvedValue(recoverableAuthShardFor(TEST_SIGNER_ID));
+      });
+
+      it('Should replace a missing device share with the recovery share', async () => {
+        expect(
+          await service.reconstructMasterSecret(TEST_AUTH_DATA, undefined, recoveryShare)
+        ).toEqual(MOCK_MASTER_SECRET);
+        expect(combinedShares).toHaveBeenCalledWith([recoveryShare, new Uint8Array(authShare)]);
+      });
+
+      it('Should replace an unavailable auth share with the recovery share', async () => {
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+
+        mockAuthShareCache.get.mockRejectedValue(new Error('Network error'));
+
+        expect(
+          await service.reconstructMasterSecret(TEST_AUTH_DATA, TEST_SIGNER_ID, recoveryShare)
+        ).toEqual(MOCK_MASTER_SECRET);
+        expect(combinedShares).toHaveBeenLastCalledWith([deviceShare, recoveryShare]);
+      });
+
+      it('SECURITY: Should refuse recovery shares not issued for the signer', async () => {
+        const error = await service
+          .reconstructMasterSecret(TEST_AUTH_DATA, undefined, new Uint8Array(33))
+          .catch(e => e);
+
+        expect(error).toBeInstanceOf(CrossmintFrameCodedError);
+        expect(error.code).toBe('invalid-recovery-share');
+        expect(mockCombine).not.toHaveBeenCalled();
+      });
+
+      it('SECURITY: Should refuse recovery shares for signers split without one', async () => {
+        mockAuthShareCache.get.mockResolvedValue(authShardFor(TEST_SIGNER_ID));
+
+        const error = await service
+          .reconstructMasterSecret(TEST_AUTH_DATA, undefined, recoveryShare)
+          .catch(e => e);
+
+        expect(error).toBeInstanceOf(CrossmintFrameCodedError);
+        expect(error.code).toBe('invalid-recovery-share');
+      });
+
+      it('Should report insufficient shares when only the recovery share is available', async () => {
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+        await storage.removeItem(SHARDS_STORE_NAME, `${DEVICE_SHARE_KEY}-${TEST_SIGNER_ID}`);
+        mockAuthShareCache.get.mockRejectedValue(new Error('Network error'));
+        mockCombine.mockClear();
+
+        const error = await service
+          .reconstructMasterSecret(TEST_AUTH_DATA, TEST_SIGNER_ID, recoveryShare)
+          .catch(e => e);
+
+        expect(error).toBeInstanceOf(CrossmintFrameCodedError);
+        expect(error.code).toBe('insufficient-shares');
+        expect(error.message).toContain('2 of 3 required, available: recovery');
+        expect(mockCombine).not.toHaveBeenCalled();
+      });
+
+      it('Should reject share schemes the frame cannot combine', async () => {
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+        mockAuthShareCache.get.mockResolvedValue({
+          ...recoverableAuthShardFor(TEST_SIGNER_ID),
+          threshold: 4,
+        });
+
+        await expect(service.reconstructMasterSecret(TEST_AUTH_DATA)).rejects.toThrow(
+          'Unsupported key share scheme: 4-of-3'
+        );
+      });
+
+      it('SECURITY: Should not rotate shares of signers with a recovery share', async () => {
+        await service.storeDeviceShare(TEST_SIGNER_ID, deviceShareBase64);
+        expect(await service.reconstructMasterSecret(TEST_AUTH_DATA)).toEqual(MOCK_MASTER_SECRET);
+        const commit = vi.fn();
+
+        await expect(
+          service.rotateShares(TEST_SIGNER_ID, MOCK_MASTER_SECRET, commit)
+        ).rejects.toThrow(`Cannot rotate the shares of signer ${TEST_SIGNER_ID}`);
+        expect(commit).not.toHaveBeenCalled();
+      });
     });
   });
 });
@@ -1,19 +1,70 @@
-import { combine } from 'shamir-secret-sharing';
+import { combine, split } from 'shamir-secret-sharing';
 import { CrossmintFrameService } from '../service';
 import { CrossmintFrameCodedError } from '../api/error';
-import { decodeBytes, encodeBytes } from '../common/utils';
+import { constantTimeEqual, decodeBytes, encodeBytes, useSecret, zeroize } from '../common/utils';
 import type { AuthShareCache } from '../storage';
 import type { DeviceService } from './device';
-import { SHARDS_STORE_NAME, type IndexedDBAdapter } from '../storage';
+import type { SignerRegistryService } from './signer-registry';
+import type { DeviceShareBackupContent } from './device-share-backup';
+import {
+  createPasskeyBinding,
+  openWithPasskey,
+  sealToPasskey,
+  type PasskeyBinding,
+  type PasskeySeal,
+} from './passkey-seal';
+import { evaluatePrf, registerPasskey } from '../common/webauthn';
+import {
+  ENCRYPTION_KEYS_STORE_NAME,
+  SHARDS_STORE_NAME,
+  SIGNERS_STORE_NAME,
+  wipeItem,
+  type KeyValueStore,
+} from '../storage';
+import { AES256_KEY_SPEC } from '../encryption/encryption-consts';
+import {
+  combineKeyShares,
+  parseShareScheme,
+  toKeyShare,
+  type KeyShare,
+  type ShareScheme,
+} from './key-shares';
 
 const HASH_ALGO = 'SHA-256';
+const WRAPPING_KEY_STORAGE_KEY = 'device-share-wrapping-key';
+const AES_GCM_IV_LENGTH = 12;
+const PRF_SALT_LENGTH = 32;
+
+/**
+ * Device share as persisted in storage: AES-GCM ciphertext under the device's wrapping key, with the
+ * signer ID as additional data so that shares cannot be swapped between signers. When the share is
+ * bound to a passkey, the ciphertext holds the share sealed to the passkey rather than the share.
+ */
+type SealedDeviceShare = {
+  version: 1;
+  iv: string;
+  ciphertext: string;
+  passkey?: PasskeySeal;
+};
+
+// Shares were stored as plain base64 strings before they were encrypted at rest
+type StoredDeviceShare = SealedDeviceShare | string;
+
+/**
+ * Scheme and share hashes of a signer with a recovery share, as last reported by Crossmint. Kept so
+ * that the recovery share can replace the auth share when the latter cannot be fetched.
+ */
+type StoredShareScheme = ShareScheme & {
+  deviceKeyShareHash: string;
+  recoveryKeyShareHash: string;
+};
 
 /**
  * Shamir Secret Sharing service for cryptographic key reconstruction.
  *
  * This service implements a secure two-factor authentication system using Shamir Secret Sharing,
  * where cryptographic keys are split into two shares:
- * - **Device Share**: Stored locally in browser IndexedDB, tied to the device
+ * - **Device Share**: Stored locally in browser storage (IndexedDB by default), tied to the device
  * - **Auth Share**: Retrieved from Crossmint servers using JWT/API key authentication
  *
  * Both shares are required to reconstruct the master secret. This design ensures that:
@@ -23,35 +74,101 @@ const HASH_ALGO = 'SHA-256';
  *
  * The service includes integrity validation through cryptographic hashing to detect
  * tampering of device shares and provides secure cleanup on security violations.
+ *
+ * Signers may also be split with a larger threshold scheme, such as 2-of-3 where a third
+ * **Recovery Share** is held offline by the user or a custodian. The recovery share can then
+ * replace either of the other two, and is checked against the hash reported by Crossmint.
+ *
+ * Device shares are encrypted at rest with AES-GCM under a non-extractable wrapping key, which is
+ * generated on the device and persisted next to the encryption key pair. Reading storage is
+ * therefore not enough to obtain a share: the key can only be used through WebCrypto, from this
+ * origin. Shares are not stored on backends that cannot keep the key, such as the localStorage
+ * fallback, since they could not be decrypted after a reload: devices on these backends cannot
+ * onboard, and only read plaintext shares stored by earlier versions.
+ *
+ * Users may also bind a signer's device share to a passkey, after which reading it requires the
+ * passkey to verify them, through the WebAuthn PRF extension.
  */
 export class ShardingService extends CrossmintFrameService {
   name = 'Sharding Service';
   log_prefix = '[ShardingService]';
 
+  // Null once loaded when the device has no wrapping key yet
+  private wrappingKey: Promise<CryptoKey | null> | null = null;
+
   constructor(
     private readonly authShareCache: AuthShareCache,
     private readonly deviceService: DeviceService,
-    private readonly indexedDB: IndexedDBAdapter
+    private readonly storage: KeyValueStore,
+    private readonly signerRegistry: SignerRegistryService
   ) {
     super();
   }
 
   async init() {
     await this.authShareCache.init();
-    await this.indexedDB.init();
+    await this.storage.init();
+    await this.loadWrappingKey();
+    if (!this.storage.storesCryptoKeys) {
+      this.logError(`${this.storage.name} cannot persist the wrapping key, devices cannot onboard`);
+    }
+  }
+
+  /**
+   * Checks that device shares can be stored, before a device onboards.
+   *
+   * @throws {CrossmintFrameCodedError} With code `unsupported-storage` when the storage backend
+   * cannot persist the wrapping key, as shares encrypted under it could not be decrypted after a
+   * reload
+   */
+  public assertCanStoreDeviceShares(): void {
+    if (!this.storage.storesCryptoKeys) {
+      throw new CrossmintFrameCodedError(
+        `Device shares cannot be stored: ${this.storage.name} cannot persist the key that encrypts them`,
+        'unsupported-storage'
+      );
+    }
   }
 
   /**
-   * Stores a device share in browser IndexedDB for a specific signer.
+   * Stores a device share in browser storage for a specific signer.
    *
    * Device shares are stored per-signer to maintain isolation between different
-   * signing contexts. The share is stored as a base64-encoded string.
+   * signing contexts. The share is encrypted under the device's wrapping key before being stored.
    *
    * @param signerId - Unique identifier for the signer
    * @param share - Base64-encoded device share data to store
    */
   public async storeDeviceShare(signerId: string, share: string): Promise<void> {
-    await this.indexedDB.setItem(SHARDS_STORE_NAME, this.deviceShareStorageKey(signerId), share);
+    await this.saveDeviceShare(
+      signerId,
+      decodeBytes(share, 'base64'),
+      await this.getPasskeyBinding(signerId)
+    );
+  }
+
+  /**
+   * Reconstructs a signer's master secret and runs `fn` with it, zeroing the secret once `fn`
+   * settles, including when it throws. This is how handlers should use the master secret: it must
+   * not be kept, nor escape `fn`.
+   *
+   * @param requestedSignerId - Signer to reconstruct, when the device holds shares for several.
+   * Defaults to the signer associated with the credentials
+   * @returns What `fn` returned, or null if shares are unavailable, in which case `fn` is not run
+   * @throws {CrossmintFrameCodedError} When device share tampering is detected
+   */
+  public async withMasterSecret<T>(
+    authData: { jwt: string; apiKey: string },
+    requestedSignerId: string | undefined,
+    fn: (signer: { signerId: string; masterSecret: Uint8Array }) => Promise<T>
+  ): Promise<T | null> {
+    const signer = await this.reconstructSigner(authData, requestedSignerId);
+    if (signer == null) {
+      return null;
+    }
+    return useSecret(signer.masterSecret, masterSecret =>
+      fn({ signerId: signer.signerId, masterSecret })
+    );
   }
 
   /**
@@ -59,57 +176,534 @@ export class ShardingService extends CrossmintFrameService {
    *
    * This method performs the core Shamir Secret Sharing reconstruction:
    * 1. Retrieves the authentication share using provided credentials
-   * 2. Loads the device share from IndexedDB for the authenticated signer
+   * 2. Loads the device share from storage for the authenticated signer
    * 3. Validates device share integrity through cryptographic hash verification
    * 4. Combines both shares to reconstruct the original master secret
    *
    * Returns null if either share is unavailable, ensuring graceful failure modes.
    * Throws errors for security violations (tampering) or cryptographic failures.
    *
+   * The shares are zeroed once combined, but the returned secret is the caller's to zero. Prefer
+   * `withMasterSecret`, which does it.
+   *
    * @param authData - Authentication credentials containing JWT and API key
    * @param authData.jwt - JSON Web Token for user authentication
    * @param authData.apiKey - API key for application authentication
+   * @param requestedSignerId - Signer to reconstruct, when the device holds shares for several.
+   * Defaults to the signer associated with the credentials
+   * @param recoveryShare - Recovery share of the signer, to use in place of a missing device or
+   * auth share
    * @returns Promise resolving to reconstructed master secret bytes, or null if shares unavailable
-   * @throws {CrossmintFrameCodedError} When device share tampering is detected
+   * @throws {CrossmintFrameCodedError} When device share tampering is detected, the recovery share
+   * is not the signer's, or fewer shares than the signer's threshold are available. With code
+   * `passkey-required` when the device share is bound to a passkey that did not verify the user
    * @throws {Error} When cryptographic reconstruction fails
    */
-  public async reconstructMasterSecret(authData: { jwt: string; apiKey: string }) {
-    const deviceId = this.deviceService.getId();
-    const authShardData = await this.authShareCache.get(deviceId, authData);
+  public async reconstructMasterSecret(
+    authData: { jwt: string; apiKey: string },
+    requestedSignerId?: string,
+    recoveryShare?: Uint8Array
+  ): Promise<Uint8Array | null> {
+    return (
+      (await this.reconstructSigner(authData, requestedSignerId, recoveryShare))?.masterSecret ??
+      null
+    );
+  }
+
+  /**
+   * Same as `reconstructMasterSecret`, also returning the ID of the reconstructed signer.
+   */
+  public async reconstructSigner(
+    authData: { jwt: string; apiKey: string },
+    requestedSignerId?: string,
+    recoveryShare?: Uint8Array
+  ): Promise<{ signerId: string; masterSecret: Uint8Array } | null> {
+    if (recoveryShare != null) {
+      const { signerId, scheme, keyShares } = await this.loadSharesForRecovery(
+        authData,
+        requestedSignerId,
+        toKeyShare('recovery', recoveryShare)
+      );
+      return { signerId, masterSecret: await this.combineAndWipe(keyShares, scheme) };
+    }
+
+    const shares = await this.loadShares(authData, requestedSignerId);
+    if (shares == null) {
+      return null;
+    }
+
+    const { signerId, scheme, deviceShareBytes, authKeyShare } = shares;
+    const keyShares = [
+      toKeyShare('device', deviceShareBytes),
+      toKeyShare('auth', decodeBytes(authKeyShare, 'base64')),
+    ];
+    return { signerId, masterSecret: await this.combineAndWipe(keyShares, scheme) };
+  }
+
+  /**
+   * Shares are decrypted or decoded for a single reconstruction, so they are zeroed right after.
+   * Recovery shares belong to the caller and are left alone.
+   */
+  private async combineAndWipe(keyShares: KeyShare[], scheme: ShareScheme): Promise<Uint8Array> {
+    try {
+      return await combineKeyShares(keyShares, scheme);
+    } finally {
+      zeroize(...keyShares.filter(share => share.type !== 'recovery').map(share => share.bytes));
+    }
+  }
+
+  /**
+   * Returns the plaintext device share of a signer, once checked against the authentication share,
+   * so that the user can back it up. The caller must zero the share once it is sealed.
+   *
+   * @returns The device share and the IDs it is bound to, or null if shares are unavailable
+   * @throws {CrossmintFrameCodedError} When device share tampering is detected
+   */
+  public async exportDeviceShare(
+    authData: { jwt: string; apiKey: string },
+    requestedSignerId?: string
+  ): Promise<DeviceShareBackupContent | null> {
+    const shares = await this.loadShares(authData, requestedSignerId);
+    if (shares == null) {
+      return null;
+    }
+    return {
+      deviceId: shares.deviceId,
+      signerId: shares.signerId,
+      deviceShare: shares.deviceShareBytes,
+    };
+  }
+
+  /**
+   * Restores a backed up device share, after checking it against the hash held by Crossmint.
+   *
+   * Auth shares are issued per device, so the device ID the share was issued to is restored too.
+   * This is refused when the device currently holds shares issued to another device ID, as they
+   * would become unusable.
+   *
+   * @throws {CrossmintFrameCodedError} When the share does not match the authentication share
+   * @throws {Error} When no authentication share exists for the signer, or the device ID conflicts
+   */
+  public async importDeviceShare(
+    authData: { jwt: string; apiKey: string },
+    { deviceId, signerId, deviceShare }: DeviceShareBackupContent
+  ): Promise<void> {
+    const authShardData = await this.authShareCache.get(deviceId, authData, signerId);
+    if (authShardData == null || authShardData.signerId !== signerId) {
+      throw new Error(`No authentication share found for signer ${signerId} on this device`);
+    }
+    const actualHash = await this.hashKeyShare(deviceShare);
+    if (actualHash !== authShardData.deviceKeyShareHash) {
+      throw new CrossmintFrameCodedError(
+        'Backed up device share does not match Crossmint held authentication share',
+        'invalid-device-share'
+      );
+    }
+
+    const currentDeviceId = await this.deviceService.getId();
+    if (currentDeviceId !== deviceId) {
+      const storedShares = await this.storage.getAllItems(SHARDS_STORE_NAME);
+      if (storedShares.length > 0) {
+        throw new Error(
+          'Cannot restore a backup made on another device while this device holds other signers'
+        );
+      }
+      this.log('Restoring the device ID of the backup');
+      await this.deviceService.setId(deviceId);
+    }
+
+    await this.saveDeviceShare(signerId, deviceShare, await this.getPasskeyBinding(signerId));
+    await this.storage.removeItem(SHARDS_STORE_NAME, this.pendingDeviceShareStorageKey(signerId));
+  }
+
+  /**
+   * Replaces a signer's shares with a fresh split of the same master secret, so that its public keys
+   * do not change but previously issued shares become useless.
+   *
+   * The new device share is staged before `commitAuthShare` sends the new auth share to Crossmint,
+   * and only becomes the current share once Crossmint accepted it. If the commit fails, whichever
+   * share matches the hash held by Crossmint is kept on next read: the previous one if the
+   * rotation was not applied, the new one if it was applied but the response was lost.
+   *
+   * @param commitAuthShare - Sends the new auth share and device share hash to Crossmint
+   * @throws {Error} When the new shares do not reconstruct the master secret, or the commit fails
+   */
+  public async rotateShares(
+    signerId: string,
+    masterSecret: Uint8Array,
+    commitAuthShare: (shares: { authKeyShare: string; deviceKeyShareHash: string }) => Promise<void>
+  ): Promise<void> {
+    // A fresh split would leave the recovery share held offline unable to reconstruct anything
+    if (
+      (await this.storage.getItem(SHARDS_STORE_NAME, this.shareSchemeStorageKey(signerId))) != null
+    ) {
+      throw new Error(`Cannot rotate the shares of signer ${signerId}, it has a recovery share`);
+    }
+
+    const binding = await this.getPasskeyBinding(signerId);
+    const [deviceShareBytes, authShareBytes] = await split(masterSecret, 2, 2);
+    try {
+      const recombined = await combine([deviceShareBytes, authShareBytes]);
+      const reconstructs = constantTimeEqual(recombined, masterSecret);
+      zeroize(recombined);
+      if (!reconstructs) {
+        throw new Error('New key shares do not reconstruct the master secret');
+      }
+
+      const pendingKey = this.pendingDeviceShareStorageKey(signerId);
+      await this.saveDeviceShare(signerId, deviceShareBytes, binding, pendingKey);
+      try {
+        await commitAuthShare({
+          authKeyShare: encodeBytes(authShareBytes, 'base64'),
+          deviceKeyShareHash: await this.hashKeyShare(deviceShareBytes),
+        });
+      } finally {
+        this.authShareCache.clearCache();
+      }
+
+      await this.saveDeviceShare(signerId, deviceShareBytes, binding);
+      await this.storage.removeItem(SHARDS_STORE_NAME, pendingKey);
+      this.log(`Rotated key shares of signer ${signerId}`);
+    } finally {
+      zeroize(deviceShareBytes, authShareBytes);
+    }
+  }
+
+  /**
+   * Binds a signer's device share to a new passkey, so that reconstructing its master secret
+   * requires the passkey to verify the user. The share is sealed to a key derived from the
+   * passkey's PRF output, which the authenticator only gives out after verifying the user.
+   *
+   * @returns The ID of the signer whose share was bound
+   * @throws {Error} When the device holds no share for the signer, or the passkey does not support
+   * the PRF extension
+   */
+  public async bindDeviceShareToPasskey(
+    authData: { jwt: string; apiKey: string },
+    requestedSignerId?: string
+  ): Promise<string> {
+    const signerId = await this.getAuthenticatedSignerId(authData, requestedSignerId);
+    const deviceShareBytes = await this.readDeviceShare(signerId);
+    try {
+      const credentialId = await registerPasskey(signerId, { prf: true });
+      const salt = crypto.getRandomValues(new Uint8Array(PRF_SALT_LENGTH));
+      const binding = await useSecret(await evaluatePrf(credentialId, salt), async output =>
+        createPasskeyBinding(credentialId, salt, output)
+      );
+
+      await this.storage.setItem(
+        SHARDS_STORE_NAME,
+        this.passkeyBindingStorageKey(signerId),
+        binding
+      );
+      await this.saveDeviceShare(signerId, deviceShareBytes, binding);
+    } finally {
+      zeroize(deviceShareBytes);
+    }
+    this.log(`Bound device share of signer ${signerId} to a passkey`);
+    return signerId;
+  }
+
+  /**
+   * Stores a signer's device share under the wrapping key alone again. Opening the share for this
+   * requires the passkey it is bound to.
+   *
+   * @returns The ID of the signer whose share was unbound
+   * @throws {CrossmintFrameCodedError} With code `passkey-required` when the passkey does not
+   * verify the user
+   */
+  public async unbindDeviceShareFromPasskey(
+    authData: { jwt: string; apiKey: string },
+    requestedSignerId?: string
+  ): Promise<string> {
+    const signerId = await this.getAuthenticatedSignerId(authData, requestedSignerId);
+    const deviceShareBytes = await this.readDeviceShare(signerId);
+    try {
+      await this.saveDeviceShare(signerId, deviceShareBytes);
+    } finally {
+      zeroize(deviceShareBytes);
+    }
+    await wipeItem(this.storage, SHARDS_STORE_NAME, this.passkeyBindingStorageKey(signerId));
+    this.log(`Unbound device share of signer ${signerId} from its passkey`);
+    return signerId;
+  }
+
+  /**
+   * Resolves the signer the credentials belong to, without reconstructing its master secret. The
+   * auth share is cached, so a reconstruction right after does not fetch it again.
+   *
+   * @throws {Error} When the signer is unknown to Crossmint, or is not the requested one
+   */
+  public async getAuthenticatedSignerId(
+    authData: { jwt: string; apiKey: string },
+    requestedSignerId?: string
+  ): Promise<string> {
+    const deviceId = await this.deviceService.getId();
+    const authShardData = await this.authShareCache.get(deviceId, authData, requestedSignerId);
+    if (authShardData == null) {
+      throw new Error('No authentication share found for the signer on this device');
+    }
+    this.checkRequestedSigner(authShardData.signerId, requestedSignerId);
+    return authShardData.signerId;
+  }
+
+  /**
+   * Deletes a signer's shares from this device, once the credentials are checked to be the
+   * signer's. Other signers on the device are left untouched.
+   *
+   * @returns The ID of the forgotten signer
+   * @throws {Error} When the signer is unknown to Crossmint, or its shares could not be wiped
+   */
+  public async forgetSigner(
+    authData: { jwt: string; apiKey: string },
+    requestedSignerId?: string
+  ): Promise<string> {
+    const signerId = await this.getAuthenticatedSignerId(authData, requestedSignerId);
+    await this.wipeSigner(signerId);
+    this.authShareCache.clearCache();
+    this.log(`Forgot signer ${signerId}`);
+    return signerId;
+  }
+
+  /**
+   * Deletes the shares of every signer on this device, along with the wrapping key they were
+   * encrypted under. A new wrapping key is generated on next use.
+   *
+   * @returns IDs of the signers that had shares or metadata on this device, and whether a wrapping
+   * key was stored
+   * @throws {Error} When an item could not be wiped
+   */
+  public async forgetDevice(): Promise<{ signerIds: string[]; wrappingKey: boolean }> {
+    const signerIds = new Set(await this.storage.getAllKeys(SIGNERS_STORE_NAME));
+    const deviceSharePrefix = this.deviceShareStorageKey('');
+    for (const key of await this.storage.getAllKeys(SHARDS_STORE_NAME)) {
+      if (key.startsWith(deviceSharePrefix)) {
+        signerIds.add(key.slice(deviceSharePrefix.length));
+      }
+    }
+
+    for (const signerId of signerIds) {
+      await this.wipeSigner(signerId);
+    }
+    // Leftovers of signers whose device share was already gone, e.g. staged rotations
+    for (const key of await this.storage.getAllKeys(SHARDS_STORE_NAME)) {
+      await wipeItem(this.storage, SHARDS_STORE_NAME, key);
+    }
+
+    const wrappingKey = await wipeItem(
+      this.storage,
+      ENCRYPTION_KEYS_STORE_NAME,
+      WRAPPING_KEY_STORAGE_KEY
+    );
+    this.wrappingKey = null;
+    this.authShareCache.clearCache();
+    this.log(`Forgot ${signerIds.size} signer(s) and the device share wrapping key`);
+    return { signerIds: [...signerIds], wrappingKey };
+  }
+
+  private async loadShares(
+    authData: { jwt: string; apiKey: string },
+    requestedSignerId?: string
+  ): Promise<{
+    deviceId: string;
+    signerId: string;
+    scheme: ShareScheme;
+    deviceShareBytes: Uint8Array;
+    authKeyShare: string;
+  } | null> {
+    const deviceId = await this.deviceService.getId();
+    const authShardData = await this.authShareCache.get(deviceId, authData, requestedSignerId);
     if (authShardData == null) {
       return null;
     }
 
-    const { authKeyShare, deviceKeyShareHash, signerId } = authShardData;
+    const { authKeyShare, deviceKeyShareHash, recoveryKeyShareHash, signerId } = authShardData;
+    this.checkRequestedSigner(signerId, requestedSignerId);
+    const scheme = parseShareScheme(authShardData);
 
-    const deviceShare = await this.indexedDB.getItem<string>(
+    const storedDeviceShare = await this.storage.getItem<StoredDeviceShare>(
       SHARDS_STORE_NAME,
       this.deviceShareStorageKey(signerId)
     );
-    if (deviceShare == null) {
-      return null;
-    }
+    const deviceShareBytes =
+      storedDeviceShare != null ? await this.openDeviceShare(storedDeviceShare, signerId) : null;
 
-    const deviceShareBytes = decodeBytes(deviceShare, 'base64');
-    await this.validateDeviceShareConsistency(deviceShareBytes, deviceKeyShareHash, signerId);
+    if (
+      deviceShareBytes == null ||
+      (await this.hashKeyShare(deviceShareBytes)) !== deviceKeyShareHash
+    ) {
+      const rotatedShareBytes = await this.completePendingRotation(signerId, deviceKeyShareHash);
+      if (rotatedShareBytes != null) {
+        zeroize(deviceShareBytes);
+        return { deviceId, signerId, scheme, deviceShareBytes: rotatedShareBytes, authKeyShare };
+      }
+    }
 
+    if (deviceShareBytes == null) {
+      return null;
+    }
     try {
-      const authShareBytes = decodeBytes(authKeyShare, 'base64');
-      return await combine([deviceShareBytes, authShareBytes]);
+      await this.validateDeviceShareConsistency(deviceShareBytes, deviceKeyShareHash, signerId);
     } catch (error) {
+      zeroize(deviceShareBytes);
+      throw error;
+    }
+
+    // Plaintext shares are left as they are where encrypting them would lose them on reload
+    if (typeof storedDeviceShare === 'string' && this.storage.storesCryptoKeys) {
+      this.log('Encrypting device share stored in plaintext');
+      await this.saveDeviceShare(signerId, deviceShareBytes);
+    }
+
+    if (recoveryKeyShareHash != null) {
+      await this.saveShareScheme(signerId, {
+        ...scheme,
+        deviceKeyShareHash,
+        recoveryKeyShareHash,
+      });
+    }
+
+    return { deviceId, signerId, scheme, deviceShareBytes, authKeyShare };
+  }
+
+  /**
+   * Gathers the shares to combine with a recovery share. When Crossmint provides the auth share,
+   * the recovery share replaces the device share. Otherwise it replaces the auth share, and both
+   * are checked against the hashes saved the last time Crossmint was reached.
+   */
+  private async loadSharesForRecovery(
+    authData: { jwt: string; apiKey: string },
+    requestedSignerId: string | undefined,
+    recoveryShare: KeyShare
+  ): Promise<{ signerId: string; scheme: ShareScheme; keyShares: KeyShare[] }> {
+    const deviceId = await this.deviceService.getId();
+    const authShardData = await this.authShareCache
+      .get(deviceId, authData, requestedSignerId)
+      .catch(error => {
+        this.logError(`Could not fetch the authentication share, recovering without it: ${error}`);
+        return null;
+      });
+
+    if (authShardData != null) {
+      const { signerId, authKeyShare, recoveryKeyShareHash } = authShardData;
+      this.checkRequestedSigner(signerId, requestedSignerId);
+      await this.validateRecoveryShare(recoveryShare, recoveryKeyShareHash, signerId);
+      return {
+        signerId,
+        scheme: parseShareScheme(authShardData),
+        keyShares: [recoveryShare, toKeyShare('auth', decodeBytes(authKeyShare, 'base64'))],
+      };
+    }
+
+    if (requestedSignerId == null) {
+      throw new Error('A signer ID is required to recover without the authentication share');
+    }
+    const signerId = requestedSignerId;
+    const storedScheme = await this.storage.getItem<StoredShareScheme>(
+      SHARDS_STORE_NAME,
+      this.shareSchemeStorageKey(signerId)
+    );
+    await this.validateRecoveryShare(recoveryShare, storedScheme?.recoveryKeyShareHash, signerId);
+
+    const keyShares = [recoveryShare];
+    const storedDeviceShare = await this.storage.getItem<StoredDeviceShare>(
+      SHARDS_STORE_NAME,
+      this.deviceShareStorageKey(signerId)
+    );
+    const deviceShareBytes =
+      storedDeviceShare != null ? await this.openDeviceShare(storedDeviceShare, signerId) : null;
+    // Without Crossmint, the device share can only be trusted if it matches the hash saved earlier
+    if (
+      deviceShareBytes != null &&
+      (await this.hashKeyShare(deviceShareBytes)) === storedScheme?.deviceKeyShareHash
+    ) {
+      keyShares.unshift(toKeyShare('device', deviceShareBytes));
+    } else {
+      zeroize(deviceShareBytes);
+    }
+
+    return { signerId, scheme: parseShareScheme(storedScheme ?? {}), keyShares };
+  }
+
+  private checkRequestedSigner(signerId: string, requestedSignerId: string | undefined) {
+    if (requestedSignerId != null && signerId !== requestedSignerId) {
       throw new Error(
-        `Failed to recombine key shards: ${error instanceof Error ? error.message : String(error)}`
+        `Authentication share is for signer ${signerId}, but signer ${requestedSignerId} was requested`
+      );
+    }
+  }
+
+  private async validateRecoveryShare(
+    recoveryShare: KeyShare,
+    expectedHashBase64: string | undefined,
+    signerId: string
+  ): Promise<void> {
+    if (expectedHashBase64 == null) {
+      throw new CrossmintFrameCodedError(
+        `Signer ${signerId} has no recovery share`,
+        'invalid-recovery-share'
+      );
+    }
+    if ((await this.hashKeyShare(recoveryShare.bytes)) !== expectedHashBase64) {
+      throw new CrossmintFrameCodedError(
+        `Recovery share does not match the one issued for signer ${signerId}`,
+        'invalid-recovery-share'
       );
     }
   }
 
+  private async saveShareScheme(signerId: string, scheme: StoredShareScheme): Promise<void> {
+    const key = this.shareSchemeStorageKey(signerId);
+    const stored = await this.storage.getItem<StoredShareScheme>(SHARDS_STORE_NAME, key);
+    if (
+      stored?.threshold !== scheme.threshold ||
+      stored.totalShares !== scheme.totalShares ||
+      stored.deviceKeyShareHash !== scheme.deviceKeyShareHash ||
+      stored.recoveryKeyShareHash !== scheme.recoveryKeyShareHash
+    ) {
+      await this.storage.setItem(SHARDS_STORE_NAME, key, scheme);
+    }
+  }
+
+  /**
+   * Promotes the device share staged by an interrupted rotation if Crossmint holds the matching
+   * auth share, and discards it otherwise.
+   */
+  private async completePendingRotation(
+    signerId: string,
+    expectedHashBase64: string
+  ): Promise<Uint8Array | null> {
+    const pendingKey = this.pendingDeviceShareStorageKey(signerId);
+    const pendingShare = await this.storage.getItem<SealedDeviceShare>(
+      SHARDS_STORE_NAME,
+      pendingKey
+    );
+    if (pendingShare == null) {
+      return null;
+    }
+
+    const pendingShareBytes = await this.openDeviceShare(pendingShare, signerId, pendingKey);
+    if (
+      pendingShareBytes == null ||
+      (await this.hashKeyShare(pendingShareBytes)) !== expectedHashBase64
+    ) {
+      zeroize(pendingShareBytes);
+      await this.storage.removeItem(SHARDS_STORE_NAME, pendingKey);
+      return null;
+    }
+
+    this.log('Completing interrupted key share rotation');
+    await this.saveDeviceShare(signerId, pendingShareBytes, await this.getPasskeyBinding(signerId));
+    await this.storage.removeItem(SHARDS_STORE_NAME, pendingKey);
+    return pendingShareBytes;
+  }
+
   private async validateDeviceShareConsistency(
     deviceShareBytes: Uint8Array,
     expectedHashBase64: string,
     signerId: string
   ): Promise<void> {
-    const hashBuffer = await crypto.subtle.digest(HASH_ALGO, deviceShareBytes);
-    const reconstructedDeviceHashBase64 = encodeBytes(new Uint8Array(hashBuffer), 'base64');
+    const reconstructedDeviceHashBase64 = await this.hashKeyShare(deviceShareBytes);
 
     if (reconstructedDeviceHashBase64 !== expectedHashBase64) {
       await this.clear(signerId);
@@ -122,13 +716,205 @@ Expected hash from Crossmint: ${expectedHashBase64}`,
     }
   }
 
+  private async hashKeyShare(shareBytes: Uint8Array): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest(HASH_ALGO, shareBytes);
+    return encodeBytes(new Uint8Array(hashBuffer), 'base64');
+  }
+
+  private async saveDeviceShare(
+    signerId: string,
+    deviceShareBytes: Uint8Array,
+    binding: PasskeyBinding | null = null,
+    storageKey = this.deviceShareStorageKey(signerId)
+  ): Promise<void> {
+    const additionalData = new TextEncoder().encode(signerId);
+    const sealedToPasskey =
+      binding != null ? await sealToPasskey(deviceShareBytes, binding, additionalData) : null;
+
+    const iv = crypto.getRandomValues(new Uint8Array(AES_GCM_IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: AES256_KEY_SPEC.name, iv, additionalData },
+      await this.getOrCreateWrappingKey(),
+      sealedToPasskey?.ciphertext ?? deviceShareBytes
+    );
+    const sealed: SealedDeviceShare = {
+      version: 1,
+      iv: encodeBytes(iv, 'base64'),
+      ciphertext: encodeBytes(new Uint8Array(ciphertext), 'base64'),
+      ...(sealedToPasskey != null && { passkey: sealedToPasskey.seal }),
+    };
+    await this.storage.setItem(SHARDS_STORE_NAME, storageKey, sealed);
+  }
+
+  /**
+   * Returns the plaintext device share, or null if it cannot be decrypted.
+   *
+   * When the wrapping key is missing, the share is kept: it may have been stored by a version that
+   * did not check that the key could be persisted, and onboarding again replaces it. A share that
+   * fails to decrypt under the key was altered or moved, and is discarded.
+   *
+   * Shares bound to a passkey are then opened with the passkey, which asks the user to verify.
+   *
+   * @throws {CrossmintFrameCodedError} With code `passkey-required` when the passkey does not
+   * verify the user. The share is kept, as it can be opened once the user does.
+   */
+  private async openDeviceShare(
+    stored: StoredDeviceShare,
+    signerId: string,
+    storageKey = this.deviceShareStorageKey(signerId)
+  ): Promise<Uint8Array | null> {
+    if (typeof stored === 'string') {
+      return decodeBytes(stored, 'base64');
+    }
+
+    const wrappingKey = await this.loadWrappingKey();
+    if (wrappingKey == null) {
+      this.logError(`No wrapping key to decrypt the device share of signer ${signerId} with`);
+      return null;
+    }
+
+    let plaintext: Uint8Array;
+    try {
+      plaintext = new Uint8Array(
+        await crypto.subtle.decrypt(
+          {
+            name: AES256_KEY_SPEC.name,
+            iv: decodeBytes(stored.iv, 'base64'),
+            additionalData: new TextEncoder().encode(signerId),
+          },
+          wrappingKey,
+          decodeBytes(stored.ciphertext, 'base64')
+        )
+      );
+    } catch (error) {
+      this.logError(`Failed to decrypt device share, discarding it: ${error}`);
+      await this.storage.removeItem(SHARDS_STORE_NAME, storageKey);
+      if (storageKey === this.deviceShareStorageKey(signerId)) {
+        await this.signerRegistry.remove(signerId);
+      }
+      return null;
+    }
+
+    if (stored.passkey == null) {
+      return plaintext;
+    }
+    return this.unlockWithPasskey(plaintext, stored.passkey, signerId);
+  }
+
+  private async unlockWithPasskey(
+    ciphertext: Uint8Array,
+    seal: PasskeySeal,
+    signerId: string
+  ): Promise<Uint8Array> {
+    try {
+      const prfOutput = await evaluatePrf(seal.credentialId, decodeBytes(seal.salt, 'base64'));
+      return await useSecret(prfOutput, output =>
+        openWithPasskey(ciphertext, seal, output, new TextEncoder().encode(signerId))
+      );
+    } catch (error) {
+      throw new CrossmintFrameCodedError(
+        `Device share of signer ${signerId} is bound to a passkey that did not unlock it: ${error}`,
+        'passkey-required'
+      );
+    }
+  }
+
+  private async readDeviceShare(signerId: string): Promise<Uint8Array> {
+    const stored = await this.storage.getItem<StoredDeviceShare>(
+      SHARDS_STORE_NAME,
+      this.deviceShareStorageKey(signerId)
+    );
+    const deviceShareBytes = stored != null ? await this.openDeviceShare(stored, signerId) : null;
+    if (deviceShareBytes == null) {
+      throw new Error(`No device share found for signer ${signerId} on this device`);
+    }
+    return deviceShareBytes;
+  }
+
+  private async getPasskeyBinding(signerId: string): Promise<PasskeyBinding | null> {
+    return (
+      (await this.storage.getItem<PasskeyBinding>(
+        SHARDS_STORE_NAME,
+        this.passkeyBindingStorageKey(signerId)
+      )) ?? null
+    );
+  }
+
+  private loadWrappingKey(): Promise<CryptoKey | null> {
+    if (this.wrappingKey == null) {
+      this.wrappingKey = this.readWrappingKey().catch(error => {
+        this.wrappingKey = null;
+        throw error;
+      });
+    }
+    return this.wrappingKey;
+  }
+
+  private async readWrappingKey(): Promise<CryptoKey | null> {
+    return (
+      (await this.storage.getItem<CryptoKey>(
+        ENCRYPTION_KEYS_STORE_NAME,
+        WRAPPING_KEY_STORAGE_KEY
+      )) ?? null
+    );
+  }
+
+  // Chained on the cached promise, so that concurrent calls generate a single key
+  private getOrCreateWrappingKey(): Promise<CryptoKey> {
+    const wrappingKey = this.loadWrappingKey()
+      .then(existing => existing ?? this.generateWrappingKey())
+      .catch(error => {
+        this.wrappingKey = null;
+        throw error;
+      });
+    this.wrappingKey = wrappingKey;
+    return wrappingKey;
+  }
+
+  /**
+   * @throws {CrossmintFrameCodedError} With code `unsupported-storage` when the storage backend
+   * cannot keep the key
+   */
+  private async generateWrappingKey(): Promise<CryptoKey> {
+    this.assertCanStoreDeviceShares();
+
+    this.log('Generating device share wrapping key');
+    const key = await crypto.subtle.generateKey(AES256_KEY_SPEC, false, ['encrypt', 'decrypt']);
+    await this.storage.setItem(ENCRYPTION_KEYS_STORE_NAME, WRAPPING_KEY_STORAGE_KEY, key);
+    return key;
+  }
+
   private deviceShareStorageKey(signerId: string): string {
     return `device-share-${signerId}`;
   }
 
+  private pendingDeviceShareStorageKey(signerId: string): string {
+    return `pending-device-share-${signerId}`;
+  }
+
+  private shareSchemeStorageKey(signerId: string): string {
+    return `share-scheme-${signerId}`;
+  }
+
+  private passkeyBindingStorageKey(signerId: string): string {
+    return `passkey-binding-${signerId}`;
+  }
+
+  private async wipeSigner(signerId: string): Promise<void> {
+    await wipeItem(this.storage, SHARDS_STORE_NAME, this.deviceShareStorageKey(signerId));
+    await wipeItem(this.storage, SHARDS_STORE_NAME, this.pendingDeviceShareStorageKey(signerId));
+    await wipeItem(this.storage, SHARDS_STORE_NAME, this.shareSchemeStorageKey(signerId));
+    await wipeItem(this.storage, SHARDS_STORE_NAME, this.passkeyBindingStorageKey(signerId));
+    await this.signerRegistry.remove(signerId);
+  }
+
   private async clear(signerId: string) {
-    await this.indexedDB.removeItem(SHARDS_STORE_NAME, this.deviceShareStorageKey(signerId));
-    this.deviceService.clearId();
+    await this.storage.removeItem(SHARDS_STORE_NAME, this.deviceShareStorageKey(signerId));
+    await this.storage.removeItem(SHARDS_STORE_NAME, this.pendingDeviceShareStorageKey(signerId));
+    await this.storage.removeItem(SHARDS_STORE_NAME, this.shareSchemeStorageKey(signerId));
+    await this.storage.removeItem(SHARDS_STORE_NAME, this.passkeyBindingStorageKey(signerId));
+    await this.signerRegistry.remove(signerId);
+    await this.deviceService.clearId();
     this.authShareCache.clearCache();
   }
 }
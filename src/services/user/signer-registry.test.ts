@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SignerRegistryService } from './signer-registry';
+import { InMemoryStore } from '../storage/in-memory-store';
+
+const ED25519_KEYS = { ed25519: { bytes: 'ed25519-public-key', encoding: 'base58' as const } };
+const SECP256K1_KEYS = { secp256k1: { bytes: '0xsecp256k1-public-key', encoding: 'hex' as const } };
+
+describe('SignerRegistryService', () => {
+  let registry: SignerRegistryService;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000 });
+    window.crossmintAppId = 'app-1';
+    registry = new SignerRegistryService(new InMemoryStore());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete window.crossmintAppId;
+  });
+
+  it('should record signers with their creation date and app', async () => {
+    await registry.register('signer-1', ED25519_KEYS);
+
+    expect(await registry.list()).toEqual([
+      { signerId: 'signer-1', createdAt: 1_000, appId: 'app-1', publicKeys: ED25519_KEYS },
+    ]);
+  });
+
+  it('should keep the creation date and merge public keys of known signers', async () => {
+    await registry.register('signer-1', ED25519_KEYS);
+    vi.setSystemTime(2_000);
+    await registry.register('signer-1', SECP256K1_KEYS);
+
+    expect(await registry.list()).toEqual([
+      {
+        signerId: 'signer-1',
+        createdAt: 1_000,
+        appId: 'app-1',
+        publicKeys: { ...ED25519_KEYS, ...SECP256K1_KEYS },
+      },
+    ]);
+  });
+
+  it('should list signers oldest first and forget removed ones', async () => {
+    vi.setSystemTime(3_000);
+    await registry.register('signer-3', ED25519_KEYS);
+    vi.setSystemTime(1_000);
+    await registry.register('signer-1', ED25519_KEYS);
+    vi.setSystemTime(2_000);
+    await registry.register('signer-2', ED25519_KEYS);
+
+    await registry.remove('signer-2');
+
+    expect((await registry.list()).map(signer => signer.signerId)).toEqual([
+      'signer-1',
+      'signer-3',
+    ]);
+  });
+
+  it('should keep confirmation settings when keys are registered again', async () => {
+    await registry.register('signer-1', ED25519_KEYS);
+    await registry.setConfirmation('signer-1', { mode: 'click' });
+    await registry.register('signer-1', SECP256K1_KEYS);
+
+    expect((await registry.get('signer-1'))?.confirmation).toEqual({ mode: 'click' });
+
+    await registry.setConfirmation('signer-1', { mode: 'none' });
+    expect(await registry.get('signer-1')).not.toHaveProperty('confirmation');
+    await expect(registry.setConfirmation('signer-2', { mode: 'click' })).rejects.toThrow(
+      'Signer signer-2 is not registered on this device'
+    );
+  });
+
+  it('SECURITY: should not disclose signers onboarded by other apps', async () => {
+    await registry.register('signer-1', ED25519_KEYS);
+    window.crossmintAppId = 'app-2';
+    await registry.register('signer-2', ED25519_KEYS);
+
+    expect((await registry.list()).map(signer => signer.signerId)).toEqual(['signer-2']);
+  });
+});
@@ -0,0 +1,76 @@
+import { CrossmintFrameService } from '../service';
+import { SIGNERS_STORE_NAME, wipeItem, type KeyValueStore } from '../storage';
+import type { ConfirmationSettings, SignerMetadata, PublicKeys } from '../communications/schemas';
+
+/**
+ * Keeps track of the signers that have a device share on this device, so that the parent SDK can
+ * list them and switch between them without onboarding again.
+ *
+ * Entries only hold public data. They are written once a signer's keys have been reconstructed,
+ * and removed together with the signer's device share.
+ */
+export class SignerRegistryService extends CrossmintFrameService {
+  name = 'Signer Registry Service';
+  log_prefix = '[SignerRegistryService]';
+
+  constructor(private readonly storage: KeyValueStore) {
+    super();
+  }
+
+  async init() {}
+
+  /**
+   * Records a signer's public keys. The creation date and app identifier of known signers are kept.
+   */
+  public async register(signerId: string, publicKeys: PublicKeys): Promise<void> {
+    const existing = await this.storage.getItem<SignerMetadata>(SIGNERS_STORE_NAME, signerId);
+    const appId = existing != null ? existing.appId : window.crossmintAppId;
+    const metadata: SignerMetadata = {
+      signerId,
+      createdAt: existing?.createdAt ?? Date.now(),
+      ...(appId != null && { appId }),
+      publicKeys: { ...existing?.publicKeys, ...publicKeys },
+      ...(existing?.confirmation != null && { confirmation: existing.confirmation }),
+    };
+    await this.storage.setItem(SIGNERS_STORE_NAME, signerId, metadata);
+  }
+
+  public async get(signerId: string): Promise<SignerMetadata | null> {
+    return this.storage.getItem<SignerMetadata>(SIGNERS_STORE_NAME, signerId);
+  }
+
+  /**
+   * Sets the confirmation a signer requires before signing. Setting the mode to `none` removes
+   * the settings.
+   */
+  public async setConfirmation(
+    signerId: string,
+    confirmation: ConfirmationSettings
+  ): Promise<void> {
+    const existing = await this.get(signerId);
+    if (existing == null) {
+      throw new Error(`Signer ${signerId} is not registered on this device`);
+    }
+    const metadata: SignerMetadata = { ...existing, confirmation };
+    if (confirmation.mode === 'none') {
+      delete metadata.confirmation;
+    }
+    await this.storage.setItem(SIGNERS_STORE_NAME, signerId, metadata);
+  }
+
+  /**
+   * Lists the signers registered by the current app, oldest first. Signers onboarded on this
+   * device by other apps are not disclosed.
+   */
+  public async list(): Promise<SignerMetadata[]> {
+    const signers = await this.storage.getAllItems<SignerMetadata>(SIGNERS_STORE_NAME);
+    return signers
+      .filter(signer => signer.appId === window.crossmintAppId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  public async remove(signerId: string): Promise<void> {
+    this.log(`Removing signer ${signerId}`);
+    await wipeItem(this.storage, SIGNERS_STORE_NAME, signerId);
+  }
+}
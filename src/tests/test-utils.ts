@@ -10,9 +10,15 @@ import type { EventsService } from '../services/communications/events';
 import type { EncryptionService } from '../services/encryption';
 import type { FPEService } from '../services/encryption/fpe';
 import type { Secp256k1Service } from '../services/crypto/algorithms/secp256k1';
+import type { Secp256r1Service } from '../services/crypto/algorithms/secp256r1';
 import type { CryptoKeyService } from '../services/crypto/crypto-key';
 import type { DeviceService } from '../services/user/device';
-import { IndexedDBAdapter } from '../services/storage';
+import type { KeyValueStore } from '../services/storage';
+import type { TransactionService } from '../services/transactions';
+import type { PolicyService } from '../services/policy';
+import type { SignerRegistryService } from '../services/user/signer-registry';
+import type { SessionKeyService } from '../services/session';
+import type { ConfirmationService } from '../services/confirmation';
 /**
  * Creates mock services for testing with proper typing
  */
@@ -25,8 +31,14 @@ export function createMockServices(): MockProxy<CrossmintFrameServices> & {
   encrypt: MockProxy<EncryptionService>;
   fpe: MockProxy<FPEService>;
   secp256k1: MockProxy<Secp256k1Service>;
+  secp256r1: MockProxy<Secp256r1Service>;
   cryptoKey: MockProxy<CryptoKeyService>;
   device: MockProxy<DeviceService>;
+  transactions: MockProxy<TransactionService>;
+  policy: MockProxy<PolicyService>;
+  signers: MockProxy<SignerRegistryService>;
+  sessions: MockProxy<SessionKeyService>;
+  confirmation: MockProxy<ConfirmationService>;
 } {
   return {
     api: mock<CrossmintApiService>(),
@@ -37,9 +49,15 @@ export function createMockServices(): MockProxy<CrossmintFrameServices> & {
     encrypt: mock<EncryptionService>(),
     fpe: mock<FPEService>(),
     secp256k1: mock<Secp256k1Service>(),
+    secp256r1: mock<Secp256r1Service>(),
     cryptoKey: mock<CryptoKeyService>(),
     device: mock<DeviceService>(),
-    storage: mock<IndexedDBAdapter>(),
+    storage: mock<KeyValueStore>(),
+    transactions: mock<TransactionService>(),
+    policy: mock<PolicyService>(),
+    signers: mock<SignerRegistryService>(),
+    sessions: mock<SessionKeyService>(),
+    confirmation: mock<ConfirmationService>(),
   };
 }
 
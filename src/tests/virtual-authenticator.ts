@@ -0,0 +1,131 @@
+import { vi } from 'vitest';
+
+// Flags of the authenticator data: user present and user verified
+const USER_PRESENT_AND_VERIFIED = 0x05;
+const AUTHENTICATOR_DATA_LENGTH = 37;
+
+class VirtualPublicKeyCredential {
+  readonly type = 'public-key';
+
+  constructor(
+    readonly rawId: ArrayBuffer,
+    readonly response: object,
+    private readonly extensionResults: object
+  ) {}
+
+  getClientExtensionResults() {
+    return this.extensionResults;
+  }
+}
+
+/**
+ * Software WebAuthn authenticator standing in for a platform one, so that passkey features can be
+ * tested without hardware. The PRF of a credential is an HMAC-SHA256 of the salt under a secret
+ * generated with the credential, and users always verify unless `userCancels` is set.
+ */
+export class VirtualAuthenticator {
+  /** Makes the next ceremonies fail as if the user dismissed the browser prompt */
+  userCancels = false;
+  /** Number of assertions the user approved */
+  assertions = 0;
+
+  private readonly secrets = new Map<string, Uint8Array>();
+
+  constructor(private readonly options: { prf: boolean } = { prf: true }) {}
+
+  install(): void {
+    vi.stubGlobal('PublicKeyCredential', VirtualPublicKeyCredential);
+    Object.defineProperty(navigator, 'credentials', {
+      configurable: true,
+      value: {
+        create: (options: CredentialCreationOptions) => this.create(options),
+        get: (options: CredentialRequestOptions) => this.get(options),
+      },
+    });
+  }
+
+  uninstall(): void {
+    vi.unstubAllGlobals();
+    Reflect.deleteProperty(navigator, 'credentials');
+  }
+
+  private async create({ publicKey }: CredentialCreationOptions) {
+    if (publicKey == null) {
+      throw new TypeError('Only public key credentials are supported');
+    }
+    this.checkUser();
+
+    const rawId = crypto.getRandomValues(new Uint8Array(16));
+    this.secrets.set(
+      Buffer.from(rawId).toString('base64'),
+      crypto.getRandomValues(new Uint8Array(32))
+    );
+    const prf = publicKey.extensions != null && 'prf' in publicKey.extensions;
+    return new VirtualPublicKeyCredential(
+      rawId.buffer,
+      {},
+      prf ? { prf: { enabled: this.options.prf } } : {}
+    );
+  }
+
+  private async get({ publicKey }: CredentialRequestOptions) {
+    if (publicKey == null) {
+      throw new TypeError('Only public key credentials are supported');
+    }
+    this.checkUser();
+
+    const rawId = publicKey.allowCredentials
+      ?.map(({ id }) =>
+        ArrayBuffer.isView(id)
+          ? new Uint8Array(id.buffer, id.byteOffset, id.byteLength)
+          : new Uint8Array(id)
+      )
+      .find(id => this.secrets.has(Buffer.from(id).toString('base64')));
+    if (rawId == null) {
+      throw new DOMException('No matching credential', 'NotAllowedError');
+    }
+    const secret = this.secrets.get(Buffer.from(rawId).toString('base64')) as Uint8Array;
+
+    const salt = (publicKey.extensions as { prf?: { eval?: { first: BufferSource } } } | undefined)
+      ?.prf?.eval?.first;
+    const extensionResults =
+      salt != null && this.options.prf
+        ? { prf: { results: { first: await hmac(secret, salt) } } }
+        : {};
+
+    const authenticatorData = new Uint8Array(AUTHENTICATOR_DATA_LENGTH);
+    authenticatorData[32] = USER_PRESENT_AND_VERIFIED;
+    const clientData = {
+      type: 'webauthn.get',
+      challenge: Buffer.from(publicKey.challenge as Uint8Array).toString('base64url'),
+      origin: window.location.origin,
+    };
+    this.assertions++;
+    return new VirtualPublicKeyCredential(
+      rawId.slice().buffer,
+      {
+        authenticatorData: authenticatorData.buffer,
+        clientDataJSON: new TextEncoder().encode(JSON.stringify(clientData)).buffer,
+        signature: new ArrayBuffer(64),
+      },
+      extensionResults
+    );
+  }
+
+  private checkUser(): void {
+    if (this.userCancels) {
+      throw new DOMException('The user cancelled the request', 'NotAllowedError');
+    }
+  }
+}
+
+async function hmac(secret: Uint8Array, data: BufferSource): Promise<ArrayBuffer> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    secret,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return crypto.subtle.sign('HMAC', key, data);
+}